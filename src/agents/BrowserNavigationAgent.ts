@@ -8,21 +8,41 @@
  * 4. Reporting detailed results back
  */
 
+import { z } from 'zod';
 import type {
+  ExecuteOptions,
   SubTask,
   SubTaskResult,
   ActionResult,
   ActionType,
+  ApprovalRecord,
   DOMDistillationMode,
   DistilledDOM,
+  DistilledDelta,
+  DistilledItem,
+  DistillOptions,
   LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  Observation,
   SubTaskErrorCode,
+  ToolCall,
+  OpenAIFunction,
+  AnthropicTool,
 } from '../types';
 import { DOMDistillationMode as Mode } from '../types';
 import type { LLMProvider } from '../infrastructure/LLMProvider';
-import type { DOMDistiller } from '../services/DOMDistiller';
+import { completeStructured, StructuredOutputError } from '../infrastructure/StructuredOutput';
+import { describeItem, type DOMDistiller } from '../services/DOMDistiller';
 import type { ActionExecutor } from '../services/ActionExecutor';
-import type { ChangeObserver } from '../services/ChangeObserver';
+import type { ChangeObserver, ChangeReport } from '../services/ChangeObserver';
+import { ASK_USER_SKILL, type SkillRegistry } from '../services/SkillRegistry';
+import type { ApprovalGate } from '../services/ApprovalGate';
+import type { SecretVault } from '../services/SecretVault';
+import type { PIIRedactor } from '../services/PIIRedactor';
+import { UserInputTimeoutError } from '../services/QuestionBroker';
+import { isAbortError, raceAbort, throwIfAborted } from '../utils/abort';
 
 // ============================================================================
 // TYPES
@@ -32,12 +52,87 @@ export interface BrowserNavConfig {
   maxStepsPerSubtask?: number;
   customSystemPrompt?: string;
   screenshotOnAction?: boolean;
+  /** Drive the page through native tool calls instead of free-form JSON */
+  toolCalling?: boolean;
+  /**
+   * Follow up with only what changed on the page after each step (default: true).
+   * JSON-mode decisions then form one conversation instead of standalone prompts,
+   * started over whenever the full page is sent.
+   */
+  deltaDistillation?: boolean;
+  /**
+   * Estimated tokens of page elements per prompt; the elements most relevant to the
+   * subtask are kept (default: 2000)
+   */
+  pageTokenBudget?: number;
+  /** Skills exposed as tools when toolCalling is enabled */
+  skills?: SkillRegistry;
+  /** Holds skill calls matching the approval policy until they are decided */
+  approvalGate?: ApprovalGate;
+  /** Secrets offered to the model as placeholders */
+  secrets?: SecretVault;
+  /** Set when page content reaches the model with PII tokens */
+  pii?: PIIRedactor;
+  /** Receives incremental output when set (the LLM is called in streaming mode) */
+  onStreamEvent?: (event: LLMStreamEvent) => void;
+  /** Receives every LLM response, e.g. for per-call usage tracking */
+  onResponse?: (response: LLMResponse) => void;
 }
 
-interface ActionDecision {
-  action: ActionType;
-  params: Record<string, unknown>;
-  reasoning?: string;
+const ACTION_NAMES = [
+  'click', 'doubleClick', 'rightClick', 'type', 'clear', 'select', 'check', 'uncheck',
+  'scroll', 'scrollToElement', 'hover', 'focus', 'blur', 'press', 'wait', 'waitForElement',
+  'waitForNavigation', 'navigate', 'goBack', 'goForward', 'refresh', 'screenshot',
+] as const satisfies readonly ActionType[];
+
+const FactSchema = z.object({
+  text: z.string(),
+  index: z.number().int().nullish(),
+});
+
+const ActionDecisionSchema = z.object({
+  action: z.enum([...ACTION_NAMES, 'done', ASK_USER_SKILL]),
+  params: z.record(z.unknown()).default({}),
+  reasoning: z.string().optional(),
+  facts: z.array(FactSchema).nullish(),
+});
+
+type ActionDecision = z.infer<typeof ActionDecisionSchema>;
+
+interface ToolCallOutcome {
+  content: string;
+  result?: ActionResult;
+  /** Set when the skill call itself needed approval */
+  approval?: ApprovalRecord;
+  failed: boolean;
+  /** Set when the page URL changed while the call ran */
+  navigated?: boolean;
+  /** Nodes that changed while the call ran */
+  touched?: Node[];
+}
+
+/**
+ * The page after a step: the new snapshot, and what changed when it was taken as a delta
+ */
+interface PageUpdate {
+  dom: DistilledDOM;
+  delta: DistilledDelta | null;
+}
+
+/**
+ * What a subtask run learned and which of its actions were denied
+ */
+interface SubtaskTrace {
+  observations: Observation[];
+  denials: ApprovalRecord[];
+}
+
+/**
+ * A question put to the user in JSON mode and what came back
+ */
+interface UserAnswer {
+  question: string;
+  answer: string;
 }
 
 // ============================================================================
@@ -53,16 +148,56 @@ const BROWSER_NAV_SYSTEM_PROMPT = `You are a browser automation agent. Execute s
 - scroll: { direction: "up"|"down", amount?: number }
 - wait: { duration: number } - Wait milliseconds
 - navigate: { url: string } - Go to URL
+- ask_user: { question: string, fields?: number[] } - Ask the user for information you cannot find or should not guess (a password, a 2FA code, a choice); the answer appears under "User Answers"
 
 ## Response Format (JSON only):
 {
   "action": "click",
   "params": { "index": 5 },
-  "reasoning": "Clicking the search button to submit"
+  "reasoning": "Clicking the search button to submit",
+  "facts": [{ "text": "Cheapest flight: $120 with Delta", "index": 12 }]
 }
 
+"facts" is optional: record information on the page that the subtask is looking for, with the [index] of the element it is in.
+
 Choose the best action based on the subtask and current page state.`;
 
+const BROWSER_NAV_TOOLS_SYSTEM_PROMPT = `You are a browser automation agent. Execute subtasks by calling the provided tools.
+
+- Reference page elements by their [index] from the latest page state.
+- Call exactly one interaction tool per turn and inspect its result before continuing.
+- When the subtask is complete, call "done" with success=true and a short summary. Pass any information the subtask was looking for as "facts", with the [index] of the element it is in.
+- If the subtask needs information only the user has (a password, a 2FA code, a choice), call "ask_user" instead of guessing.
+- If the subtask cannot be completed, call "done" with success=false and explain why.`;
+
+/** Name of the tool the model calls to finish a subtask */
+const DONE_TOOL_NAME = 'done';
+
+const DONE_TOOL: OpenAIFunction = {
+  name: DONE_TOOL_NAME,
+  description: 'Signal that the current subtask is finished',
+  parameters: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean', description: 'Whether the subtask was completed' },
+      summary: { type: 'string', description: 'What was done, or why it failed' },
+      facts: {
+        type: 'array',
+        description: 'Information found on the page, with the index of the element it is in',
+        items: {
+          type: 'object',
+          properties: { text: { type: 'string' }, index: { type: 'number' } },
+          required: ['text'],
+        },
+      },
+    },
+    required: ['success'],
+  },
+};
+
+/** Maximum characters of a tool result fed back to the model */
+const MAX_TOOL_RESULT_LENGTH = 4000;
+
 // ============================================================================
 // BROWSER NAVIGATION AGENT
 // ============================================================================
@@ -72,7 +207,13 @@ export class BrowserNavigationAgent {
   private distiller: DOMDistiller;
   private executor: ActionExecutor;
   private observer: ChangeObserver;
-  private config: Required<BrowserNavConfig>;
+  private skills: SkillRegistry | null;
+  private approvalGate: ApprovalGate | null;
+  private secrets: SecretVault | null;
+  private pii: PIIRedactor | null;
+  private onStreamEvent: ((event: LLMStreamEvent) => void) | null;
+  private onResponse: ((response: LLMResponse) => void) | null;
+  private config: Required<Omit<BrowserNavConfig, 'skills' | 'approvalGate' | 'secrets' | 'pii' | 'onStreamEvent' | 'onResponse'>>;
   private totalTokens = 0;
   
   constructor(
@@ -86,57 +227,125 @@ export class BrowserNavigationAgent {
     this.distiller = distiller;
     this.executor = executor;
     this.observer = observer;
+    this.skills = config.skills ?? null;
+    this.approvalGate = config.approvalGate ?? null;
+    this.secrets = config.secrets ?? null;
+    this.pii = config.pii ?? null;
+    this.onStreamEvent = config.onStreamEvent ?? null;
+    this.onResponse = config.onResponse ?? null;
+    const toolCalling = config.toolCalling ?? false;
     this.config = {
       maxStepsPerSubtask: config.maxStepsPerSubtask ?? 10,
-      customSystemPrompt: config.customSystemPrompt ?? BROWSER_NAV_SYSTEM_PROMPT,
+      customSystemPrompt: config.customSystemPrompt ??
+        (toolCalling ? BROWSER_NAV_TOOLS_SYSTEM_PROMPT : BROWSER_NAV_SYSTEM_PROMPT),
       screenshotOnAction: config.screenshotOnAction ?? false,
+      toolCalling,
+      deltaDistillation: config.deltaDistillation ?? true,
+      pageTokenBudget: config.pageTokenBudget ?? 2000,
     };
   }
   
   /**
    * Execute a single subtask
    */
-  async executeSubTask(subtask: SubTask): Promise<SubTaskResult> {
+  async executeSubTask(subtask: SubTask, options: ExecuteOptions = {}): Promise<SubTaskResult> {
+    const trace: SubtaskTrace = { observations: [], denials: [] };
+    const result = this.config.toolCalling && this.skills
+      ? await this.executeWithTools(subtask, this.skills, options, trace)
+      : await this.executeWithJSON(subtask, options, trace);
+    return {
+      ...result,
+      ...(trace.observations.length > 0 ? { observations: trace.observations } : {}),
+      ...(trace.denials.length > 0 ? { denials: trace.denials } : {}),
+    };
+  }
+  
+  /**
+   * Execute a subtask by asking for one JSON action decision per step
+   */
+  private async executeWithJSON(
+    subtask: SubTask,
+    { signal }: ExecuteOptions,
+    trace: SubtaskTrace
+  ): Promise<SubTaskResult> {    
     const startTime = Date.now();
     const steps: ActionResult[] = [];
+    const answers: UserAnswer[] = [];
     let retryCount = 0;
+    // With deltas, decisions form one conversation; each follow-up says what happened since
+    const conversation: LLMMessage[] = [{ role: 'system', content: this.config.customSystemPrompt }];
     
     try {
       // Choose distillation mode based on subtask
       const mode = this.chooseDOMMode(subtask);
+      const distillOptions = this.getDistillOptions(subtask);
+      let previous: DistilledDOM | null = null;
+      let navigated = false;
+      // Nodes changed since the previous snapshot (null when changes went unobserved)
+      let touched: Node[] | null = [];
+      let reportedSteps = 0;
+      let reportedAnswers = 0;
       
       for (let step = 0; step < this.config.maxStepsPerSubtask; step++) {
+        throwIfAborted(signal);
+        
         // Get current page state
-        const dom = await this.distiller.distill(mode);
+        const update: PageUpdate = previous && !navigated && this.config.deltaDistillation
+          ? await this.distiller.distillDelta(previous, distillOptions, touched ?? undefined)
+          : { dom: await this.distiller.distill(mode, distillOptions), delta: null };
+        const { dom } = update;
+        const pageChanges = previous && this.config.deltaDistillation ? this.describeChanges(update, previous.url) : null;
+        // Sending the full page starts over: earlier pages in the conversation are stale
+        if (pageChanges === null) conversation.splice(1);
+        conversation.push({
+          role: 'user',
+          content: pageChanges !== null
+            ? this.buildFollowUp(pageChanges, steps.slice(reportedSteps), answers.slice(reportedAnswers))
+            : this.buildActionPrompt(subtask, dom, steps, answers),
+        });
+        previous = dom;
+        navigated = false;
+        touched = [];
+        reportedSteps = steps.length;
+        reportedAnswers = answers.length;
         
         // Decide next action
-        const decision = await this.decideAction(subtask, dom, steps);
+        const decision = await this.decideAction(conversation, signal);
+        conversation.push({ role: 'assistant', content: JSON.stringify(decision) });
+        trace.observations.push(...toPageObservations(decision.facts, dom.url));
         
         // Check for completion signal
-        if (decision.action === 'done' as ActionType) {
+        if (decision.action === 'done') {
           return this.createResult(subtask.id, true, steps, startTime, retryCount);
         }
         
+        if (decision.action === ASK_USER_SKILL) {
+          answers.push(await this.askUser(decision.params, signal));
+          // The page may have changed while the user was answering
+          touched = null;
+          continue;
+        }
+        
         // Start observing changes
         this.observer.startObserving();
         
         // Execute action
         const result = await this.executor.execute(
           decision.action,
-          decision.params as never
+          decision.params as never,
+          signal ? { signal } : {}
         );
         
         // Stop observing and get changes
         const changes = this.observer.stopObserving();
+        navigated = changes.urlChanged;
+        touched = changes.touched;
         
         // Enrich result with observations
-        const enrichedResult: ActionResult = {
-          ...result,
-          mutations: changes.mutations,
-          verbalFeedback: changes.verbalFeedback || result.verbalFeedback,
-        };
+        const enrichedResult = withChanges(result, changes);
         
         steps.push(enrichedResult);
+        recordStep(trace, enrichedResult, dom.url);
         
         // Check if action succeeded
         if (!result.success) {
@@ -166,14 +375,250 @@ export class BrowserNavigationAgent {
       });
       
     } catch (error) {
+      if (isAbortError(error)) {
+        this.observer.stopObserving();
+        return this.cancelledResult(subtask.id, steps, startTime, retryCount);
+      }
+      if (error instanceof UserInputTimeoutError) {
+        return this.userTimeoutResult(subtask.id, error, steps, startTime, retryCount);
+      }
       return this.createResult(subtask.id, false, steps, startTime, retryCount, {
-        code: 'ACTION_FAILED' as SubTaskErrorCode,
+        code: (error instanceof StructuredOutputError ? 'LLM_ERROR' : 'ACTION_FAILED') as SubTaskErrorCode,
         message: error instanceof Error ? error.message : 'Unknown error',
         step: steps.length,
       });
     }
   }
   
+  /**
+   * Execute a subtask through a native tool-calling loop.
+   * Skills from the registry are offered as tools, their results are fed back
+   * as `tool` messages, and the dedicated `done` tool ends the subtask.
+   */
+  private async executeWithTools(
+    subtask: SubTask,
+    skills: SkillRegistry,
+    { signal }: ExecuteOptions,
+    trace: SubtaskTrace
+  ): Promise<SubTaskResult> {
+    const startTime = Date.now();
+    const steps: ActionResult[] = [];
+    let retryCount = 0;
+    
+    const tools = this.getToolDefinitions(skills);
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.config.customSystemPrompt },
+    ];
+    
+    try {
+      const mode = this.chooseDOMMode(subtask);
+      const distillOptions = this.getDistillOptions(subtask);
+      let previous: DistilledDOM | null = null;
+      let navigated = false;
+      let touched: Node[] = [];
+      
+      for (let step = 0; step < this.config.maxStepsPerSubtask; step++) {
+        throwIfAborted(signal);
+        
+        const update: PageUpdate = previous && !navigated && this.config.deltaDistillation
+          ? await this.distiller.distillDelta(previous, distillOptions, touched)
+          : { dom: await this.distiller.distill(mode, distillOptions), delta: null };
+        const { dom } = update;
+        messages.push({
+          role: 'user',
+          content: previous
+            ? this.buildPageUpdate(update, previous.url)
+            : this.buildActionPrompt(subtask, dom, [], [], false),
+        });
+        previous = dom;
+        navigated = false;
+        touched = [];
+        
+        const response = await this.complete({
+          messages,
+          tools,
+          toolChoice: 'required',
+          ...(signal ? { signal } : {}),
+        });
+        
+        const toolCalls = response.toolCalls ?? [];
+        messages.push({
+          role: 'assistant',
+          content: response.content,
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        });
+        
+        if (toolCalls.length === 0) {
+          messages.push({
+            role: 'user',
+            content: `Respond by calling one of the tools. Call "${DONE_TOOL_NAME}" when the subtask is finished.`,
+          });
+          continue;
+        }
+        
+        for (const call of toolCalls) {
+          if (call.name === DONE_TOOL_NAME) {
+            const args = this.parseToolArguments(call);
+            const facts = FactSchema.array().safeParse(args?.['facts']);
+            if (facts.success) trace.observations.push(...toPageObservations(facts.data, dom.url));
+            if (args?.['success'] === false) {
+              const summary = args['summary'];
+              return this.createResult(subtask.id, false, steps, startTime, retryCount, {
+                code: 'ACTION_FAILED' as SubTaskErrorCode,
+                message: typeof summary === 'string' && summary ? summary : 'Agent reported failure',
+                step,
+              });
+            }
+            return this.createResult(subtask.id, true, steps, startTime, retryCount);
+          }
+          
+          const outcome = await this.executeToolCall(call, skills, signal);
+          navigated ||= outcome.navigated ?? false;
+          touched.push(...outcome.touched ?? []);
+          if (outcome.result) {
+            steps.push(outcome.result);
+            recordStep(trace, outcome.result, dom.url);
+          }
+          if (outcome.approval?.decision.outcome === 'deny') {
+            trace.denials.push(outcome.approval);
+          }
+          if (outcome.failed) {
+            retryCount++;
+          }
+          messages.push({
+            role: 'tool',
+            content: outcome.content,
+            name: call.name,
+            tool_call_id: call.id,
+          });
+        }
+        
+        if (retryCount >= 3) {
+          const lastAction = steps[steps.length - 1];
+          return this.createResult(subtask.id, false, steps, startTime, retryCount, {
+            code: 'ACTION_FAILED' as SubTaskErrorCode,
+            message: lastAction?.error?.message || 'Tool calls failed repeatedly',
+            step,
+            ...(lastAction ? { lastAction } : {}),
+          });
+        }
+      }
+      
+      return this.createResult(subtask.id, false, steps, startTime, retryCount, {
+        code: 'MAX_STEPS_EXCEEDED' as SubTaskErrorCode,
+        message: `Exceeded max steps (${this.config.maxStepsPerSubtask})`,
+        step: steps.length,
+      });
+      
+    } catch (error) {
+      if (isAbortError(error)) {
+        return this.cancelledResult(subtask.id, steps, startTime, retryCount);
+      }
+      if (error instanceof UserInputTimeoutError) {
+        return this.userTimeoutResult(subtask.id, error, steps, startTime, retryCount);
+      }
+      return this.createResult(subtask.id, false, steps, startTime, retryCount, {
+        code: 'LLM_ERROR' as SubTaskErrorCode,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        step: steps.length,
+      });
+    }
+  }
+  
+  /**
+   * Build the tool list for the current provider, including the `done` tool
+   */
+  private getToolDefinitions(skills: SkillRegistry): OpenAIFunction[] | AnthropicTool[] {
+    if (this.llm.getConfig().provider === 'anthropic') {
+      return [
+        ...skills.toAnthropicTools(),
+        { name: DONE_TOOL.name, description: DONE_TOOL.description, input_schema: DONE_TOOL.parameters },
+      ];
+    }
+    return [...skills.toOpenAIFunctions(), DONE_TOOL];
+  }
+  
+  /**
+   * Run one tool call through the SkillRegistry and describe the outcome for the model
+   */
+  private async executeToolCall(call: ToolCall, skills: SkillRegistry, signal?: AbortSignal): Promise<ToolCallOutcome> {
+    let params = this.parseToolArguments(call);
+    if (!params) {
+      return { content: `Error: invalid JSON arguments for ${call.name}`, failed: true };
+    }
+    const skill = skills.get(call.name);
+    if (!skill) {
+      return { content: `Error: unknown tool "${call.name}"`, failed: true };
+    }
+    
+    const approval = await this.approvalGate?.review({ skill, params }, signal) ?? null;
+    if (approval?.decision.outcome === 'deny') {
+      const reason = approval.decision.reason ? `: ${approval.decision.reason}` : '';
+      return { content: `Denied by approver${reason}. Do not call ${call.name} this way again.`, approval, failed: true };
+    }
+    if (approval?.decision.outcome === 'edit') {
+      params = approval.decision.params as Record<string, unknown>;
+    }
+    
+    this.observer.startObserving();
+    try {
+      const output = await raceAbort(skills.execute(call.name, params), signal);
+      const changes = this.observer.stopObserving();
+      
+      if (isActionResult(output)) {
+        const result = withChanges(output, changes);
+        const status = result.success ? 'Success' : 'Failed';
+        return {
+          content: `${status}: ${result.verbalFeedback}`,
+          result,
+          ...(approval ? { approval } : {}),
+          failed: !result.success,
+          navigated: changes.urlChanged,
+          touched: changes.touched,
+        };
+      }
+      
+      const serialized = typeof output === 'string' ? output : JSON.stringify(output ?? null);
+      return {
+        content: serialized.slice(0, MAX_TOOL_RESULT_LENGTH),
+        ...(approval ? { approval } : {}),
+        failed: false,
+        navigated: changes.urlChanged,
+        touched: changes.touched,
+      };
+    } catch (error) {
+      const { urlChanged, touched } = this.observer.stopObserving();
+      // Unanswered questions end the subtask rather than the step
+      if (isAbortError(error) || error instanceof UserInputTimeoutError) throw error;
+      return {
+        content: `Error: ${error instanceof Error ? error.message : String(error)}`,
+        failed: true,
+        navigated: urlChanged,
+        touched,
+      };
+    }
+  }
+  
+  private async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = this.onStreamEvent
+      ? await this.llm.completeStreaming(request, this.onStreamEvent)
+      : await this.llm.complete(request);
+    this.totalTokens += response.usage.totalTokens;
+    this.onResponse?.(response);
+    return response;
+  }
+  
+  private parseToolArguments(call: ToolCall): Record<string, unknown> | null {
+    try {
+      const parsed: unknown = JSON.parse(call.arguments || '{}');
+      return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? parsed as Record<string, unknown>
+        : null;
+    } catch {
+      return null;
+    }
+  }
+  
   /**
    * Choose the best DOM distillation mode for a subtask
    */
@@ -195,29 +640,33 @@ export class BrowserNavigationAgent {
   }
   
   /**
-   * Decide the next action based on subtask and current DOM
+   * Decide the next action from the prompts so far
    */
-  private async decideAction(
-    subtask: SubTask,
-    dom: DistilledDOM,
-    previousSteps: ActionResult[]
-  ): Promise<ActionDecision> {
-    const messages: LLMMessage[] = [
-      { role: 'system', content: this.config.customSystemPrompt },
-      {
-        role: 'user',
-        content: this.buildActionPrompt(subtask, dom, previousSteps),
-      },
-    ];
-    
-    const response = await this.llm.complete({ messages, responseFormat: 'json' });
-    this.totalTokens += response.usage.totalTokens;
-    
+  private async decideAction(messages: LLMMessage[], signal?: AbortSignal): Promise<ActionDecision> {
+    const { data } = await completeStructured(
+      { complete: (request) => this.complete(request) },
+      { messages, ...(signal ? { signal } : {}) },
+      ActionDecisionSchema,
+      { name: 'action_decision' }
+    );
+    return data;
+  }
+  
+  /**
+   * Put a JSON-mode ask_user decision to the user through the ask_user skill.
+   * Unavailable answers are reported to the model; timeouts propagate.
+   */
+  private async askUser(params: Record<string, unknown>, signal?: AbortSignal): Promise<UserAnswer> {
+    const question = typeof params['question'] === 'string' ? params['question'] : '';
+    if (!this.skills?.get(ASK_USER_SKILL)) {
+      return { question, answer: '(the user cannot be asked here; continue without an answer)' };
+    }
     try {
-      return JSON.parse(response.content) as ActionDecision;
-    } catch {
-      // Default to waiting if parse fails
-      return { action: 'wait', params: { duration: 1000 } };
+      const answer = await raceAbort(this.skills.execute(ASK_USER_SKILL, params), signal);
+      return { question, answer: String(answer) };
+    } catch (error) {
+      if (isAbortError(error) || error instanceof UserInputTimeoutError) throw error;
+      return { question, answer: `(no answer: ${error instanceof Error ? error.message : String(error)})` };
     }
   }
   
@@ -227,45 +676,155 @@ export class BrowserNavigationAgent {
   private buildActionPrompt(
     subtask: SubTask,
     dom: DistilledDOM,
-    previousSteps: ActionResult[]
+    previousSteps: ActionResult[],
+    answers: readonly UserAnswer[] = [],
+    includeResponseHint = true
   ): string {
-    const elements = 'elements' in dom ? dom.elements : ('content' in dom ? dom.content : []);
-    
     let prompt = `## Subtask
 ${subtask.description}
 Target: ${subtask.target || 'Not specified'}
 Value: ${subtask.value || 'Not specified'}
-
-## Current Page
+${this.buildVariablesSection(subtask)}${this.buildSecretsSection()}
+${this.buildPageSection(dom)}`;
+    
+    // Add previous steps
+    if (previousSteps.length > 0) {
+      prompt += `\n## Previous Actions (${previousSteps.length})\n`;
+      previousSteps.slice(-3).forEach(step => {
+        const target = step.before?.id ? ` ${step.before.id}` : '';
+        prompt += `- ${step.action}${target}: ${step.success ? 'Success' : 'Failed'} - ${step.verbalFeedback}\n`;
+      });
+    }
+    
+    if (answers.length > 0) {
+      prompt += `\n## User Answers\n`;
+      answers.forEach(({ question, answer }) => {
+        prompt += `Q: ${question}\nA: ${answer}\n`;
+      });
+    }
+    
+    if (includeResponseHint) {
+      prompt += `\nChoose the next action. If subtask is complete, return { "action": "done" }`;
+    }
+    
+    return prompt;
+  }
+  
+  /**
+   * Loop variables the subtask runs with (empty outside loops)
+   */
+  private buildVariablesSection(subtask: SubTask): string {
+    const entries = Object.entries(subtask.variables ?? {});
+    if (entries.length === 0) return '';
+    return `\n## Loop Variables\n${entries.map(([name, value]) => `${name}: ${value}`).join('\n')}\n`;
+  }
+  
+  /**
+   * Placeholders the model types instead of secret values or personal data
+   * (empty when neither is configured)
+   */
+  private buildSecretsSection(): string {
+    const placeholders = this.secrets?.getPlaceholders() ?? [];
+    const sections = [
+      ...(placeholders.length > 0
+        ? [`## Secrets\nType a placeholder to enter its secret; the real value is filled in for you:\n${placeholders.join('\n')}`]
+        : []),
+      ...(this.pii
+        ? ['## Redacted Data\nValues like {{pii:email_1}} are redacted personal data. Type or select the token itself to enter the real value.']
+        : []),
+    ];
+    return sections.map(section => `\n${section}\n`).join('');
+  }
+  
+  /**
+   * Page elements are ranked against what the subtask is looking for and cut to the budget
+   */
+  private getDistillOptions(subtask: SubTask): DistillOptions {
+    return {
+      tokenBudget: this.config.pageTokenBudget,
+      query: [subtask.description, subtask.target].filter(Boolean).join(' '),
+    };
+  }
+  
+  /**
+   * Describe the current page and its elements
+   */
+  private buildPageSection(dom: DistilledDOM): string {
+    const elements: readonly DistilledItem[] = 'elements' in dom ? dom.elements : dom.content;
+    const dropped = dom.dropped?.ids.length ?? 0;
+    const count = dropped > 0
+      ? `${elements.length} most relevant of ${elements.length + dropped}`
+      : `${elements.length} total`;
+    
+    let section = `## Current Page
 URL: ${dom.url}
 Title: ${dom.title}
 
-## Available Elements (${elements.length} total)
+## Available Elements (${count})
+Listed as [index|id]. Act on the index; ids stay the same from step to step, indices may not.
 `;
 
-    // Add elements (limited to prevent context overflow)
-    const maxElements = 50;
-    elements.slice(0, maxElements).forEach((el) => {
-      if ('text' in el || 'content' in el) {
-        const text = 'text' in el ? el.text : 'content' in el ? el.content : '';
-        prompt += `[${el.index}] ${el.tag}: ${text?.slice(0, 80)}\n`;
-      }
+    elements.forEach((el) => {
+      section += `${describeItem(el)}\n`;
     });
     
-    if (elements.length > maxElements) {
-      prompt += `... and ${elements.length - maxElements} more elements\n`;
+    if (dropped > 0) {
+      section += `... ${dropped} elements less relevant to this subtask not shown\n`;
     }
     
-    // Add previous steps
-    if (previousSteps.length > 0) {
-      prompt += `\n## Previous Actions (${previousSteps.length})\n`;
-      previousSteps.slice(-3).forEach(step => {
+    return section;
+  }
+  
+  /**
+   * Follow-up message with the page after a step: only what changed, unless the
+   * page was navigated or the changes take longer to describe than the page itself
+   */
+  private buildPageUpdate(update: PageUpdate, previousUrl: string): string {
+    return this.describeChanges(update, previousUrl) ?? `## Updated Page\n${this.buildPageSection(update.dom)}`;
+  }
+  
+  /**
+   * What changed on the page since the last prompt; null when the full page
+   * should be sent instead (see buildPageUpdate)
+   */
+  private describeChanges({ dom, delta }: PageUpdate, previousUrl: string): string | null {
+    if (!delta || delta.url !== previousUrl) return null;
+    
+    const lines = [
+      ...delta.added.map(el => `+ ${describeItem(el)}`),
+      ...delta.changed.map(el => `~ ${describeItem(el)}`),
+      ...(delta.removed.length > 0 ? [`- removed: ${delta.removed.join(', ')}`] : []),
+    ];
+    const changes = `## Page Changes
+Same page as before (${dom.url}); elements not listed are unchanged and keep their index.
+${lines.length > 0 ? lines.join('\n') : 'No elements changed.'}
+`;
+    return changes.length < `## Updated Page\n${this.buildPageSection(dom)}`.length ? changes : null;
+  }
+  
+  /**
+   * Next prompt of a JSON-mode conversation: how the last decision went and what changed on the page
+   */
+  private buildFollowUp(
+    changes: string,
+    newSteps: readonly ActionResult[],
+    newAnswers: readonly UserAnswer[]
+  ): string {
+    let prompt = '';
+    if (newSteps.length > 0) {
+      prompt += `## Action Result\n`;
+      newSteps.forEach(step => {
         prompt += `- ${step.action}: ${step.success ? 'Success' : 'Failed'} - ${step.verbalFeedback}\n`;
       });
     }
-    
-    prompt += `\nChoose the next action. If subtask is complete, return { "action": "done" }`;
-    
+    if (newAnswers.length > 0) {
+      prompt += `## User Answers\n`;
+      newAnswers.forEach(({ question, answer }) => {
+        prompt += `Q: ${question}\nA: ${answer}\n`;
+      });
+    }
+    prompt += `${changes}
+Choose the next action. If subtask is complete, return { "action": "done" }`;
     return prompt;
   }
   
@@ -323,7 +882,95 @@ Title: ${dom.title}
     };
   }
   
+  private cancelledResult(
+    subtaskId: string,
+    steps: ActionResult[],
+    startTime: number,
+    retryCount: number
+  ): SubTaskResult {
+    return this.createResult(subtaskId, false, steps, startTime, retryCount, {
+      code: 'CANCELLED' as SubTaskErrorCode,
+      message: 'Subtask cancelled',
+      step: steps.length,
+    });
+  }
+  
+  private userTimeoutResult(
+    subtaskId: string,
+    error: UserInputTimeoutError,
+    steps: ActionResult[],
+    startTime: number,
+    retryCount: number
+  ): SubTaskResult {
+    return this.createResult(subtaskId, false, steps, startTime, retryCount, {
+      code: 'USER_INPUT_TIMEOUT' as SubTaskErrorCode,
+      message: error.message,
+      step: steps.length,
+    });
+  }
+  
   getTokensUsed(): number {
     return this.totalTokens;
   }
 }
+
+/**
+ * Check whether a skill returned an ActionResult from the ActionExecutor
+ */
+function isActionResult(value: unknown): value is ActionResult {
+  return value !== null &&
+    typeof value === 'object' &&
+    typeof (value as ActionResult).success === 'boolean' &&
+    typeof (value as ActionResult).action === 'string' &&
+    typeof (value as ActionResult).verbalFeedback === 'string';
+}
+
+/**
+ * Facts the model recorded, as page observations
+ */
+function toPageObservations(facts: z.infer<typeof FactSchema>[] | null | undefined, url: string): Observation[] {
+  return (facts ?? []).map(fact => ({
+    kind: 'page',
+    text: fact.text,
+    url,
+    ...(fact.index != null ? { elementIndex: fact.index } : {}),
+  }));
+}
+
+/**
+ * Attach observed page changes to an action result. The feedback describes the
+ * changes, but keeps the approver's decision when the action needed approval.
+ */
+function withChanges(result: ActionResult, changes: ChangeReport): ActionResult {
+  if (result.approval?.decision.outcome === 'deny') {
+    return result;
+  }
+  const verbalFeedback = result.approval && changes.verbalFeedback
+    ? `${result.verbalFeedback}; ${changes.verbalFeedback}`
+    : changes.verbalFeedback || result.verbalFeedback;
+  return { ...result, mutations: changes.mutations, verbalFeedback };
+}
+
+/**
+ * Add a step's observations to the trace, and the step itself if it was denied
+ */
+function recordStep(trace: SubtaskTrace, result: ActionResult, url: string): void {
+  trace.observations.push(...toActionObservations(result, url));
+  if (result.approval?.decision.outcome === 'deny') {
+    trace.denials.push(result.approval);
+  }
+}
+
+/**
+ * What a successful action reported, tied to the element it acted on
+ */
+function toActionObservations(result: ActionResult, url: string): Observation[] {
+  if (!result.success || !result.verbalFeedback) return [];
+  const index = (result.params as { index?: unknown } | undefined)?.index;
+  return [{
+    kind: 'action',
+    text: result.verbalFeedback,
+    url,
+    ...(typeof index === 'number' ? { elementIndex: index } : {}),
+  }];
+}
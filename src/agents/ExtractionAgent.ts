@@ -0,0 +1,238 @@
+/**
+ * @fileoverview ExtractionAgent - Reads structured data from the page into a target schema
+ */
+
+import type { z } from 'zod';
+import type {
+  DistilledDOM,
+  ExecuteOptions,
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+} from '../types';
+import { DOMDistillationMode as Mode } from '../types';
+import type { LLMProvider } from '../infrastructure/LLMProvider';
+import type { BrowserAdapter } from '../infrastructure/BrowserAdapter';
+import { completeStructured } from '../infrastructure/StructuredOutput';
+import type { DOMDistiller } from '../services/DOMDistiller';
+import type { PIIRedactor } from '../services/PIIRedactor';
+import { throwIfAborted } from '../utils/abort';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExtractionConfig {
+  /** Times to scroll down for content below the viewport (default: 5) */
+  maxScrolls?: number;
+  /** Re-prompts when the data does not match the schema (default: 2) */
+  maxRetries?: number;
+  customSystemPrompt?: string;
+  /** Receives incremental output when set (the LLM is called in streaming mode) */
+  onStreamEvent?: (event: LLMStreamEvent) => void;
+  /** Receives every LLM response, e.g. for per-call usage tracking */
+  onResponse?: (response: LLMResponse) => void;
+  /** Restores PII tokens from the redacted page in the extracted data */
+  pii?: PIIRedactor;
+}
+
+export interface ExtractOptions extends ExecuteOptions {
+  /** Data gathered earlier in the task, read together with the page */
+  context?: string;
+  /** Overrides the configured maxScrolls */
+  maxScrolls?: number;
+}
+
+export interface ExtractionResult<T> {
+  readonly data: T;
+  /** Scroll positions read */
+  readonly pages: number;
+  readonly tokensUsed: number;
+}
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+const EXTRACTION_SYSTEM_PROMPT = `You extract structured data from web page content.
+
+Use only values that appear in the page content or in the data gathered earlier; never invent data.
+Copy text exactly. Convert values only where the schema asks for another type (e.g. "$1,299.00" to 1299 for a number).
+Leave out optional fields whose values are not on the page.
+
+Return JSON only, matching the requested schema.`;
+
+/** Distinct content lines sent to the model */
+const MAX_CONTENT_LINES = 400;
+
+/** Largest single scroll when reading further down the page */
+const SCROLL_STEP_PX = 800;
+
+/** Time for lazy-loaded content to render after scrolling */
+const SCROLL_SETTLE_MS = 300;
+
+// ============================================================================
+// EXTRACTION AGENT
+// ============================================================================
+
+export class ExtractionAgent {
+  private llm: LLMProvider;
+  private distiller: DOMDistiller;
+  private browser: BrowserAdapter;
+  private config: Required<Omit<ExtractionConfig, 'onStreamEvent' | 'onResponse' | 'pii'>>;
+  private onStreamEvent: ((event: LLMStreamEvent) => void) | null;
+  private onResponse: ((response: LLMResponse) => void) | null;
+  private pii: PIIRedactor | null;
+  private totalTokens = 0;
+
+  constructor(
+    llmProvider: LLMProvider,
+    distiller: DOMDistiller,
+    browser: BrowserAdapter,
+    config: ExtractionConfig = {}
+  ) {
+    this.llm = llmProvider;
+    this.distiller = distiller;
+    this.browser = browser;
+    this.onStreamEvent = config.onStreamEvent ?? null;
+    this.onResponse = config.onResponse ?? null;
+    this.pii = config.pii ?? null;
+    this.config = {
+      maxScrolls: config.maxScrolls ?? 5,
+      maxRetries: config.maxRetries ?? 2,
+      customSystemPrompt: config.customSystemPrompt ?? EXTRACTION_SYSTEM_PROMPT,
+    };
+  }
+
+  /**
+   * Read the page (scrolling while new content appears below the viewport) and
+   * return data matching `schema`
+   *
+   * @throws StructuredOutputError when the model cannot produce valid data
+   */
+  async extract<T extends z.ZodTypeAny>(
+    instruction: string,
+    schema: T,
+    options: ExtractOptions = {}
+  ): Promise<ExtractionResult<z.infer<T>>> {
+    const { signal } = options;
+    const { page, lines, pages } = await this.readPage(options.maxScrolls ?? this.config.maxScrolls, signal);
+
+    const sections = [
+      `Extract: ${instruction}`,
+      `Page: ${page.url} - "${page.title}"`,
+      ...(options.context ? [`Data gathered earlier:\n${options.context}`] : []),
+      `Page content:\n${lines.length > 0 ? lines.join('\n') : '(empty)'}`,
+    ];
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.config.customSystemPrompt },
+      { role: 'user', content: sections.join('\n\n') },
+    ];
+
+    const { data, usage } = await completeStructured(
+      // Tokens are restored before validation, so the schema checks the real values
+      { complete: async (request) => this.restoreTokens(await this.complete(request)) },
+      { messages, ...(signal ? { signal } : {}) },
+      schema,
+      { name: 'extracted_data', maxRetries: this.config.maxRetries }
+    );
+    return { data, pages, tokensUsed: usage.totalTokens };
+  }
+
+  /**
+   * Read the page from the top, then put the viewport back where the user left it
+   */
+  private async readPage(
+    maxScrolls: number,
+    signal?: AbortSignal
+  ): Promise<{ page: DistilledDOM; lines: string[]; pages: number }> {
+    const start = this.distiller.getScrollOffset();
+    try {
+      if (start > 0) await this.scrollBy(-start, signal);
+      return await this.readFromTop(maxScrolls, signal);
+    } finally {
+      const offset = start - this.distiller.getScrollOffset();
+      if (offset !== 0) await this.browser.scroll(offset > 0 ? 'down' : 'up', Math.abs(offset));
+    }
+  }
+
+  /**
+   * Collect distinct text and element lines, scrolling down until the page ends,
+   * a scroll reveals nothing new or the scroll limit is reached
+   */
+  private async readFromTop(
+    maxScrolls: number,
+    signal?: AbortSignal
+  ): Promise<{ page: DistilledDOM; lines: string[]; pages: number }> {
+    const seen = new Set<string>();
+    const lines: string[] = [];
+    let page: DistilledDOM;
+    let pages = 0;
+
+    for (;;) {
+      throwIfAborted(signal);
+      const before = lines.length;
+      page = await this.distiller.distill(Mode.TEXT_ONLY);
+      const elements = await this.distiller.distill(Mode.ALL_FIELDS);
+      for (const line of [...renderLines(page), ...renderLines(elements)]) {
+        if (lines.length >= MAX_CONTENT_LINES || seen.has(line)) continue;
+        seen.add(line);
+        lines.push(line);
+      }
+      pages++;
+
+      const remaining = this.distiller.getScrollRemaining();
+      const revealedNothing = pages > 1 && lines.length === before;
+      if (pages > maxScrolls || remaining <= 0 || revealedNothing || lines.length >= MAX_CONTENT_LINES) break;
+
+      await this.scrollBy(Math.min(remaining, SCROLL_STEP_PX), signal);
+    }
+
+    return { page, lines, pages };
+  }
+
+  /** Scroll vertically (negative is up) and let lazy-loaded content render */
+  private async scrollBy(pixels: number, signal?: AbortSignal): Promise<void> {
+    await this.browser.scroll(pixels < 0 ? 'up' : 'down', Math.abs(pixels));
+    await this.browser.wait(SCROLL_SETTLE_MS, signal ? { signal } : {});
+  }
+
+  private restoreTokens(response: LLMResponse): LLMResponse {
+    return this.pii ? { ...response, content: this.pii.restoreJSON(response.content) } : response;
+  }
+
+  private async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = this.onStreamEvent
+      ? await this.llm.completeStreaming(request, this.onStreamEvent)
+      : await this.llm.complete(request);
+    this.totalTokens += response.usage.totalTokens;
+    this.onResponse?.(response);
+    return response;
+  }
+
+  /** Tokens spent across every call, including attempts that failed validation */
+  getTokensUsed(): number {
+    return this.totalTokens;
+  }
+}
+
+/**
+ * One line per text block or element, without indices so lines compare equal across scrolls
+ */
+function renderLines(page: DistilledDOM): string[] {
+  const items = 'content' in page ? page.content : page.elements;
+  return items.map(item => {
+    if (item.type === 'text') {
+      return `${item.tag}: ${item.content}`;
+    }
+    if (item.type === 'node') {
+      const value = item.value ? ` = "${item.value}"` : '';
+      return `${'  '.repeat(item.depth)}${item.role}: ${item.name}${value}`;
+    }
+    const name = ('label' in item && item.label) || ('text' in item && item.text) || item.accessibleName || '';
+    const href = 'href' in item && item.href ? ` (${item.href})` : '';
+    const value = 'value' in item && item.value ? ` = "${item.value}"` : '';
+    return `${item.type}: ${name}${href}${value}`;
+  });
+}
@@ -2,13 +2,26 @@
  * @fileoverview PlannerAgent - High-level task planning and decomposition
  */
 
+import { z } from 'zod';
 import type {
+  DistilledDOM,
+  ExecuteOptions,
+  Fact,
+  RecoveryStrategyType,
   SubTask,
+  SubTaskControl,
   SubTaskResult,
+  TaskAnswer,
   TaskPlan,
   LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+  VerificationResult,
 } from '../types';
 import type { LLMProvider } from '../infrastructure/LLMProvider';
+import type { ChangeReport } from '../services/ChangeObserver';
+import { completeStructured, type Completer } from '../infrastructure/StructuredOutput';
 
 // ============================================================================
 // TYPES
@@ -17,24 +30,48 @@ import type { LLMProvider } from '../infrastructure/LLMProvider';
 export interface PlannerConfig {
   maxSubtasks?: number;
   customSystemPrompt?: string;
+  /** Provider for verifyCompletion (defaults to the planning provider) */
+  verifier?: LLMProvider;
+  /** Receives incremental output when set (the LLM is called in streaming mode) */
+  onStreamEvent?: (event: LLMStreamEvent, role: PlannerRole) => void;
+  /** Receives every LLM response, e.g. for per-call usage tracking */
+  onResponse?: (response: LLMResponse, role: PlannerRole) => void;
 }
 
+/** LLM roles played by the planner */
+export type PlannerRole = 'planner' | 'verifier';
+
 export interface PageState {
   url: string;
   title: string;
   summary?: string;
+  /** Placeholders of the secrets the task may use */
+  secrets?: readonly string[];
+}
+
+export type { VerificationResult };
+
+/**
+ * What the verifier sees besides the subtask itself
+ */
+export interface VerificationEvidence extends PageState {
+  /** Distilled page after the subtask ran */
+  page?: DistilledDOM;
+  /** Changes observed while the subtask ran */
+  changes?: ChangeReport;
 }
 
-export interface VerificationResult {
-  completed: boolean;
-  confidence: number;
+/**
+ * Whether a while loop's condition holds
+ */
+export interface ConditionResult {
+  holds: boolean;
   reason: string;
-  suggestion?: string;
 }
 
 export interface RecoveryPlan {
   recoverable: boolean;
-  strategy: 'retry' | 'alternative' | 'skip' | 'abort';
+  strategy: RecoveryStrategyType;
   alternativeSubtasks?: SubTask[];
   retryModifications?: Partial<SubTask>;
   reason: string;
@@ -54,62 +91,205 @@ const PLANNER_SYSTEM_PROMPT = `You are a task planning agent for web automation.
 - value: Value to input (optional)
 - verification: How to verify success
 - estimatedSteps: Expected browser actions (1-5)
+- dependencies: Ids of subtasks that must succeed first (optional)
+- priority: "high" | "medium" | "low" - order among subtasks that are ready (optional)
+- control: Control flow (optional); the subtask's "children" run in its place:
+  - { "type": "group" } - run the children as one unit
+  - { "type": "forEach", "items": "which list to read from the page", "as": "item", "limit": 5 } - run the children once per item
+  - { "type": "while", "condition": "what must be true on the page", "maxIterations": 5 } - repeat the children while the condition holds
+- children: Nested subtasks of a control subtask. Loop variables can be used as {{item}} in their fields.
 
 ## Output Format (JSON only):
 {
   "subtasks": [
-    { "id": "1", "description": "...", "action": "...", "target": "...", "verification": "...", "estimatedSteps": 1 }
+    { "id": "1", "description": "...", "action": "...", "target": "...", "verification": "...", "estimatedSteps": 1 },
+    {
+      "id": "2", "description": "Open each result and copy its price", "action": "extract", "verification": "...",
+      "control": { "type": "forEach", "items": "Titles of the first 5 search results", "as": "result", "limit": 5 },
+      "children": [
+        { "id": "2.1", "description": "Open {{result}}", "action": "click", "target": "{{result}}", "verification": "..." }
+      ]
+    }
   ]
 }`;
 
+const VERIFIER_SYSTEM_PROMPT = `You verify whether a browser automation subtask achieved its goal.
+
+Judge only from the evidence: the success criterion, the changes observed while the subtask ran and the current page.
+Do not trust the agent's own report. If the evidence is missing or ambiguous, lower your confidence.
+
+## Output Format (JSON only):
+{ "completed": bool, "confidence": 0-1, "reason": "...", "suggestion": "what to try if not completed" }`;
+
+/** Most recent actions shown to the verifier */
+const MAX_VERIFIED_STEPS = 5;
+
+/** Page elements shown to the verifier */
+const MAX_VERIFIED_ELEMENTS = 40;
+
+const LIST_SYSTEM_PROMPT = `You read a list of items from a web page for an automation loop.
+
+Return the items in page order, each as short text that identifies it on the page (e.g. a link title).
+Return an empty list if the page does not contain the requested items.
+
+## Output Format (JSON only):
+{ "items": ["...", "..."] }`;
+
+const CONDITION_SYSTEM_PROMPT = `You decide whether a condition holds on the current web page.
+
+Judge only from the page shown. If the evidence is missing or ambiguous, the condition does not hold.
+
+## Output Format (JSON only):
+{ "holds": bool, "reason": "..." }`;
+
+const ANSWER_SYSTEM_PROMPT = `You answer a web task using only the facts gathered while browsing.
+
+Cite the ids of the facts the answer relies on. If the facts do not answer the task, say what is missing and give a low confidence.
+
+## Output Format (JSON only):
+{ "answer": "...", "citations": ["f1", "f3"], "confidence": 0-1 }`;
+
+/** Page elements shown when reading a list */
+const MAX_LISTED_ELEMENTS = 100;
+
+const RECOVERY_SYSTEM_PROMPT = `Suggest recovery for a failed subtask.
+
+## Strategies:
+- retry: Run the subtask again; put changed fields (e.g. target, value) in "retryModifications"
+- alternative: Replace it with different subtasks in "alternativeSubtasks"
+- skip: The subtask is not essential; continue without it
+- abort: The task cannot be completed
+- replan: The page is in an unexpected state; plan the remaining work from scratch
+
+## Output Format (JSON only):
+{ "recoverable": bool, "strategy": "retry"|"alternative"|"skip"|"abort"|"replan", "reason": "...", "retryModifications": {...}, "alternativeSubtasks": [...] }`;
+
+// ============================================================================
+// RESPONSE SCHEMAS
+// ============================================================================
+
+/** Deepest nesting of control subtasks accepted from the planner */
+const MAX_PLAN_DEPTH = 3;
+
+const ControlSchema = z.object({
+  type: z.enum(['group', 'forEach', 'while']),
+  items: z.string().nullish(),
+  as: z.string().nullish(),
+  limit: z.number().int().min(1).nullish(),
+  condition: z.string().nullish(),
+  maxIterations: z.number().int().min(1).nullish(),
+});
+
+const LeafSubtaskSchema = z.object({
+  id: z.union([z.string(), z.number()]).nullish(),
+  description: z.string().min(1),
+  action: z.string().min(1),
+  target: z.string().nullish(),
+  value: z.string().nullish(),
+  verification: z.string().nullish(),
+  dependencies: z.array(z.union([z.string(), z.number()])).nullish(),
+  priority: z.enum(['high', 'medium', 'low']).nullish(),
+  estimatedSteps: z.number().nullish(),
+  control: ControlSchema.nullish(),
+});
+
+type PlannedSubtask = z.infer<typeof LeafSubtaskSchema> & { children?: PlannedSubtask[] | null | undefined };
+
+/**
+ * Subtask schema nested `depth` levels deep (JSON Schema cannot express the recursion lazily)
+ */
+function subtaskSchema(depth: number): z.ZodType<PlannedSubtask> {
+  if (depth <= 1) return LeafSubtaskSchema;
+  return LeafSubtaskSchema.extend({ children: z.array(subtaskSchema(depth - 1)).nullish() });
+}
+
+const SubtaskSchema = subtaskSchema(MAX_PLAN_DEPTH);
+
+/**
+ * A bare array of subtasks (the original plan format) is still accepted. It is
+ * folded in before validation rather than with z.union, so the JSON schema sent
+ * to providers stays an object, as tool inputs must be.
+ */
+const PlanSchema = z.preprocess(
+  plan => (Array.isArray(plan) ? { subtasks: plan } : plan),
+  z.object({
+    subtasks: z.array(SubtaskSchema).min(1),
+  })
+);
+
+const VerificationSchema = z.object({
+  completed: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string(),
+  suggestion: z.string().nullish(),
+});
+
+const ListSchema = z.object({
+  items: z.array(z.string()),
+});
+
+const ConditionSchema = z.object({
+  holds: z.boolean(),
+  reason: z.string(),
+});
+
+const AnswerSchema = z.object({
+  answer: z.string().min(1),
+  citations: z.array(z.string()).nullish(),
+  confidence: z.number().min(0).max(1),
+});
+
+const RecoverySchema = z.object({
+  recoverable: z.boolean().nullish(),
+  strategy: z.enum(['retry', 'alternative', 'skip', 'abort', 'replan']),
+  reason: z.string(),
+  alternativeSubtasks: z.array(SubtaskSchema).nullish(),
+  retryModifications: z.record(z.unknown()).nullish(),
+});
+
 // ============================================================================
 // PLANNER AGENT
 // ============================================================================
 
 export class PlannerAgent {
   private llm: LLMProvider;
-  private config: Required<PlannerConfig>;
+  private verifier: LLMProvider;
+  private config: Required<Omit<PlannerConfig, 'verifier' | 'onStreamEvent' | 'onResponse'>>;
+  private onStreamEvent: ((event: LLMStreamEvent, role: PlannerRole) => void) | null;
+  private onResponse: ((response: LLMResponse, role: PlannerRole) => void) | null;
   private totalTokens = 0;
   
   constructor(llmProvider: LLMProvider, config: PlannerConfig = {}) {
     this.llm = llmProvider;
+    this.verifier = config.verifier ?? llmProvider;
+    this.onStreamEvent = config.onStreamEvent ?? null;
+    this.onResponse = config.onResponse ?? null;
     this.config = {
       maxSubtasks: config.maxSubtasks ?? 20,
       customSystemPrompt: config.customSystemPrompt ?? PLANNER_SYSTEM_PROMPT,
     };
   }
   
-  async planTask(userTask: string, pageState: PageState): Promise<TaskPlan> {
+  async planTask(userTask: string, pageState: PageState, options: ExecuteOptions = {}): Promise<TaskPlan> {
     const taskId = `task_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
     const messages: LLMMessage[] = [
       { role: 'system', content: this.config.customSystemPrompt },
       {
         role: 'user',
-        content: `Current page: ${pageState.url} - "${pageState.title}"\n\nTask: "${userTask}"\n\nReturn JSON only.`,
+        content: `Current page: ${pageState.url} - "${pageState.title}"\n\nTask: "${userTask}"\n\n` +
+          (pageState.secrets?.length
+            ? `Secrets (use these placeholders as subtask values; the real values are filled in when typing): ${pageState.secrets.join(', ')}\n\n`
+            : '') +
+          'Return JSON only.',
       },
     ];
 
-    const response = await this.llm.complete({ messages, responseFormat: 'json' });
-    this.totalTokens += response.usage.totalTokens;
-
-    let subtasks: SubTask[];
-    try {
-      const parsed = JSON.parse(response.content);
-      subtasks = this.validateSubtasks(parsed.subtasks || parsed);
-    } catch {
-      subtasks = [];
-    }
-
-    if (subtasks.length === 0) {
-      subtasks = [{
-        id: '1',
-        description: userTask,
-        action: 'navigate',
-        verification: 'Page loaded',
-        estimatedSteps: 1,
-      }];
-    }
+    // Output that stays invalid after re-prompting (including an empty plan) fails planning
+    const { data } = await completeStructured(
+      this.completer('planner'), withSignal({ messages }, options), PlanSchema, { name: 'task_plan' }
+    );
+    const subtasks = this.toSubtasks(data.subtasks);
 
     return {
       taskId,
@@ -120,107 +300,207 @@ export class PlannerAgent {
     };
   }
   
+  /**
+   * Ask the verifier whether a subtask met its `verification` criterion, judging
+   * from the page and the changes it caused rather than the navigator's own claim
+   */
   async verifyCompletion(
     subtask: SubTask,
     result: SubTaskResult,
-    pageState: PageState
+    evidence: VerificationEvidence,
+    options: ExecuteOptions = {}
   ): Promise<VerificationResult> {
+    const actions = result.steps.slice(-MAX_VERIFIED_STEPS)
+      .map(step => `- ${step.action}${step.success ? '' : ' (failed)'}: ${step.verbalFeedback}`);
+    const sections = [
+      `Subtask: ${subtask.description}`,
+      `Success criterion: ${subtask.verification || '(none given - judge from the description)'}`,
+      `Agent reported: success=${result.success}, steps=${result.steps.length}`,
+      ...(actions.length > 0 ? [`Actions:\n${actions.join('\n')}`] : []),
+      ...(evidence.changes ? [`Changes observed: ${evidence.changes.verbalFeedback}`] : []),
+      `Current page: ${evidence.url} - "${evidence.title}"`,
+      ...(evidence.page ? [`Page content:\n${describePage(evidence.page)}`] : []),
+    ];
+    const messages: LLMMessage[] = [
+      { role: 'system', content: VERIFIER_SYSTEM_PROMPT },
+      { role: 'user', content: sections.join('\n\n') },
+    ];
+
+    const { data } = await completeStructured(
+      this.completer('verifier'), withSignal({ messages }, options), VerificationSchema, { name: 'verification' }
+    );
+    return {
+      completed: data.completed,
+      confidence: data.confidence,
+      reason: data.reason,
+      ...(data.suggestion ? { suggestion: data.suggestion } : {}),
+    };
+  }
+  
+  /**
+   * Read the items a forEach loop iterates over from the page
+   */
+  async extractList(instruction: string, page: DistilledDOM, options: ExecuteOptions = {}): Promise<string[]> {
     const messages: LLMMessage[] = [
-      { role: 'system', content: 'Verify if subtask completed. Return JSON: { "completed": bool, "confidence": 0-1, "reason": "..." }' },
+      { role: 'system', content: LIST_SYSTEM_PROMPT },
       {
         role: 'user',
-        content: `Subtask: ${JSON.stringify(subtask)}\nResult: success=${result.success}, steps=${result.steps.length}\nPage: ${pageState.url}`,
+        content: `List: ${instruction}\n\nCurrent page: ${page.url} - "${page.title}"\n\n` +
+          `Page content:\n${describePage(page, MAX_LISTED_ELEMENTS)}`,
       },
     ];
 
-    const response = await this.llm.complete({ messages, responseFormat: 'json' });
-    this.totalTokens += response.usage.totalTokens;
+    const { data } = await completeStructured(
+      this.completer('planner'), withSignal({ messages }, options), ListSchema, { name: 'item_list' }
+    );
+    return data.items.map(item => item.trim()).filter(Boolean);
+  }
+  
+  /**
+   * Decide whether a while loop should run another iteration
+   */
+  async checkCondition(
+    condition: string,
+    evidence: VerificationEvidence,
+    options: ExecuteOptions = {}
+  ): Promise<ConditionResult> {
+    const sections = [
+      `Condition: ${condition}`,
+      `Current page: ${evidence.url} - "${evidence.title}"`,
+      ...(evidence.page ? [`Page content:\n${describePage(evidence.page)}`] : []),
+    ];
+    const messages: LLMMessage[] = [
+      { role: 'system', content: CONDITION_SYSTEM_PROMPT },
+      { role: 'user', content: sections.join('\n\n') },
+    ];
 
-    const fallback: VerificationResult = { completed: result.success, confidence: 0.5, reason: 'Parse failed' };
-    try {
-      const parsed = JSON.parse(response.content);
-      return {
-        completed: typeof parsed.completed === 'boolean' ? parsed.completed : fallback.completed,
-        confidence: typeof parsed.confidence === 'number' ? parsed.confidence : fallback.confidence,
-        reason: typeof parsed.reason === 'string' ? parsed.reason : fallback.reason,
-        suggestion: typeof parsed.suggestion === 'string' ? parsed.suggestion : undefined,
-      };
-    } catch {
-      return fallback;
-    }
+    const { data } = await completeStructured(
+      this.completer('verifier'), withSignal({ messages }, options), ConditionSchema, { name: 'condition' }
+    );
+    return data;
+  }
+  
+  /**
+   * Answer the task from the facts on the scratchpad, citing the facts used
+   */
+  async synthesizeAnswer(
+    userTask: string,
+    facts: readonly Fact[],
+    options: ExecuteOptions = {}
+  ): Promise<TaskAnswer> {
+    const lines = facts.map(f =>
+      `[${f.id}] ${f.text} (${f.url}${f.elementIndex !== undefined ? `, element [${f.elementIndex}]` : ''})`
+    );
+    const messages: LLMMessage[] = [
+      { role: 'system', content: ANSWER_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Task: "${userTask}"\n\nFacts:\n${lines.length > 0 ? lines.join('\n') : '(none)'}`,
+      },
+    ];
+
+    const { data } = await completeStructured(
+      this.completer('planner'), withSignal({ messages }, options), AnswerSchema, { name: 'task_answer' }
+    );
+    const cited = new Set((data.citations ?? []).map(id => id.replace(/[[\]\s]/g, '')));
+    return {
+      text: data.answer,
+      confidence: data.confidence,
+      citations: facts.filter(f => cited.has(f.id)),
+    };
   }
   
   async handleFailure(
     subtask: SubTask,
     error: Error,
-    pageState: PageState
+    pageState: PageState,
+    options: ExecuteOptions = {}
   ): Promise<RecoveryPlan> {
-    const validStrategies = ['retry', 'alternative', 'skip', 'abort'] as const;
     const messages: LLMMessage[] = [
-      { role: 'system', content: 'Suggest recovery for failed subtask. Return JSON: { "recoverable": bool, "strategy": "retry"|"alternative"|"skip"|"abort", "reason": "..." }' },
+      { role: 'system', content: RECOVERY_SYSTEM_PROMPT },
       {
         role: 'user',
         content: `Failed: ${JSON.stringify(subtask)}\nError: ${error.message}\nPage: ${pageState.url}`,
       },
     ];
 
-    const response = await this.llm.complete({ messages, responseFormat: 'json' });
-    this.totalTokens += response.usage.totalTokens;
-
-    const fallback: RecoveryPlan = { recoverable: false, strategy: 'abort', reason: 'Parse failed' };
-    try {
-      const parsed = JSON.parse(response.content);
-      const strategy = validStrategies.includes(parsed.strategy) ? parsed.strategy : 'abort';
-      return {
-        recoverable: typeof parsed.recoverable === 'boolean' ? parsed.recoverable : strategy !== 'abort',
-        strategy,
-        alternativeSubtasks: Array.isArray(parsed.alternativeSubtasks) ? parsed.alternativeSubtasks : undefined,
-        retryModifications: parsed.retryModifications && typeof parsed.retryModifications === 'object' ? parsed.retryModifications : undefined,
-        reason: typeof parsed.reason === 'string' ? parsed.reason : 'Unknown',
-      };
-    } catch {
-      return fallback;
-    }
+    const { data } = await completeStructured(
+      this.completer('planner'), withSignal({ messages }, options), RecoverySchema, { name: 'recovery_plan' }
+    );
+    const alternatives = data.alternativeSubtasks ? this.toSubtasks(data.alternativeSubtasks) : [];
+    return {
+      recoverable: data.recoverable ?? data.strategy !== 'abort',
+      strategy: data.strategy,
+      ...(alternatives.length > 0 ? { alternativeSubtasks: alternatives } : {}),
+      ...(data.retryModifications ? { retryModifications: data.retryModifications as Partial<SubTask> } : {}),
+      reason: data.reason,
+    };
   }
   
-  private validateSubtasks(subtasks: unknown): SubTask[] {
-    if (!Array.isArray(subtasks)) return [];
-
-    const isObj = (s: unknown): s is Record<string, unknown> =>
-      s != null && typeof s === 'object';
+  /**
+   * Plan the remaining work from the current page after a failure.
+   * Returned subtasks may depend on the ids of completed subtasks.
+   */
+  async replan(
+    userTask: string,
+    completed: readonly SubTask[],
+    failed: { subtask: SubTask; error: string },
+    pageState: PageState,
+    options: ExecuteOptions = {}
+  ): Promise<SubTask[]> {
+    const done = completed.length > 0
+      ? completed.map(s => `- [${s.id}] ${s.description}`).join('\n')
+      : '- (none)';
+    const messages: LLMMessage[] = [
+      { role: 'system', content: this.config.customSystemPrompt },
+      {
+        role: 'user',
+        content: `Current page: ${pageState.url} - "${pageState.title}"\n\nTask: "${userTask}"\n\n` +
+          `Completed subtasks:\n${done}\n\nFailed subtask: [${failed.subtask.id}] ${failed.subtask.description}\n` +
+          `Error: ${failed.error}\n\nPlan only the remaining subtasks, starting from the current page. Return JSON only.`,
+      },
+    ];
 
+    const { data } = await completeStructured(
+      this.completer('planner'), withSignal({ messages }, options), PlanSchema, { name: 'task_plan' }
+    );
+    return this.toSubtasks(data.subtasks);
+  }
+  
+  private async complete(request: LLMRequest, role: PlannerRole = 'planner'): Promise<LLMResponse> {
+    const llm = role === 'verifier' ? this.verifier : this.llm;
+    const onStreamEvent = this.onStreamEvent;
+    const response = onStreamEvent
+      ? await llm.completeStreaming(request, event => onStreamEvent(event, role))
+      : await llm.complete(request);
+    this.totalTokens += response.usage.totalTokens;
+    this.onResponse?.(response, role);
+    return response;
+  }
+  
+  private completer(role: PlannerRole): Completer {
+    return { complete: (request) => this.complete(request, role) };
+  }
+  
+  private toSubtasks(subtasks: PlannedSubtask[], parentId?: string): SubTask[] {
     return subtasks
       .slice(0, this.config.maxSubtasks)
-      .filter((s): s is Record<string, unknown> =>
-        isObj(s) &&
-        typeof s['description'] === 'string' && (s['description'] as string).length > 0 &&
-        typeof s['action'] === 'string' && (s['action'] as string).length > 0
-      )
       .map((s, i) => {
-        const id = typeof s['id'] === 'string' || typeof s['id'] === 'number' ? String(s['id']) : String(i + 1);
-        const rawDeps = s['dependencies'];
-        const deps = Array.isArray(rawDeps)
-          ? rawDeps.filter((d): d is string => typeof d === 'string')
-          : undefined;
-        const rawPriority = s['priority'];
-        const priority = typeof rawPriority === 'string' && ['high', 'medium', 'low'].includes(rawPriority)
-          ? (rawPriority as 'high' | 'medium' | 'low')
-          : undefined;
-        const rawSteps = s['estimatedSteps'];
-        const estimatedSteps = typeof rawSteps === 'number' && !Number.isNaN(rawSteps) ? rawSteps : 1;
-
-        const subtask: SubTask = {
+        const id = s.id != null ? String(s.id) : parentId ? `${parentId}.${i + 1}` : String(i + 1);
+        const deps = s.dependencies?.map(String);
+        const children = s.children ? this.toSubtasks(s.children, id) : [];
+        return {
           id,
-          description: s['description'] as string,
-          action: s['action'] as string,
-          verification: typeof s['verification'] === 'string' ? s['verification'] as string : '',
-          estimatedSteps,
-          ...(typeof s['target'] === 'string' ? { target: s['target'] as string } : {}),
-          ...(typeof s['value'] === 'string' ? { value: s['value'] as string } : {}),
+          description: s.description,
+          action: s.action,
+          verification: s.verification ?? '',
+          estimatedSteps: s.estimatedSteps ?? 1,
+          ...(s.target ? { target: s.target } : {}),
+          ...(s.value ? { value: s.value } : {}),
           ...(deps && deps.length > 0 ? { dependencies: deps } : {}),
-          ...(priority ? { priority } : {}),
+          ...(s.priority ? { priority: s.priority } : {}),
+          ...(children.length > 0 ? { control: toControl(s.control), children } : {}),
         };
-        return subtask;
       });
   }
   
@@ -228,3 +508,52 @@ export class PlannerAgent {
     return this.totalTokens;
   }
 }
+
+function withSignal(request: LLMRequest, { signal }: ExecuteOptions): LLMRequest {
+  return signal ? { ...request, signal } : request;
+}
+
+/**
+ * Planner control flow as a SubTaskControl; loops missing their list or condition run once, as a group
+ */
+function toControl(control: z.infer<typeof ControlSchema> | null | undefined): SubTaskControl {
+  if (control?.type === 'forEach' && control.items) {
+    return {
+      type: 'forEach',
+      items: control.items,
+      as: control.as || 'item',
+      ...(control.limit ? { limit: control.limit } : {}),
+    };
+  }
+  if (control?.type === 'while' && control.condition) {
+    return {
+      type: 'while',
+      condition: control.condition,
+      ...(control.maxIterations ? { maxIterations: control.maxIterations } : {}),
+    };
+  }
+  return { type: 'group' };
+}
+
+/**
+ * Compact, line-per-element rendering of a distilled page
+ */
+function describePage(page: DistilledDOM, limit = MAX_VERIFIED_ELEMENTS): string {
+  const items = 'content' in page ? page.content : page.elements;
+  const lines = items.slice(0, limit).map(item => {
+    if (item.type === 'text') {
+      return `[${item.index}] ${item.tag}: ${item.content.slice(0, 120)}`;
+    }
+    if (item.type === 'node') {
+      const value = item.value ? ` = "${item.value}"` : '';
+      return `${'  '.repeat(item.depth)}[${item.index}] ${item.role}: ${item.name.slice(0, 80)}${value}`;
+    }
+    const name = ('label' in item && item.label) || ('text' in item && item.text) || item.accessibleName || '';
+    const value = 'value' in item && item.value ? ` = "${item.value}"` : '';
+    return `[${item.index}] ${item.type}: ${name.slice(0, 80)}${value}`;
+  });
+  if (items.length > limit) {
+    lines.push(`... and ${items.length - limit} more`);
+  }
+  return lines.length > 0 ? lines.join('\n') : '(empty)';
+}
@@ -3,87 +3,168 @@
  */
 
 import { EventEmitter } from 'eventemitter3';
+import { z } from 'zod';
 import type {
   WebAgentConfig, TaskResult, TaskPlan, SubTask, SubTaskResult,
   ActionResult, WebAgentEvents, DOMDistillationMode, DistilledDOM,
-  ActionType, ActionParams, TaskError,
+  ActionType, ActionParams, TaskError, ChatOptions, LLMAgentRole, LLMStreamEvent,
+  LLMResponse, LLMSource, ExecuteOptions, RecoveryRecord, SkippedSubtask,
+  SubTaskErrorCode, VerificationResult, SubTaskControl, TaskVariables, SubTaskError, TaskOptions,
+  Observation, TaskAnswer, ApprovalDecision, ApprovalRequest,
 } from '../types';
 import { DOMDistillationMode as Mode } from '../types';
 import { PlannerAgent, type PageState } from '../agents/PlannerAgent';
 import { BrowserNavigationAgent } from '../agents/BrowserNavigationAgent';
-import { DOMDistiller } from '../services/DOMDistiller';
+import { ExtractionAgent } from '../agents/ExtractionAgent';
+import { DOMDistiller, DistillationError } from '../services/DOMDistiller';
 import { ActionExecutor } from '../services/ActionExecutor';
-import { ChangeObserver } from '../services/ChangeObserver';
-import { SkillRegistry, createDefaultRegistry, type PrimitiveSkillsConfig } from '../services/SkillRegistry';
+import { ChangeObserver, type ChangeReport } from '../services/ChangeObserver';
+import {
+  SkillRegistry, createDefaultRegistry, createAskUserSkill, type AskUserParams, type PrimitiveSkillsConfig,
+} from '../services/SkillRegistry';
 import { ErrorHandler, createErrorHandler } from '../services/ErrorHandler';
 import { StateManager, createStateManager } from '../services/StateManager';
 import { TokenTracker, createTokenTracker } from '../services/TokenTracker';
-import { createLLMProvider, type LLMProvider } from '../infrastructure/LLMProvider';
+import { SubtaskScheduler, PlanValidationError } from '../services/SubtaskScheduler';
+import { createFactScratchpad } from '../services/FactScratchpad';
+import { ApprovalGate, createApprovalGate } from '../services/ApprovalGate';
+import { QuestionBroker, createQuestionBroker } from '../services/QuestionBroker';
+import { SecretVault, createSecretVault } from '../services/SecretVault';
+import { PIIRedactor, createPIIRedactor } from '../services/PIIRedactor';
+import { createLLMProvider, LLMProvider } from '../infrastructure/LLMProvider';
+import { FallbackLLMProvider } from '../infrastructure/FallbackLLMProvider';
+import { ResilientLLMProvider } from '../infrastructure/ResilientLLMProvider';
+import { RedactingLLMProvider } from '../infrastructure/RedactingLLMProvider';
+import { StructuredOutputError } from '../infrastructure/StructuredOutput';
 import { DOMBrowserAdapter, type BrowserAdapter } from '../infrastructure/BrowserAdapter';
+import { abortableSleep, isAbortError, throwIfAborted } from '../utils/abort';
 
 const DEFAULT_CONFIG = {
   maxStepsPerSubtask: 10,
   maxSubtasksPerTask: 20,
   maxTotalSteps: 100,
+  maxRecoveries: 5,
+  maxLoopIterations: 10,
   actionTimeout: 5000,
+  userInputTimeout: 300_000,
   debug: false,
   screenshots: false,
   retry: { maxRetries: 3, backoffMs: 1000, backoffMultiplier: 2 },
+  verification: { enabled: true, minConfidence: 0.7 },
 } as const;
 
 type ConfigWithDefaults = WebAgentConfig & typeof DEFAULT_CONFIG;
 
+/** What `extract` subtasks return: whatever fields the page offers */
+const ExtractedDataSchema = z.record(z.unknown());
+
+/**
+ * What a subtask runs with: loop variables in scope and the task's remaining step budget
+ */
+interface ControlScope {
+  readonly variables: TaskVariables;
+  readonly signal: AbortSignal;
+  readonly stepsLeft: number;
+}
+
 export class WebAgent extends EventEmitter<WebAgentEvents> {
   private readonly config: ConfigWithDefaults;
   private llm: LLMProvider;
+  private llms: Record<LLMAgentRole, LLMProvider>;
   private browser: BrowserAdapter;
   private distiller: DOMDistiller;
   private executor: ActionExecutor;
   private observer: ChangeObserver;
+  /** Watches a whole subtask (the navigator's observer watches single actions) */
+  private subtaskObserver: ChangeObserver;
   private planner: PlannerAgent;
   private browserNav: BrowserNavigationAgent;
+  private extractor: ExtractionAgent;
   private skills: SkillRegistry;
   private errorHandler: ErrorHandler;
   private stateManager: StateManager;
   private tokenTracker: TokenTracker;
+  private approvalGate: ApprovalGate | null;
+  private questions: QuestionBroker;
+  private secrets: SecretVault;
+  private pii: PIIRedactor | null;
   private isRunning = false;
-  private shouldStop = false;
+  private abortController: AbortController | null = null;
   private currentTaskId: string | null = null;
+  /** Wrapped provider per source, shared by every role using it (one rate limiter and circuit each) */
+  private providers = new Map<LLMSource | string, LLMProvider>();
 
   constructor(config: WebAgentConfig) {
     super();
-    this.config = { ...DEFAULT_CONFIG, ...config, retry: { ...DEFAULT_CONFIG.retry, ...config.retry } } as ConfigWithDefaults;
-    this.llm = createLLMProvider(config.llm);
+    this.config = {
+      ...DEFAULT_CONFIG, ...config,
+      retry: { ...DEFAULT_CONFIG.retry, ...config.retry },
+      verification: { ...DEFAULT_CONFIG.verification, ...config.verification },
+    } as ConfigWithDefaults;
+    this.secrets = createSecretVault(config.secrets);
+    this.pii = config.piiRedaction ? createPIIRedactor(config.piiRedaction) : null;
+    this.llm = this.createProvider(config.llm);
+    this.llms = {
+      planner: this.createRoleProvider('planner'),
+      browserNav: this.createRoleProvider('browserNav'),
+      verifier: this.createRoleProvider('verifier'),
+      chat: this.createRoleProvider('chat'),
+      extractor: this.createRoleProvider('extractor'),
+    };
     this.browser = new DOMBrowserAdapter();
-    this.distiller = new DOMDistiller();
-    this.executor = new ActionExecutor(this.browser, this.distiller);
+    this.distiller = new DOMDistiller(undefined, this.pii ? { redactor: this.pii } : {});
+    this.approvalGate = config.approval
+      ? createApprovalGate(config.approval, {
+        ask: (request) => this.requestApproval(request),
+        taskId: () => this.currentTaskId || 'direct',
+        url: () => this.browser.getUrl(),
+      })
+      : null;
+    this.executor = this.createActionExecutor();
     this.observer = new ChangeObserver();
+    this.subtaskObserver = new ChangeObserver();
     this.errorHandler = createErrorHandler({ maxRetries: this.config.retry.maxRetries });
-    this.stateManager = createStateManager();
+    this.stateManager = createStateManager({ isSecret: (value) => this.secrets.contains(value) });
     this.tokenTracker = createTokenTracker();
-    this.skills = createDefaultRegistry({ distiller: this.distiller, executor: this.executor, browser: this.browser } as PrimitiveSkillsConfig);
-    this.planner = new PlannerAgent(this.llm, {
+    this.questions = createQuestionBroker({
+      timeoutMs: this.config.userInputTimeout,
+      onQuestion: (question) => this.emit('task:question', { taskId: question.taskId, question }),
+    });
+    this.skills = this.createSkillRegistry();
+    this.planner = new PlannerAgent(this.llms.planner, {
       maxSubtasks: this.config.maxSubtasksPerTask,
+      verifier: this.llms.verifier,
+      onResponse: (response, role) => this.trackResponse(role, response),
       ...(config.prompts?.planner ? { customSystemPrompt: config.prompts.planner } : {}),
+      ...(config.streaming ? { onStreamEvent: (event, role) => this.emitStreamEvent(role, event) } : {}),
     });
-    this.browserNav = new BrowserNavigationAgent(this.llm, this.distiller, this.executor, this.observer, {
-      maxStepsPerSubtask: this.config.maxStepsPerSubtask,
-      screenshotOnAction: this.config.screenshots,
-      ...(config.prompts?.browserNav ? { customSystemPrompt: config.prompts.browserNav } : {}),
-    });
+    this.browserNav = this.createBrowserNavAgent();
+    this.extractor = this.createExtractionAgent();
     this.debug('WebAgent initialized');
   }
 
-  async execute(task: string): Promise<TaskResult> {
+  async execute<TSchema extends z.ZodTypeAny = z.ZodType<unknown>>(
+    task: string,
+    options: TaskOptions<TSchema> = {}
+  ): Promise<TaskResult<z.infer<TSchema>>> {
     if (this.isRunning) throw new Error('Agent is already running');
     this.isRunning = true;
-    this.shouldStop = false;
+    // stop() and the caller's signal both cancel the run
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    this.abortController = controller;
+    const { signal } = controller;
     const taskId = this.generateTaskId();
     this.currentTaskId = taskId;
     const startTime = Date.now();
     let totalTokens = 0, totalSteps = 0;
     let plan: TaskPlan | null = null;
     const subtaskResults: SubTaskResult[] = [];
+    let scheduler: SubtaskScheduler | null = null;
+    const recoveries: RecoveryRecord[] = [];
+    const facts = createFactScratchpad();
 
     try {
       this.emit('task:start', { taskId, task });
@@ -93,74 +174,315 @@ export class WebAgent extends EventEmitter<WebAgentEvents> {
 
       // Planning phase
       this.debug(`[${taskId}] Planning...`);
-      plan = await this.planner.planTask(task, pageState);
-      const plannerTokens = this.planner.getTokensUsed();
-      this.tokenTracker.track('planner', this.config.llm.model, plannerTokens, 0);
-      totalTokens += plannerTokens;
+      const planningTokensBefore = this.planner.getTokensUsed();
+      try {
+        plan = await this.planner.planTask(task, pageState, { signal });
+      } finally {
+        totalTokens += this.planner.getTokensUsed() - planningTokensBefore;
+      }
       this.emit('task:plan', { taskId, plan });
       this.debug(`[${taskId}] Created ${plan.subtasks.length} subtasks`);
 
-      // Execution phase
-      for (let i = 0; i < plan.subtasks.length; i++) {
-        const subtask = plan.subtasks[i]!;
-        if (this.shouldStop) { this.debug(`[${taskId}] Stopped by user`); break; }
+      // Execution phase: dependencies first, then priority, then plan order
+      scheduler = new SubtaskScheduler(plan.subtasks);
+      for (let subtask = scheduler.next(); subtask; subtask = scheduler.next()) {
+        const n = subtaskResults.length + 1;
+        throwIfAborted(signal);
         if (totalSteps >= this.config.maxTotalSteps) { this.debug(`[${taskId}] Max steps exceeded`); break; }
 
         this.emit('subtask:start', { taskId, subtask });
-        this.debug(`[${taskId}] Subtask ${i+1}/${plan.subtasks.length}: ${subtask.description}`);
+        this.debug(`[${taskId}] Subtask ${n}/${plan.subtasks.length}: ${subtask.description}`);
         
-        const result = await this.executeSubtaskWithRetry(subtask);
+        const result = await this.runSubtask(subtask, { variables: {}, signal, stepsLeft: this.config.maxTotalSteps - totalSteps });
         subtaskResults.push(result);
+        facts.record(result);
         totalSteps += result.steps.length;
         totalTokens += result.tokensUsed;
-        this.tokenTracker.track('browserNav', this.config.llm.model, result.tokensUsed, 0);
+        throwIfAborted(signal);
 
         if (result.success) {
+          scheduler.complete(subtask.id);
           this.emit('subtask:complete', { taskId, result });
-          this.stateManager.saveCheckpoint(`subtask_${i+1}`);
+          this.stateManager.saveCheckpoint(`subtask_${n}`);
         } else {
           if (result.error) {
             this.emit('subtask:error', { taskId, subtask, error: result.error });
           }
-          const shouldContinue = await this.attemptRecovery(subtask, result, pageState);
-          if (!shouldContinue) break;
+          const tokensBefore = this.planner.getTokensUsed();
+          const recovery = recoveries.length < this.config.maxRecoveries
+            ? await this.attemptRecovery(task, subtask, result, scheduler, signal)
+            : null;
+          totalTokens += this.planner.getTokensUsed() - tokensBefore;
+          if (!recovery) {
+            this.emitSkipped(taskId, scheduler.fail(subtask.id));
+            break;
+          }
+          recoveries.push(recovery);
+          if (recovery.strategy === 'abort') break;
+        }
+      }
+
+      throwIfAborted(signal);
+      const skippedSubtasks = scheduler.getSkipped();
+      let success = subtaskResults.length > 0 && scheduler.allSucceeded();
+
+      // Output phase: read the requested data from the page and what extract subtasks gathered
+      let data: z.infer<TSchema> | undefined;
+      let extractionError: TaskError | null = null;
+      if (success && options.outputSchema) {
+        const tokensBefore = this.extractor.getTokensUsed();
+        try {
+          const context = collectExtracted(subtaskResults).join('\n');
+          const extraction = await this.extractor.extract(task, options.outputSchema, { signal, ...(context ? { context } : {}) });
+          data = extraction.data;
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          success = false;
+          extractionError = {
+            code: 'EXTRACTION_FAILED',
+            message: error instanceof Error ? error.message : 'Unknown',
+            recoveryAttempts: recoveries.length,
+          };
+        } finally {
+          totalTokens += this.extractor.getTokensUsed() - tokensBefore;
         }
       }
 
-      const success = subtaskResults.length > 0 && subtaskResults.every(r => r.success);
-      const taskResult: TaskResult = {
-        taskId, success, plan: plan!, subtaskResults,
-        summary: this.generateSummary(task, success, subtaskResults),
+      // Answer phase: synthesize an answer with citations from the scratchpad
+      let answer: TaskAnswer | null = null;
+      if ((options.answer ?? facts.hasFindings()) && facts.getAll().length > 0) {
+        const tokensBefore = this.planner.getTokensUsed();
+        answer = await this.synthesizeAnswer(task, facts.getAll(), signal);
+        totalTokens += this.planner.getTokensUsed() - tokensBefore;
+      }
+
+      const taskResult: TaskResult<z.infer<TSchema>> = {
+        taskId, success, plan: plan!, subtaskResults, skippedSubtasks, recoveries, facts: facts.getAll(),
+        summary: extractionError
+          ? `Failed: ${extractionError.message}`
+          : this.generateSummary(task, success, subtaskResults, skippedSubtasks.length),
         totalSteps, totalTokens, totalDuration: Date.now() - startTime,
+        ...(data !== undefined ? { data } : {}),
+        ...(answer ? { answer } : {}),
+        ...(extractionError ? { error: extractionError } : {}),
       };
       this.emit('task:complete', { taskId, result: taskResult });
-      return taskResult;
+      return this.toCallerResult(taskResult);
 
     } catch (error) {
-      const taskError: TaskError = { code: 'EXECUTION_ERROR', message: error instanceof Error ? error.message : 'Unknown', recoveryAttempts: 0 };
+      const cancelled = signal.aborted || isAbortError(error);
+      if (cancelled) this.debug(`[${taskId}] Cancelled`);
+      const taskError: TaskError = cancelled
+        ? { code: 'CANCELLED', message: 'Task cancelled', recoveryAttempts: recoveries.length }
+        : {
+          code: error instanceof PlanValidationError ? 'INVALID_PLAN'
+            : error instanceof StructuredOutputError ? 'LLM_ERROR'
+            : 'EXECUTION_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown',
+          recoveryAttempts: recoveries.length,
+        };
       this.emit('task:error', { taskId, error: taskError });
-      return {
+      return this.toCallerResult({
         taskId, success: false,
         plan: plan || { taskId, originalTask: task, subtasks: [], estimatedTotalSteps: 0, createdAt: startTime },
-        subtaskResults, summary: `Failed: ${taskError.message}`,
+        subtaskResults, skippedSubtasks: scheduler?.getSkipped() ?? [], recoveries, facts: facts.getAll(), summary: `Failed: ${taskError.message}`,
         totalSteps, totalTokens, totalDuration: Date.now() - startTime, error: taskError,
-      };
+      });
     } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      this.abortController = null;
       this.isRunning = false;
       this.currentTaskId = null;
       this.errorHandler.resetAll();
     }
   }
 
-  private async executeSubtaskWithRetry(subtask: SubTask): Promise<SubTaskResult> {
+  /**
+   * Run a subtask: plain subtasks go to the navigator, control subtasks run their children
+   */
+  private async runSubtask(subtask: SubTask, scope: ControlScope): Promise<SubTaskResult> {
+    const { control } = subtask;
+    if (!control) {
+      const bound = bindVariables(subtask, scope.variables);
+      return isExtraction(bound)
+        ? this.runExtraction(bound, scope.signal)
+        : this.executeSubtaskWithRetry(bound, scope.signal);
+    }
+
+    const startTime = Date.now();
+    try {
+      switch (control.type) {
+        case 'group':
+          return await this.runChildren(subtask.children ?? [], subtask.id, scope);
+        case 'forEach':
+          return await this.runForEach(subtask, control, scope, startTime);
+        case 'while':
+          return await this.runWhile(subtask, control, scope, startTime);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return combineResults(subtask.id, [], startTime, {
+        code: failureCode(error),
+        message: `${control.type} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
+  /**
+   * Run children in dependency order. The first failure fails the whole batch.
+   */
+  private async runChildren(children: readonly SubTask[], subtaskId: string, scope: ControlScope): Promise<SubTaskResult> {
+    const taskId = this.currentTaskId!;
+    const startTime = Date.now();
+    const scheduler = new SubtaskScheduler(children);
+    const results: SubTaskResult[] = [];
+
+    for (let child = scheduler.next(); child; child = scheduler.next()) {
+      throwIfAborted(scope.signal);
+      const stepsLeft = scope.stepsLeft - countSteps(results);
+      if (stepsLeft <= 0) return combineResults(subtaskId, results, startTime, stepLimitError(results));
+
+      this.emit('subtask:start', { taskId, subtask: bindVariables(child, scope.variables) });
+      const result = await this.runSubtask(child, { ...scope, stepsLeft });
+      results.push(result);
+      throwIfAborted(scope.signal);
+
+      if (!result.success) {
+        if (result.error) this.emit('subtask:error', { taskId, subtask: child, error: result.error });
+        this.emitSkipped(taskId, scheduler.fail(child.id));
+        break;
+      }
+      scheduler.complete(child.id);
+      this.emit('subtask:complete', { taskId, result });
+    }
+    return combineResults(subtaskId, results, startTime);
+  }
+
+  /**
+   * Read the list from the page and run the children once per item
+   */
+  private async runForEach(
+    subtask: SubTask,
+    control: Extract<SubTaskControl, { type: 'forEach' }>,
+    scope: ControlScope,
+    startTime: number
+  ): Promise<SubTaskResult> {
+    const page = await this.distiller.distill(this.browserNav.chooseDOMMode(subtask));
+    const tokensBefore = this.planner.getTokensUsed();
+    const items = await this.planner.extractList(interpolate(control.items, scope.variables), page, { signal: scope.signal });
+    const listTokens = this.planner.getTokensUsed() - tokensBefore;
+    const limit = Math.min(control.limit ?? Infinity, this.config.maxLoopIterations);
+    this.debug(`[${this.currentTaskId}] ${subtask.id}: ${items.length} items, running ${Math.min(items.length, limit)}`);
+
+    const iterations: SubTaskResult[] = [];
+    for (const [i, item] of items.slice(0, limit).entries()) {
+      const result = await this.runIteration(subtask, i + 1, { ...scope.variables, [control.as]: item }, scope, iterations);
+      iterations.push(result);
+      if (!result.success) break;
+    }
+    return combineResults(subtask.id, iterations, startTime, undefined, listTokens);
+  }
+
+  /**
+   * Run the children again for as long as the condition holds, up to the iteration limit
+   */
+  private async runWhile(
+    subtask: SubTask,
+    control: Extract<SubTaskControl, { type: 'while' }>,
+    scope: ControlScope,
+    startTime: number
+  ): Promise<SubTaskResult> {
+    const maxIterations = Math.min(control.maxIterations ?? Infinity, this.config.maxLoopIterations);
+    const condition = interpolate(control.condition, scope.variables);
+    const iterations: SubTaskResult[] = [];
+    let conditionTokens = 0;
+
+    for (let n = 1; n <= maxIterations; n++) {
+      const page = await this.distiller.distill(this.browserNav.chooseDOMMode(subtask));
+      const tokensBefore = this.planner.getTokensUsed();
+      const { holds, reason } = await this.planner.checkCondition(condition, { ...this.getPageState(), page }, { signal: scope.signal });
+      conditionTokens += this.planner.getTokensUsed() - tokensBefore;
+      this.debug(`[${this.currentTaskId}] ${subtask.id}: condition ${holds ? 'holds' : 'does not hold'} (${reason})`);
+      if (!holds) break;
+
+      const result = await this.runIteration(subtask, n, scope.variables, scope, iterations);
+      iterations.push(result);
+      if (!result.success) break;
+    }
+    return combineResults(subtask.id, iterations, startTime, undefined, conditionTokens);
+  }
+
+  private async runIteration(
+    subtask: SubTask,
+    iteration: number,
+    variables: TaskVariables,
+    scope: ControlScope,
+    previous: readonly SubTaskResult[]
+  ): Promise<SubTaskResult> {
+    const stepsLeft = scope.stepsLeft - countSteps(previous);
+    if (stepsLeft <= 0) {
+      return { ...combineResults(`${subtask.id}#${iteration}`, [], Date.now(), stepLimitError(previous)), iteration, variables };
+    }
+
+    this.emit('subtask:iteration', { taskId: this.currentTaskId!, subtask, iteration, variables });
+    const result = await this.runChildren(subtask.children ?? [], `${subtask.id}#${iteration}`, { ...scope, variables, stepsLeft });
+    return { ...result, iteration, variables };
+  }
+
+  /**
+   * Run an `extract` subtask: read the data it describes from the page instead of acting
+   */
+  private async runExtraction(subtask: SubTask, signal: AbortSignal): Promise<SubTaskResult> {
+    const startTime = Date.now();
+    const instruction = subtask.target ? `${subtask.description} (${subtask.target})` : subtask.description;
+    const tokensBefore = this.extractor.getTokensUsed();
+    try {
+      const { data, tokensUsed } = await this.extractor.extract(instruction, ExtractedDataSchema, { signal });
+      const url = this.browser.getUrl();
+      const observations = Object.entries(data).map(([field, value]): Observation => ({
+        kind: 'extraction',
+        text: `${field}: ${typeof value === 'string' ? value : JSON.stringify(value)}`,
+        url,
+      }));
+      return {
+        subtaskId: subtask.id, success: true, steps: [], startTime, endTime: Date.now(), tokensUsed, retryCount: 0, data,
+        ...(observations.length > 0 ? { observations } : {}),
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        // Attempts that failed validation still cost tokens
+        subtaskId: subtask.id, success: false, steps: [], startTime, endTime: Date.now(),
+        tokensUsed: this.extractor.getTokensUsed() - tokensBefore, retryCount: 0,
+        error: {
+          code: failureCode(error),
+          message: `Extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  private async executeSubtaskWithRetry(subtask: SubTask, signal: AbortSignal): Promise<SubTaskResult> {
     let lastResult: SubTaskResult | null = null;
+    // The navigator reports its running total; count what this subtask's attempts and verifications spent
+    let tokensUsed = 0;
     for (let attempt = 0; attempt <= this.config.retry.maxRetries; attempt++) {
       if (attempt > 0) {
         const delay = this.config.retry.backoffMs * Math.pow(this.config.retry.backoffMultiplier, attempt - 1);
-        await new Promise(r => setTimeout(r, delay));
+        await abortableSleep(delay, signal);
+      }
+      const tokensBefore = this.browserNav.getTokensUsed() + this.planner.getTokensUsed();
+      this.subtaskObserver.startObserving();
+      lastResult = await this.browserNav.executeSubTask(subtask, { signal });
+      const changes = this.subtaskObserver.stopObserving();
+      if (lastResult.success && this.config.verification.enabled) {
+        lastResult = await this.verifySubtask(subtask, lastResult, changes, signal);
       }
-      lastResult = await this.browserNav.executeSubTask(subtask);
-      if (lastResult.success) return lastResult;
+      tokensUsed += this.browserNav.getTokensUsed() + this.planner.getTokensUsed() - tokensBefore;
+      lastResult = { ...lastResult, tokensUsed };
+      if (lastResult.success || signal.aborted) return lastResult;
+      // Asking again would only wait out another timeout
+      if (lastResult.error?.code === 'USER_INPUT_TIMEOUT') break;
       if (lastResult.error) {
         const classified = this.errorHandler.classify(new Error(lastResult.error.message), subtask.id);
         if (!classified.retryable) break;
@@ -170,13 +492,129 @@ export class WebAgent extends EventEmitter<WebAgentEvents> {
     return lastResult!;
   }
 
-  private async attemptRecovery(subtask: SubTask, result: SubTaskResult, pageState: PageState): Promise<boolean> {
+  /**
+   * Have the verifier check a subtask the navigator reported as done. A verdict
+   * below the confidence threshold turns the result into a VERIFICATION_FAILED failure,
+   * a verifier error into an LLM_ERROR one.
+   */
+  private async verifySubtask(
+    subtask: SubTask,
+    result: SubTaskResult,
+    changes: ChangeReport,
+    signal: AbortSignal
+  ): Promise<SubTaskResult> {
+    const taskId = this.currentTaskId!;
+    let verification: VerificationResult;
     try {
-      const errorMsg = result.error?.message ?? 'Unknown subtask failure';
-      const recovery = await this.planner.handleFailure(subtask, new Error(errorMsg), pageState);
-      this.emit('error:recovery', { taskId: this.currentTaskId!, error: result.error, strategy: recovery.strategy });
-      return recovery.strategy !== 'abort';
-    } catch { return false; }
+      const page = await this.distiller.distill(this.browserNav.chooseDOMMode(subtask));
+      verification = await this.planner.verifyCompletion(subtask, result, { ...this.getPageState(), page, changes }, { signal });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      // A subtask that could not be verified has not passed verification (reported through subtask:error)
+      const message = error instanceof Error ? error.message : String(error);
+      this.debug(`[${taskId}] Verification of ${subtask.id} unavailable: ${message}`);
+      return {
+        ...result,
+        success: false,
+        error: {
+          code: 'LLM_ERROR' as SubTaskErrorCode,
+          message: `Verification unavailable: ${message}`,
+          step: result.steps.length,
+        },
+      };
+    }
+
+    this.emit('subtask:verified', { taskId, subtask, verification });
+    const { minConfidence } = this.config.verification;
+    if (verification.completed && verification.confidence >= minConfidence) {
+      return { ...result, verification };
+    }
+
+    this.debug(`[${taskId}] Verification of ${subtask.id} failed: ${verification.reason}`);
+    return {
+      ...result,
+      success: false,
+      verification,
+      error: {
+        code: 'VERIFICATION_FAILED' as SubTaskErrorCode,
+        message: `Verification failed (${verification.completed ? 'completed' : 'not completed'}, confidence ${verification.confidence.toFixed(2)}): ${verification.reason}` +
+          (verification.suggestion ? `. Suggestion: ${verification.suggestion}` : ''),
+        step: result.steps.length,
+      },
+    };
+  }
+
+  /**
+   * Answer the task from the gathered facts. A failed synthesis leaves the task without an answer.
+   */
+  private async synthesizeAnswer(task: string, facts: TaskResult['facts'], signal: AbortSignal): Promise<TaskAnswer | null> {
+    try {
+      const answer = await this.planner.synthesizeAnswer(task, facts, { signal });
+      this.debug(`[${this.currentTaskId}] Answer (confidence ${answer.confidence.toFixed(2)}): ${answer.text}`);
+      return answer;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      this.debug(`[${this.currentTaskId}] Answer synthesis failed: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the planner how to handle a failed subtask and apply its decision to the
+   * schedule. Returns null when no recovery could be planned.
+   */
+  private async attemptRecovery(
+    task: string,
+    subtask: SubTask,
+    result: SubTaskResult,
+    scheduler: SubtaskScheduler,
+    signal: AbortSignal
+  ): Promise<RecoveryRecord | null> {
+    const taskId = this.currentTaskId!;
+    const error = result.error?.message ?? 'Unknown subtask failure';
+    try {
+      const pageState = this.getPageState();
+      const recovery = await this.planner.handleFailure(subtask, new Error(error), pageState, { signal });
+      // "alternative" without alternatives has nothing to run instead
+      const strategy = recovery.strategy === 'alternative' && !recovery.alternativeSubtasks ? 'skip' : recovery.strategy;
+      this.emit('error:recovery', { taskId, error: result.error, strategy });
+      this.debug(`[${taskId}] Recovery for ${subtask.id}: ${strategy} (${recovery.reason})`);
+
+      let addedSubtasks: SubTask[] = [];
+      let removedSubtaskIds: string[] = [];
+      switch (strategy) {
+        case 'retry':
+          addedSubtasks = [scheduler.retry(subtask.id, recovery.retryModifications)];
+          break;
+        case 'alternative':
+          addedSubtasks = scheduler.replace(subtask.id, recovery.alternativeSubtasks ?? []);
+          break;
+        case 'replan': {
+          const remainder = await this.planner.replan(task, scheduler.getCompleted(), { subtask, error }, pageState, { signal });
+          ({ added: addedSubtasks, removed: removedSubtaskIds } = scheduler.replan(subtask.id, remainder));
+          break;
+        }
+        case 'skip':
+          this.emitSkipped(taskId, scheduler.skip(subtask.id, recovery.reason));
+          break;
+        case 'abort':
+          this.emitSkipped(taskId, scheduler.fail(subtask.id));
+          break;
+      }
+
+      return { subtaskId: subtask.id, strategy, reason: recovery.reason, error, addedSubtasks, removedSubtaskIds };
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      this.debug(`[${taskId}] Recovery for ${subtask.id} failed: ${err instanceof Error ? err.message : err}`);
+      return null;
+    }
+  }
+
+  private emitSkipped(taskId: string, skipped: readonly SkippedSubtask[]): void {
+    for (const s of skipped) {
+      this.debug(`[${taskId}] Skipping ${s.subtask.id}: ${s.reason}`);
+      this.emit('subtask:skipped', { taskId, skipped: s });
+    }
   }
 
   async act<T extends ActionType>(action: T, params: ActionParams[T]): Promise<ActionResult> {
@@ -195,51 +633,334 @@ export class WebAgent extends EventEmitter<WebAgentEvents> {
     }
   }
 
+  /**
+   * Read data matching `schema` from the current page
+   */
+  async extract<T extends z.ZodTypeAny>(instruction: string, schema: T, options: ExecuteOptions = {}): Promise<z.infer<T>> {
+    const { data } = await this.extractor.extract(instruction, schema, options);
+    return data;
+  }
+
   async getContext(mode: DOMDistillationMode = Mode.ALL_FIELDS): Promise<DistilledDOM> {
     return this.distiller.distill(mode);
   }
 
-  async chat(message: string): Promise<string> {
+  async chat(message: string, options: ChatOptions = {}): Promise<string> {
     const pageState = this.getPageState();
     const ctx = await this.distiller.distill(Mode.TEXT_ONLY);
     const pageContent = ctx.mode === Mode.TEXT_ONLY
       ? ctx.content.slice(0, 10).map(c => c.content).join('\n')
       : '';
-    const resp = await this.llm.complete({
+    const request = {
       messages: [
-        { role: 'system', content: 'Answer based on the web page context.' },
-        { role: 'user', content: `URL: ${pageState.url}\nTitle: ${pageState.title}\n\n${pageContent}\n\nQuestion: ${message}` },
+        { role: 'system' as const, content: 'Answer based on the web page context.' },
+        { role: 'user' as const, content: `URL: ${pageState.url}\nTitle: ${pageState.title}\n\n${pageContent}\n\nQuestion: ${message}` },
       ],
-    });
-    return resp.content;
+    };
+    const llm = this.llms.chat;
+    const resp = !options.onDelta && !this.config.streaming
+      ? await llm.complete(request)
+      : await llm.completeStreaming(request, (event) => {
+        this.emitStreamEvent('chat', event);
+        if (event.type === 'text') options.onDelta?.(event.delta);
+      });
+    this.trackResponse('chat', resp);
+    return this.pii ? this.pii.restore(resp.content) : resp.content;
+  }
+
+  /**
+   * Event payloads are redacted, so secret values never reach listeners
+   */
+  override emit<T extends EventEmitter.EventNames<WebAgentEvents>>(
+    event: T,
+    ...args: EventEmitter.EventArgs<WebAgentEvents, T>
+  ): boolean {
+    return super.emit(event, ...this.secrets.redactDeep(args));
   }
 
-  stop(): void { this.shouldStop = true; }
+  /**
+   * Answer a question from a `task:question` event; false if it is no longer pending
+   */
+  respond(questionId: string, answer: string): boolean { return this.questions.respond(questionId, answer); }
+
+  /** Cancel the running task; in-flight LLM calls and actions are aborted */
+  stop(): void { this.abortController?.abort(); }
   isActive(): boolean { return this.isRunning; }
   getCurrentTaskId(): string | null { return this.currentTaskId; }
   getSkillRegistry(): SkillRegistry { return this.skills; }
+  /** Secrets the model refers to as `{{secret:name}}` */
+  getSecretVault(): SecretVault { return this.secrets; }
   getStateManager(): StateManager { return this.stateManager; }
   getTokenMetrics() { return this.tokenTracker.getMetrics(); }
   
   setBrowserAdapter(adapter: BrowserAdapter): void {
     this.browser = adapter;
-    this.executor = new ActionExecutor(adapter, this.distiller);
-    this.skills = createDefaultRegistry({ distiller: this.distiller, executor: this.executor, browser: this.browser } as PrimitiveSkillsConfig);
-    this.browserNav = new BrowserNavigationAgent(this.llm, this.distiller, this.executor, this.observer, {
+    this.executor = this.createActionExecutor();
+    const previousSkills = this.skills;
+    this.skills = this.createSkillRegistry();
+    // Carry over custom skills registered through getSkillRegistry()
+    previousSkills.getAll().forEach(skill => { if (!this.skills.get(skill.name)) this.skills.register(skill); });
+    this.browserNav = this.createBrowserNavAgent();
+    this.extractor = this.createExtractionAgent();
+  }
+
+  /**
+   * Primitive skills plus ask_user
+   */
+  private createSkillRegistry(): SkillRegistry {
+    const registry = createDefaultRegistry({ distiller: this.distiller, executor: this.executor, browser: this.browser } as PrimitiveSkillsConfig);
+    registry.register(createAskUserSkill(params => this.askUser(params)));
+    return registry;
+  }
+
+  /**
+   * Publish an ask_user question with the form fields it is about and wait for `respond()`
+   */
+  private async askUser({ question, fields }: AskUserParams): Promise<string> {
+    if (this.listenerCount('task:question') === 0) {
+      throw new Error('Nobody is listening for task:question, so the user cannot be asked');
+    }
+    // Described from the page the model is looking at, so its indices stay valid after the answer
+    const relevant = fields ? this.distiller.describeInputFields(fields) : [];
+
+    return this.questions.ask({
+      taskId: this.currentTaskId || 'direct',
+      question,
+      fields: relevant.length > 0 ? relevant : this.distiller.describeInputFields(),
+      url: this.browser.getUrl(),
+    }, this.abortController?.signal);
+  }
+
+  private createActionExecutor(): ActionExecutor {
+    return new ActionExecutor(this.browser, this.distiller, {
+      secrets: this.secrets,
+      ...(this.pii ? { pii: this.pii } : {}),
+      ...(this.approvalGate ? { approvalGate: this.approvalGate } : {}),
+    });
+  }
+
+  private createBrowserNavAgent(): BrowserNavigationAgent {
+    return new BrowserNavigationAgent(this.llms.browserNav, this.distiller, this.executor, this.observer, {
       maxStepsPerSubtask: this.config.maxStepsPerSubtask,
       screenshotOnAction: this.config.screenshots,
+      toolCalling: this.config.toolCalling ?? false,
+      ...(this.config.deltaDistillation !== undefined ? { deltaDistillation: this.config.deltaDistillation } : {}),
+      ...(this.config.pageTokenBudget !== undefined ? { pageTokenBudget: this.config.pageTokenBudget } : {}),
+      skills: this.skills,
+      secrets: this.secrets,
+      ...(this.pii ? { pii: this.pii } : {}),
+      ...(this.approvalGate ? { approvalGate: this.approvalGate } : {}),
+      onResponse: (response) => this.trackResponse('browserNav', response),
       ...(this.config.prompts?.browserNav ? { customSystemPrompt: this.config.prompts.browserNav } : {}),
+      ...(this.config.streaming ? { onStreamEvent: (event: LLMStreamEvent) => this.emitStreamEvent('browserNav', event) } : {}),
+    });
+  }
+
+  private createExtractionAgent(): ExtractionAgent {
+    return new ExtractionAgent(this.llms.extractor, this.distiller, this.browser, {
+      ...(this.pii ? { pii: this.pii } : {}),
+      onResponse: (response) => this.trackResponse('extractor', response),
+      ...(this.config.streaming ? { onStreamEvent: (event: LLMStreamEvent) => this.emitStreamEvent('extractor', event) } : {}),
+    });
+  }
+
+  /**
+   * Provider for a role: its own model (or the shared one) followed by its fallbacks
+   */
+  private createRoleProvider(role: LLMAgentRole): LLMProvider {
+    const roleConfig = this.config.roles?.[role];
+    const primary = roleConfig?.llm ? this.createProvider(roleConfig.llm) : this.llm;
+    const fallbacks = (roleConfig?.fallbacks ?? this.config.fallbacks ?? [])
+      .map(source => this.createProvider(source));
+    if (fallbacks.length === 0) return primary;
+
+    return new FallbackLLMProvider([primary, ...fallbacks], {
+      onFallback: ({ from, to, error }) => {
+        this.debug(`[${role}] ${from} failed (${error.message}), falling back to ${to}`);
+        this.emit('llm:fallback', { taskId: this.currentTaskId || 'direct', agent: role, from, to, error: error.message });
+      },
+    });
+  }
+
+  /**
+   * Hand an approval request to `action:approval` listeners; the first response wins.
+   * Without a listener nobody can approve, so the action is denied.
+   */
+  private requestApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+    if (this.listenerCount('action:approval') === 0) {
+      return Promise.resolve({ outcome: 'deny', reason: 'No approver is listening for action:approval' });
+    }
+    this.debug(`[${request.taskId}] Approval needed: ${request.reasons.join('; ')}`);
+    return new Promise(resolve => {
+      this.emit('action:approval', { taskId: request.taskId, request, respond: resolve });
+    });
+  }
+
+  /**
+   * Provider for a configured source; secret values and personal data are redacted
+   * from everything sent to it. Sources naming the same model get the same provider.
+   */
+  private createProvider(source: LLMSource): LLMProvider {
+    const key = source instanceof LLMProvider ? source : JSON.stringify(source);
+    const cached = this.providers.get(key);
+    if (cached) return cached;
+
+    const provider = this.withResilience(new RedactingLLMProvider(toLLMProvider(source), {
+      redact: (text) => {
+        const redacted = this.secrets.redact(text);
+        return this.pii ? this.pii.redact(redacted) : redacted;
+      },
+    }));
+    this.providers.set(key, provider);
+    return provider;
+  }
+
+  /**
+   * What the caller gets back: PII tokens restored, secret values still redacted
+   */
+  private toCallerResult<T extends TaskResult>(result: T): T {
+    return this.secrets.redactDeep(this.pii ? this.pii.restoreDeep(result) : result);
+  }
+
+  /**
+   * Apply the configured rate limits and retry policy, so each model retries before falling back
+   */
+  private withResilience(provider: LLMProvider): LLMProvider {
+    const resilience = this.config.resilience;
+    if (!resilience) return provider;
+
+    const taskId = () => this.currentTaskId || 'direct';
+    return new ResilientLLMProvider(provider, {
+      ...resilience,
+      onRetry: ({ model, attempt, delayMs, error, retryAfter }) => {
+        this.debug(`[${model}] retry ${attempt} in ${Math.round(delayMs)}ms: ${error.message}`);
+        this.emit('llm:retry', { taskId: taskId(), model, attempt, delayMs, error: error.message, retryAfter });
+      },
+      onThrottle: ({ model, waitMs, limit }) => {
+        this.emit('llm:throttle', { taskId: taskId(), model, waitMs, limit });
+      },
+      onCircuitChange: (state, model) => {
+        this.debug(`[${model}] circuit ${state}`);
+        this.emit('llm:circuit', { taskId: taskId(), model, state });
+      },
     });
   }
 
-  private getPageState(): PageState { return { url: this.browser.getUrl(), title: this.browser.getTitle() }; }
-  private generateSummary(task: string, success: boolean, results: SubTaskResult[]): string {
+  /**
+   * Record usage against the model that actually served the call
+   */
+  private trackResponse(agent: LLMAgentRole, response: LLMResponse): void {
+    const model = response.model ?? this.llms[agent].getConfig().model;
+    this.tokenTracker.track(agent, model, response.usage.promptTokens, response.usage.completionTokens);
+    this.emit('llm:response', { taskId: this.currentTaskId || 'direct', agent, usage: response.usage, model });
+  }
+
+  private emitStreamEvent(agent: LLMAgentRole, event: LLMStreamEvent): void {
+    this.emit('llm:delta', { taskId: this.currentTaskId || 'direct', agent, event });
+  }
+
+  private getPageState(): PageState {
+    const secrets = this.secrets.getPlaceholders();
+    return { url: this.browser.getUrl(), title: this.browser.getTitle(), ...(secrets.length > 0 ? { secrets } : {}) };
+  }
+  private generateSummary(task: string, success: boolean, results: SubTaskResult[], skipped: number): string {
     const done = results.filter(r => r.success).length;
     const steps = results.reduce((s, r) => s + r.steps.length, 0);
     if (success) return `Completed "${task}" in ${steps} steps`;
-    if (done > 0) return `Partial: ${done}/${results.length} subtasks done`;
+    if (done > 0) return `Partial: ${done}/${results.length} subtasks done${skipped > 0 ? `, ${skipped} skipped` : ''}`;
     return `Failed: "${task}"`;
   }
   private generateTaskId(): string { return `task_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`; }
-  private debug(msg: string): void { if (this.config.debug) console.log(`[WebAgent] ${msg}`); }
+  private debug(msg: string): void { if (this.config.debug) console.log(`[WebAgent] ${this.secrets.redact(msg)}`); }
+}
+
+/**
+ * Result of a control subtask (or loop iteration) from its children's results.
+ * Steps, tokens and retries roll up, plus `ownTokens` the control subtask spent
+ * itself (reading its list or checking its condition); the first failed child's error is reported.
+ */
+function combineResults(
+  subtaskId: string,
+  children: readonly SubTaskResult[],
+  startTime: number,
+  error?: SubTaskError,
+  ownTokens = 0
+): SubTaskResult {
+  const failure = error ?? children.find(r => !r.success)?.error;
+  const success = !error && children.every(r => r.success);
+  return {
+    subtaskId,
+    success,
+    steps: children.flatMap(r => r.steps),
+    startTime,
+    endTime: Date.now(),
+    tokensUsed: children.reduce((sum, r) => sum + r.tokensUsed, ownTokens),
+    retryCount: children.reduce((sum, r) => sum + r.retryCount, 0),
+    children,
+    ...(!success && failure ? { error: failure } : {}),
+  };
+}
+
+/**
+ * Error code for a subtask that failed outside the navigator (reading the page,
+ * scheduling children or asking the model)
+ */
+function failureCode(error: unknown): SubTaskErrorCode {
+  if (error instanceof PlanValidationError) return 'INVALID_PLAN' as SubTaskErrorCode;
+  if (error instanceof DistillationError) return 'DISTILLATION_FAILED' as SubTaskErrorCode;
+  return 'LLM_ERROR' as SubTaskErrorCode;
+}
+
+function isExtraction(subtask: SubTask): boolean {
+  return subtask.action.toLowerCase() === 'extract';
+}
+
+/**
+ * Data read by extract subtasks, one line each, labelled with the loop variables in scope
+ */
+function collectExtracted(results: readonly SubTaskResult[], variables: TaskVariables = {}): string[] {
+  return results.flatMap(result => {
+    const scope = result.variables ?? variables;
+    const labels = Object.entries(scope).map(([name, value]) => `${name}=${JSON.stringify(value)}`);
+    const own = result.data !== undefined
+      ? [`- ${result.subtaskId}${labels.length > 0 ? ` (${labels.join(', ')})` : ''}: ${JSON.stringify(result.data)}`]
+      : [];
+    return [...own, ...collectExtracted(result.children ?? [], scope)];
+  });
+}
+
+function countSteps(results: readonly SubTaskResult[]): number {
+  return results.reduce((sum, r) => sum + r.steps.length, 0);
+}
+
+function stepLimitError(results: readonly SubTaskResult[]): SubTaskError {
+  return {
+    code: 'MAX_STEPS_EXCEEDED' as SubTaskErrorCode,
+    message: 'Exceeded max total steps',
+    step: countSteps(results),
+  };
+}
+
+/**
+ * Fill {{name}} placeholders in a subtask's fields and attach the variables for the navigator
+ */
+function bindVariables(subtask: SubTask, variables: TaskVariables): SubTask {
+  if (Object.keys(variables).length === 0) return subtask;
+  return {
+    ...subtask,
+    description: interpolate(subtask.description, variables),
+    verification: interpolate(subtask.verification, variables),
+    ...(subtask.target ? { target: interpolate(subtask.target, variables) } : {}),
+    ...(subtask.value ? { value: interpolate(subtask.value, variables) } : {}),
+    variables,
+  };
+}
+
+/** Unknown placeholders are left as written */
+function interpolate(text: string, variables: TaskVariables): string {
+  return text.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+function toLLMProvider(source: LLMSource): LLMProvider {
+  return source instanceof LLMProvider ? source : createLLMProvider(source);
 }
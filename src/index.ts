@@ -30,31 +30,97 @@ export { WebAgent } from './core/WebAgent';
 
 // Agents
 export { PlannerAgent } from './agents/PlannerAgent';
-export type { PageState, VerificationResult, RecoveryPlan, PlannerConfig } from './agents/PlannerAgent';
+export type { PageState, VerificationEvidence, RecoveryPlan, ConditionResult, PlannerConfig, PlannerRole } from './agents/PlannerAgent';
 export { BrowserNavigationAgent } from './agents/BrowserNavigationAgent';
 export type { BrowserNavConfig } from './agents/BrowserNavigationAgent';
+export { ExtractionAgent } from './agents/ExtractionAgent';
+export type { ExtractionConfig, ExtractOptions, ExtractionResult } from './agents/ExtractionAgent';
 
 // Services
-export { DOMDistiller, createDistiller } from './services/DOMDistiller';
+export { DOMDistiller, DistillationError, createDistiller } from './services/DOMDistiller';
+export type { DOMDistillerOptions } from './services/DOMDistiller';
 export { ActionExecutor } from './services/ActionExecutor';
 export type { ActionExecutorConfig } from './services/ActionExecutor';
 export { ChangeObserver } from './services/ChangeObserver';
 export type { ChangeReport } from './services/ChangeObserver';
-export { SkillRegistry, createPrimitiveSkills, createDefaultRegistry } from './services/SkillRegistry';
+export { SkillRegistry, createPrimitiveSkills, createDefaultRegistry, createAskUserSkill, ASK_USER_SKILL } from './services/SkillRegistry';
+export type { AskUserParams } from './services/SkillRegistry';
 export { ErrorHandler, createErrorHandler, ErrorCategory } from './services/ErrorHandler';
 export type { ClassifiedError, RecoveryStrategy } from './services/ErrorHandler';
 export { StateManager, createStateManager } from './services/StateManager';
-export type { Checkpoint, StateSnapshot } from './services/StateManager';
+export type { Checkpoint, StateSnapshot, StateManagerOptions } from './services/StateManager';
 export { TokenTracker, createTokenTracker } from './services/TokenTracker';
 export type { TokenUsageRecord, TokenMetrics } from './services/TokenTracker';
+export { FactScratchpad, createFactScratchpad } from './services/FactScratchpad';
+export { ApprovalGate, createApprovalGate } from './services/ApprovalGate';
+export type { ApprovalTarget, ApprovalGateOptions } from './services/ApprovalGate';
+export { QuestionBroker, createQuestionBroker, UserInputTimeoutError } from './services/QuestionBroker';
+export type { QuestionBrokerConfig } from './services/QuestionBroker';
+export { SecretVault, createSecretVault } from './services/SecretVault';
+export { PIIRedactor, createPIIRedactor } from './services/PIIRedactor';
+export { LexicalScorer, createLexicalScorer } from './services/RelevanceScorer';
+export type { RelevanceScorer } from './services/RelevanceScorer';
+export { SubtaskScheduler, PlanValidationError, validateSubtaskGraph } from './services/SubtaskScheduler';
 
 // Infrastructure
 export { 
   LLMProvider, 
   OpenAIProvider, 
   AnthropicProvider, 
+  GoogleProvider,
+  LocalProvider,
+  LLMProviderError,
+  parseRetryAfter,
   createLLMProvider 
 } from './infrastructure/LLMProvider';
+export { 
+  MockLLMProvider,
+  type MockLLMConfig,
+  type MockResponse,
+  type MockResponseSpec,
+  type MockRule,
+  type MockMatcher,
+  type MockHandler,
+  type MockToolCall,
+  type MockErrorKind,
+} from './infrastructure/MockLLMProvider';
+export { 
+  completeStructured,
+  parseStructured,
+  StructuredOutputError,
+  type Completer,
+  type StructuredOptions,
+  type StructuredResult,
+} from './infrastructure/StructuredOutput';
+export { zodToJsonSchema, type JsonSchemaObject } from './utils/zodToJsonSchema';
+export { createAbortError, isAbortError, throwIfAborted, abortableSleep } from './utils/abort';
+export { 
+  FallbackLLMProvider,
+  type FallbackEvent,
+  type FallbackOptions,
+} from './infrastructure/FallbackLLMProvider';
+export { 
+  ResilientLLMProvider,
+  CircuitOpenError,
+  isTransientError,
+  type ResilienceOptions,
+  type RetryEvent,
+  type ThrottleEvent,
+} from './infrastructure/ResilientLLMProvider';
+export { RedactingLLMProvider, type TextRedactor } from './infrastructure/RedactingLLMProvider';
+export { 
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  CassetteMismatchError,
+  createFileCassetteStore,
+  createMemoryCassetteStore,
+  hashLLMRequest,
+  CASSETTE_VERSION,
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteStore,
+  type RecordingOptions,
+} from './infrastructure/CassetteLLMProvider';
 export { 
   BrowserAdapter, 
   DOMBrowserAdapter, 
@@ -6,21 +6,29 @@
  * - Node.js with Playwright/Puppeteer
  */
 
+import { abortableSleep, raceAbort, throwIfAborted } from '../utils/abort';
+import { isElementOf } from '../utils/dom';
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
+export interface AbortOptions {
+  /** Abort the wait early; the call rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
 export interface ClickOptions {
   button?: 'left' | 'right' | 'middle';
   clickCount?: number;
   delay?: number;
 }
 
-export interface TypeOptions {
+export interface TypeOptions extends AbortOptions {
   delay?: number;
 }
 
-export interface WaitOptions {
+export interface WaitOptions extends AbortOptions {
   timeout?: number;
   state?: 'visible' | 'hidden' | 'attached' | 'detached';
 }
@@ -47,7 +55,7 @@ export abstract class BrowserAdapter {
   abstract scroll(direction: 'up' | 'down' | 'left' | 'right', amount: number): Promise<void>;
   abstract scrollToElement(element: Element | string): Promise<void>;
   abstract press(key: string, modifiers?: string[]): Promise<void>;
-  abstract wait(duration: number): Promise<void>;
+  abstract wait(duration: number, options?: AbortOptions): Promise<void>;
   abstract waitForSelector(selector: string, options?: WaitOptions): Promise<void>;
   abstract navigate(url: string): Promise<void>;
   abstract goBack(): Promise<void>;
@@ -93,7 +101,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
     el.dispatchEvent(event);
 
     // Also trigger native click for form elements
-    if (el instanceof HTMLElement) {
+    if (isElementOf(el, 'HTMLElement')) {
       el.click();
     }
   }
@@ -112,18 +120,19 @@ export class DOMBrowserAdapter extends BrowserAdapter {
   async type(element: Element | string, text: string, options?: TypeOptions): Promise<void> {
     const el = this.getElement(element);
 
-    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+    if (isElementOf(el, 'HTMLInputElement') || isElementOf(el, 'HTMLTextAreaElement')) {
       el.focus();
 
       // Type character by character with delay
       const delay = options?.delay ?? 0;
 
       for (const char of text) {
+        throwIfAborted(options?.signal);
         el.value += char;
         el.dispatchEvent(new InputEvent('input', { bubbles: true, data: char }));
 
         if (delay > 0) {
-          await this.wait(delay);
+          await this.wait(delay, options);
         }
       }
 
@@ -137,7 +146,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
   async clear(element: Element | string): Promise<void> {
     const el = this.getElement(element);
 
-    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+    if (isElementOf(el, 'HTMLInputElement') || isElementOf(el, 'HTMLTextAreaElement')) {
       el.value = '';
       el.dispatchEvent(new InputEvent('input', { bubbles: true }));
       el.dispatchEvent(new Event('change', { bubbles: true }));
@@ -150,7 +159,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
   async select(element: Element | string, value: string | string[]): Promise<void> {
     const el = this.getElement(element);
 
-    if (el instanceof HTMLSelectElement) {
+    if (isElementOf(el, 'HTMLSelectElement')) {
       const values = Array.isArray(value) ? value : [value];
 
       for (const option of el.options) {
@@ -164,7 +173,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
   async check(element: Element | string): Promise<void> {
     const el = this.getElement(element);
 
-    if (el instanceof HTMLInputElement && (el.type === 'checkbox' || el.type === 'radio')) {
+    if (isElementOf(el, 'HTMLInputElement') && (el.type === 'checkbox' || el.type === 'radio')) {
       if (!el.checked) {
         el.checked = true;
         el.dispatchEvent(new Event('change', { bubbles: true }));
@@ -175,7 +184,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
   async uncheck(element: Element | string): Promise<void> {
     const el = this.getElement(element);
 
-    if (el instanceof HTMLInputElement && el.type === 'checkbox') {
+    if (isElementOf(el, 'HTMLInputElement') && el.type === 'checkbox') {
       if (el.checked) {
         el.checked = false;
         el.dispatchEvent(new Event('change', { bubbles: true }));
@@ -193,7 +202,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
   async focus(element: Element | string): Promise<void> {
     const el = this.getElement(element);
 
-    if (el instanceof HTMLElement) {
+    if (isElementOf(el, 'HTMLElement')) {
       el.focus();
     }
   }
@@ -240,8 +249,8 @@ export class DOMBrowserAdapter extends BrowserAdapter {
     this.document.dispatchEvent(new KeyboardEvent('keyup', eventInit));
   }
 
-  async wait(duration: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, duration));
+  async wait(duration: number, options?: AbortOptions): Promise<void> {
+    return abortableSleep(duration, options?.signal);
   }
 
   async waitForSelector(selector: string, options?: WaitOptions): Promise<void> {
@@ -264,7 +273,7 @@ export class DOMBrowserAdapter extends BrowserAdapter {
         }
       }
 
-      await this.wait(100);
+      await this.wait(100, options);
     }
 
     throw new Error(`Timeout waiting for selector: ${selector}`);
@@ -336,7 +345,7 @@ export class PlaywrightAdapter extends BrowserAdapter {
 
   async type(element: Element | string, text: string, options?: TypeOptions): Promise<void> {
     const selector = this.getSelector(element);
-    await this.page.type(selector, text, { delay: options?.delay });
+    await raceAbort(this.page.type(selector, text, { delay: options?.delay }), options?.signal);
   }
 
   async clear(element: Element | string): Promise<void> {
@@ -385,15 +394,15 @@ export class PlaywrightAdapter extends BrowserAdapter {
     await this.page.keyboard.press(combo);
   }
 
-  async wait(duration: number): Promise<void> {
-    await this.page.waitForTimeout(duration);
+  async wait(duration: number, options?: AbortOptions): Promise<void> {
+    await raceAbort(this.page.waitForTimeout(duration), options?.signal);
   }
 
   async waitForSelector(selector: string, options?: WaitOptions): Promise<void> {
-    await this.page.waitForSelector(selector, {
+    await raceAbort(this.page.waitForSelector(selector, {
       timeout: options?.timeout,
       state: options?.state,
-    });
+    }), options?.signal);
   }
 
   async navigate(url: string): Promise<void> {
@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Record-and-replay cassettes for LLM traffic
+ *
+ * RecordingLLMProvider wraps a real provider and saves every request/response
+ * pair; ReplayLLMProvider serves them back deterministically in tests.
+ */
+
+import type {
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+} from '../types';
+import { LLMProvider } from './LLMProvider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteInteraction {
+  /** Stable hash of the request (see hashLLMRequest) */
+  readonly key: string;
+  readonly request: LLMRequest;
+  readonly response: LLMResponse;
+}
+
+export interface Cassette {
+  readonly version: number;
+  /** Provider and model the traffic was recorded against */
+  readonly provider: string;
+  readonly model: string;
+  readonly interactions: readonly CassetteInteraction[];
+}
+
+/**
+ * Where cassettes are read from and written to
+ */
+export interface CassetteStore {
+  load(): Promise<Cassette | null>;
+  save(cassette: Cassette): Promise<void>;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * JSON file store (Node.js only; `fs` is loaded lazily)
+ */
+export function createFileCassetteStore(path: string): CassetteStore {
+  return {
+    async load() {
+      const fs = await import('node:fs/promises');
+      try {
+        return JSON.parse(await fs.readFile(path, 'utf8')) as Cassette;
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async save(cassette) {
+      const fs = await import('node:fs/promises');
+      const { dirname } = await import('node:path');
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(path, JSON.stringify(cassette, null, 2) + '\n', 'utf8');
+    },
+  };
+}
+
+/**
+ * In-memory store, useful in browsers and for tests
+ */
+export function createMemoryCassetteStore(initial: Cassette | null = null): CassetteStore & { cassette: Cassette | null } {
+  return {
+    cassette: initial,
+    async load() {
+      return this.cassette;
+    },
+    async save(cassette) {
+      this.cassette = cassette;
+    },
+  };
+}
+
+function toStore(store: CassetteStore | string): CassetteStore {
+  return typeof store === 'string' ? createFileCassetteStore(store) : store;
+}
+
+// ============================================================================
+// RECORDING PROVIDER
+// ============================================================================
+
+export interface RecordingOptions {
+  /** Keep interactions already in the store instead of starting a fresh cassette */
+  readonly append?: boolean;
+}
+
+export class RecordingLLMProvider extends LLMProvider {
+  private readonly inner: LLMProvider;
+  private readonly store: CassetteStore;
+  private readonly append: boolean;
+  private interactions: CassetteInteraction[] = [];
+  private loaded: Promise<void> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(inner: LLMProvider, store: CassetteStore | string, options: RecordingOptions = {}) {
+    super(inner.getConfig());
+    this.inner = inner;
+    this.store = toStore(store);
+    this.append = options.append ?? false;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request);
+    await this.record(request, response);
+    return response;
+  }
+
+  override async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    for await (const event of this.inner.stream(request)) {
+      if (event.type === 'done') {
+        await this.record(request, event.response);
+      }
+      yield event;
+    }
+  }
+
+  estimateTokens(text: string): number {
+    return this.inner.estimateTokens(text);
+  }
+
+  /**
+   * Interactions recorded so far
+   */
+  getInteractions(): readonly CassetteInteraction[] {
+    return [...this.interactions];
+  }
+
+  /**
+   * Resolve once every recorded interaction has been written
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  private async record(request: LLMRequest, response: LLMResponse): Promise<void> {
+    this.loaded ??= this.loadExisting();
+    await this.loaded;
+
+    this.interactions.push({ key: hashLLMRequest(request), request: toRecordedRequest(request), response });
+
+    const cassette: Cassette = {
+      version: CASSETTE_VERSION,
+      provider: this.config.provider,
+      model: this.config.model,
+      interactions: [...this.interactions],
+    };
+    // Serialize writes so concurrent calls cannot interleave on disk
+    this.pendingWrite = this.pendingWrite.then(() => this.store.save(cassette));
+    await this.pendingWrite;
+  }
+
+  private async loadExisting(): Promise<void> {
+    if (!this.append) return;
+    const existing = await this.store.load();
+    this.interactions = [...(existing?.interactions ?? []), ...this.interactions];
+  }
+}
+
+// ============================================================================
+// REPLAY PROVIDER
+// ============================================================================
+
+/**
+ * Thrown when a request has no recorded counterpart
+ */
+export class CassetteMismatchError extends Error {
+  readonly key: string;
+
+  constructor(key: string, request: LLMRequest, recorded: number) {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    super(
+      `No recorded LLM response for request ${key} (${recorded} interactions in cassette). ` +
+      `The prompt changed since recording; re-record the cassette.` +
+      (lastUser ? `\nLast user message: "${lastUser.content.slice(0, 200)}"` : '')
+    );
+    this.name = 'CassetteMismatchError';
+    this.key = key;
+  }
+}
+
+export class ReplayLLMProvider extends LLMProvider {
+  private readonly recorded: Map<string, LLMResponse[]>;
+  private readonly served = new Map<string, number>();
+  private readonly total: number;
+
+  constructor(cassette: Cassette) {
+    super({ provider: 'mock', model: cassette.model });
+    this.total = cassette.interactions.length;
+    this.recorded = new Map();
+    for (const interaction of cassette.interactions) {
+      const responses = this.recorded.get(interaction.key) ?? [];
+      responses.push(interaction.response);
+      this.recorded.set(interaction.key, responses);
+    }
+  }
+
+  /**
+   * Load a cassette from a store or file path
+   */
+  static async load(store: CassetteStore | string): Promise<ReplayLLMProvider> {
+    const cassette = await toStore(store).load();
+    if (!cassette) {
+      throw new Error(`Cassette not found${typeof store === 'string' ? `: ${store}` : ''}`);
+    }
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${cassette.version} (expected ${CASSETTE_VERSION})`);
+    }
+    return new ReplayLLMProvider(cassette);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const key = hashLLMRequest(request);
+    const responses = this.recorded.get(key);
+    if (!responses || responses.length === 0) {
+      throw new CassetteMismatchError(key, request, this.total);
+    }
+
+    // Identical requests are answered in recorded order; the last answer repeats
+    const count = this.served.get(key) ?? 0;
+    this.served.set(key, count + 1);
+    return responses[Math.min(count, responses.length - 1)]!;
+  }
+
+  estimateTokens(text: string): number {
+    // Rough estimate: ~4 chars per token
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Recorded interactions that were never requested during replay
+   */
+  getUnusedCount(): number {
+    let unused = 0;
+    for (const [key, responses] of this.recorded) {
+      unused += Math.max(0, responses.length - (this.served.get(key) ?? 0));
+    }
+    return unused;
+  }
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Stable hash of the parts of a request that determine the response:
+ * messages, tools, tool choice, response format and schema.
+ */
+export function hashLLMRequest(request: LLMRequest): string {
+  return hashString(canonicalJSON(toRecordedRequest(request)));
+}
+
+/**
+ * Strip a request down to its serializable, response-determining fields
+ */
+function toRecordedRequest(request: LLMRequest): LLMRequest {
+  return {
+    messages: request.messages.map(toRecordedMessage),
+    ...(request.tools ? { tools: request.tools } : {}),
+    ...(request.toolChoice ? { toolChoice: request.toolChoice } : {}),
+    ...(request.responseFormat ? { responseFormat: request.responseFormat } : {}),
+    ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+  };
+}
+
+function toRecordedMessage(message: LLMMessage): LLMMessage {
+  return {
+    role: message.role,
+    content: message.content,
+    ...(message.name ? { name: message.name } : {}),
+    ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+    ...(message.toolCalls?.length ? { toolCalls: message.toolCalls } : {}),
+  };
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize identically
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * 64-bit FNV-1a (two independent 32-bit lanes), hex encoded
+ */
+function hashString(text: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0xcbf29ce4;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x01000193) ^ (h2 >>> 15);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+}
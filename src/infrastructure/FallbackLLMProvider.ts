@@ -0,0 +1,119 @@
+/**
+ * @fileoverview FallbackLLMProvider - Ordered provider chain with automatic fallthrough
+ */
+
+import type {
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+} from '../types';
+import { LLMProvider } from './LLMProvider';
+import { isAbortError } from '../utils/abort';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FallbackEvent {
+  /** Model that failed */
+  readonly from: string;
+  /** Model tried next */
+  readonly to: string;
+  readonly error: Error;
+}
+
+export interface FallbackOptions {
+  /** Decide whether an error should fall through to the next provider (default: always) */
+  shouldFallback?: (error: Error) => boolean;
+  /** Called before each fallthrough */
+  onFallback?: (event: FallbackEvent) => void;
+}
+
+// ============================================================================
+// FALLBACK PROVIDER
+// ============================================================================
+
+export class FallbackLLMProvider extends LLMProvider {
+  private readonly providers: readonly LLMProvider[];
+  private readonly shouldFallback: (error: Error) => boolean;
+  private readonly onFallback: ((event: FallbackEvent) => void) | null;
+
+  constructor(providers: readonly LLMProvider[], options: FallbackOptions = {}) {
+    const primary = providers[0];
+    if (!primary) {
+      throw new Error('FallbackLLMProvider needs at least one provider');
+    }
+    super(primary.getConfig());
+    this.providers = providers;
+    this.shouldFallback = options.shouldFallback ?? (() => true);
+    this.onFallback = options.onFallback ?? null;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let lastError: Error | null = null;
+
+    for (const [i, provider] of this.providers.entries()) {
+      try {
+        const response = await provider.complete(request);
+        return withModel(response, provider);
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if (!this.fallThrough(i, lastError)) break;
+      }
+    }
+
+    throw lastError!;
+  }
+
+  /**
+   * Streams from the first provider that starts producing output.
+   * Once events have been emitted, errors propagate instead of falling through.
+   */
+  override async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    let lastError: Error | null = null;
+
+    for (const [i, provider] of this.providers.entries()) {
+      let started = false;
+      try {
+        for await (const event of provider.stream(request)) {
+          started = true;
+          yield event.type === 'done' ? { type: 'done', response: withModel(event.response, provider) } : event;
+        }
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        if (started || !this.fallThrough(i, lastError)) break;
+      }
+    }
+
+    throw lastError!;
+  }
+
+  estimateTokens(text: string): number {
+    return this.providers[0]!.estimateTokens(text);
+  }
+
+  getProviders(): readonly LLMProvider[] {
+    return [...this.providers];
+  }
+
+  private fallThrough(index: number, error: Error): boolean {
+    const next = this.providers[index + 1];
+    // Cancellation is not a provider failure
+    if (!next || isAbortError(error) || !this.shouldFallback(error)) return false;
+
+    this.onFallback?.({
+      from: this.providers[index]!.getConfig().model,
+      to: next.getConfig().model,
+      error,
+    });
+    return true;
+  }
+}
+
+/**
+ * Stamp the serving model on a response unless the provider already did
+ */
+function withModel(response: LLMResponse, provider: LLMProvider): LLMResponse {
+  return response.model ? response : { ...response, model: provider.getConfig().model };
+}
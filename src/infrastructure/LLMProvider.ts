@@ -2,14 +2,19 @@
  * @fileoverview LLMProvider - Unified interface for multiple LLM providers
  */
 
+import type { z } from 'zod';
 import type {
   LLMConfig,
+  LLMMessage,
   LLMRequest,
   LLMResponse,
+  LLMStreamEvent,
   OpenAIFunction,
   AnthropicTool,
   ToolCall,
 } from '../types';
+import { completeStructured, type StructuredOptions, type StructuredResult } from './StructuredOutput';
+import { createAbortError } from '../utils/abort';
 
 // ============================================================================
 // ABSTRACT BASE CLASS
@@ -25,12 +30,87 @@ export abstract class LLMProvider {
   abstract complete(request: LLMRequest): Promise<LLMResponse>;
   
   abstract estimateTokens(text: string): number;
-  
+
+  /**
+   * Stream a completion as incremental events, ending with a `done` event.
+   * Providers without native streaming emit the whole response at once.
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const response = await this.complete(request);
+
+    if (response.content) {
+      yield { type: 'text', delta: response.content };
+    }
+    for (const [index, toolCall] of (response.toolCalls ?? []).entries()) {
+      yield { type: 'tool_call', index, id: toolCall.id, name: toolCall.name, argumentsDelta: toolCall.arguments };
+    }
+    yield { type: 'usage', usage: response.usage };
+    yield { type: 'done', response };
+  }
+
+  /**
+   * Consume stream() while forwarding each event, and return the final response
+   */
+  async completeStreaming(
+    request: LLMRequest,
+    onEvent: (event: LLMStreamEvent) => void
+  ): Promise<LLMResponse> {
+    for await (const event of this.stream(request)) {
+      onEvent(event);
+      if (event.type === 'done') {
+        return event.response;
+      }
+    }
+    throw new Error('Stream ended without a final response');
+  }
+
+  /**
+   * Complete with JSON validated against a zod schema, re-prompting on validation errors
+   */
+  completeStructured<T extends z.ZodTypeAny>(
+    request: LLMRequest,
+    schema: T,
+    options?: StructuredOptions
+  ): Promise<StructuredResult<z.infer<T>>> {
+    return completeStructured(this, request, schema, options);
+  }
+
   getConfig(): LLMConfig {
     return { ...this.config };
   }
 }
 
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * HTTP-level failure reported by a provider endpoint
+ */
+export class LLMProviderError extends Error {
+  readonly status: number;
+  /** Server-requested wait before retrying (from the Retry-After header) */
+  readonly retryAfterMs: number | undefined;
+  
+  constructor(provider: string, status: number, body: string, retryAfterMs?: number) {
+    super(`${provider} request failed with status ${status}: ${body.slice(0, 500)}`);
+    this.name = 'LLMProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parse a Retry-After header value (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
 // ============================================================================
 // OPENAI PROVIDER
 // ============================================================================
@@ -44,36 +124,9 @@ export class OpenAIProvider extends LLMProvider {
   
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const client = await this.getClient();
-    
-    const messages = request.messages.map(m => ({
-      role: m.role as 'system' | 'user' | 'assistant',
-      content: m.content,
-      ...(m.name && { name: m.name }),
-    }));
-    
-    const options: OpenAICompletionOptions = {
-      model: this.config.model,
-      messages,
-      max_tokens: this.config.maxTokens ?? 4096,
-      temperature: this.config.temperature ?? 0.7,
-    };
-    
-    if (request.tools && request.tools.length > 0) {
-      options.tools = (request.tools as OpenAIFunction[]).map(t => ({
-        type: 'function' as const,
-        function: {
-          name: t.name,
-          description: t.description,
-          parameters: t.parameters,
-        },
-      }));
-    }
-    
-    if (request.responseFormat === 'json') {
-      options.response_format = { type: 'json_object' };
-    }
-    
-    const response = await client.chat.completions.create(options);
+    const response = await callSDK(request, () =>
+      client.chat.completions.create(buildOpenAIOptions(this.config, request), requestOptions(request))
+    );
     
     const choice = response.choices[0];
     if (!choice) {
@@ -94,15 +147,32 @@ export class OpenAIProvider extends LLMProvider {
         completionTokens: response.usage?.completion_tokens ?? 0,
         totalTokens: response.usage?.total_tokens ?? 0,
       },
-      finishReason: this.mapFinishReason(choice.finish_reason),
+      finishReason: mapOpenAIFinishReason(choice.finish_reason),
     };
   }
-  
+
+  override stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    return streamSDK(request, () => this.streamChunks(request));
+  }
+
+  private async *streamChunks(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const client = await this.getClient();
+    const chunks = await client.chat.completions.create({
+      ...buildOpenAIOptions(this.config, request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, requestOptions(request));
+
+    const response = yield* readOpenAIChunks(chunks);
+    yield { type: 'usage', usage: response.usage };
+    yield { type: 'done', response };
+  }
+
   estimateTokens(text: string): number {
     // Rough estimate: ~4 chars per token for English
     return Math.ceil(text.length / 4);
   }
-  
+
   private async getClient(): Promise<OpenAIClient> {
     if (this.client) return this.client;
     
@@ -118,16 +188,6 @@ export class OpenAIProvider extends LLMProvider {
     this.client = client;
     return client;
   }
-  
-  private mapFinishReason(reason: string | null): LLMResponse['finishReason'] {
-    switch (reason) {
-      case 'stop': return 'stop';
-      case 'tool_calls': return 'tool_calls';
-      case 'length': return 'length';
-      case 'content_filter': return 'content_filter';
-      default: return 'stop';
-    }
-  }
 }
 
 // ============================================================================
@@ -144,34 +204,9 @@ export class AnthropicProvider extends LLMProvider {
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const client = await this.getClient();
     
-    // Extract system message
-    const systemMessage = request.messages.find(m => m.role === 'system');
-    const otherMessages = request.messages.filter(m => m.role !== 'system');
-    
-    const messages = otherMessages.map(m => ({
-      role: m.role as 'user' | 'assistant',
-      content: m.content,
-    }));
-    
-    const options: AnthropicCompletionOptions = {
-      model: this.config.model,
-      max_tokens: this.config.maxTokens ?? 4096,
-      messages,
-    };
-    
-    if (systemMessage) {
-      options.system = systemMessage.content;
-    }
-    
-    if (request.tools && request.tools.length > 0) {
-      options.tools = (request.tools as AnthropicTool[]).map(t => ({
-        name: t.name,
-        description: t.description,
-        input_schema: t.input_schema,
-      }));
-    }
-    
-    const response = await client.messages.create(options);
+    const response = await callSDK(request, () =>
+      client.messages.create(this.buildOptions(request), requestOptions(request))
+    );
     
     // Extract content
     let content = '';
@@ -189,7 +224,7 @@ export class AnthropicProvider extends LLMProvider {
       }
     }
     
-    return {
+    return unwrapStructuredToolCall(request, {
       content,
       ...(toolCalls.length > 0 && { toolCalls }),
       usage: {
@@ -198,6 +233,79 @@ export class AnthropicProvider extends LLMProvider {
         totalTokens: response.usage.input_tokens + response.usage.output_tokens,
       },
       finishReason: this.mapStopReason(response.stop_reason),
+    });
+  }
+  
+  override stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    return streamSDK(request, () => this.streamEvents(request));
+  }
+  
+  private async *streamEvents(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const client = await this.getClient();
+    const events = await client.messages.create({ ...this.buildOptions(request), stream: true }, requestOptions(request));
+    
+    let content = '';
+    let stopReason: string | null = null;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    const toolCalls: ToolCall[] = [];
+    // Maps content block index -> position in toolCalls
+    const toolBlocks = new Map<number, number>();
+    
+    for await (const event of events) {
+      switch (event.type) {
+        case 'message_start':
+          promptTokens = event.message.usage.input_tokens;
+          completionTokens = event.message.usage.output_tokens;
+          break;
+        
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            toolBlocks.set(event.index, toolCalls.length);
+            toolCalls.push({ id: event.content_block.id, name: event.content_block.name, arguments: '' });
+            yield {
+              type: 'tool_call',
+              index: toolCalls.length - 1,
+              id: event.content_block.id,
+              name: event.content_block.name,
+              argumentsDelta: '',
+            };
+          }
+          break;
+        
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            content += event.delta.text;
+            yield { type: 'text', delta: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta') {
+            const position = toolBlocks.get(event.index);
+            const toolCall = position !== undefined ? toolCalls[position] : undefined;
+            if (position !== undefined && toolCall) {
+              toolCalls[position] = { ...toolCall, arguments: toolCall.arguments + event.delta.partial_json };
+              yield { type: 'tool_call', index: position, argumentsDelta: event.delta.partial_json };
+            }
+          }
+          break;
+        
+        case 'message_delta':
+          stopReason = event.delta.stop_reason ?? stopReason;
+          completionTokens = event.usage.output_tokens;
+          break;
+      }
+    }
+    
+    // Tool calls without streamed input have empty arguments
+    const calls = toolCalls.map(tc => ({ ...tc, arguments: tc.arguments || '{}' }));
+    const usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    yield { type: 'usage', usage };
+    yield {
+      type: 'done',
+      response: unwrapStructuredToolCall(request, {
+        content,
+        ...(calls.length > 0 && { toolCalls: calls }),
+        usage,
+        finishReason: this.mapStopReason(stopReason),
+      }),
     };
   }
   
@@ -206,6 +314,50 @@ export class AnthropicProvider extends LLMProvider {
     return Math.ceil(text.length / 4);
   }
   
+  private buildOptions(request: LLMRequest): AnthropicCompletionOptions {
+    // Extract system messages
+    const systemMessages = request.messages.filter(m => m.role === 'system');
+    
+    const options: AnthropicCompletionOptions = {
+      model: this.config.model,
+      max_tokens: this.config.maxTokens ?? 4096,
+      messages: toAnthropicMessages(request.messages),
+    };
+    
+    if (systemMessages.length > 0) {
+      options.system = systemMessages.map(m => m.content).join('\n\n');
+    }
+    
+    // Structured output: force a tool whose input is the response object
+    if (request.responseSchema && !request.tools?.length) {
+      const { name, description, schema } = request.responseSchema;
+      options.tools = [{ name, description: description ?? 'Respond with the structured result', input_schema: schema }];
+      options.tool_choice = { type: 'tool', name };
+      return options;
+    }
+    
+    // Tools stay declared under "none": the API rejects tool_use/tool_result blocks without them
+    if (request.tools && request.tools.length > 0) {
+      options.tools = normalizeTools(request.tools).map(t => ({
+        name: t.name,
+        description: t.description,
+        input_schema: t.parameters,
+      }));
+      
+      if (request.toolChoice === 'auto') {
+        options.tool_choice = { type: 'auto' };
+      } else if (request.toolChoice === 'required') {
+        options.tool_choice = { type: 'any' };
+      } else if (request.toolChoice === 'none') {
+        options.tool_choice = { type: 'none' };
+      } else if (request.toolChoice) {
+        options.tool_choice = { type: 'tool', name: request.toolChoice.name };
+      }
+    }
+    
+    return options;
+  }
+  
   private async getClient(): Promise<AnthropicClient> {
     if (this.client) return this.client;
     
@@ -231,6 +383,708 @@ export class AnthropicProvider extends LLMProvider {
   }
 }
 
+// ============================================================================
+// GOOGLE GEMINI PROVIDER
+// ============================================================================
+
+const GOOGLE_DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+export class GoogleProvider extends LLMProvider {
+  private callCounter = 0;
+  
+  constructor(config: Omit<LLMConfig, 'provider'>) {
+    super({ ...config, provider: 'google' });
+  }
+  
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const baseUrl = (this.config.baseUrl ?? GOOGLE_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const url = `${baseUrl}/models/${encodeURIComponent(this.config.model)}:generateContent`;
+    
+    const response = await postJSON<GeminiResponse>('Google', url, this.buildRequest(request), {
+      ...(this.config.apiKey ? { 'x-goog-api-key': this.config.apiKey } : {}),
+    }, this.config.timeout ?? 60000, request.signal);
+    
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+      throw new Error(`No response from Google${response.promptFeedback?.blockReason ? ` (blocked: ${response.promptFeedback.blockReason})` : ''}`);
+    }
+    
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    
+    for (const part of candidate.content?.parts ?? []) {
+      if ('text' in part && typeof part.text === 'string') {
+        content += part.text;
+      } else if ('functionCall' in part && part.functionCall) {
+        toolCalls.push({
+          id: `call_${++this.callCounter}`,
+          name: part.functionCall.name,
+          arguments: JSON.stringify(part.functionCall.args ?? {}),
+        });
+      }
+    }
+    
+    const usage = response.usageMetadata;
+    const promptTokens = usage?.promptTokenCount ?? 0;
+    const completionTokens = usage?.candidatesTokenCount ?? 0;
+    
+    return {
+      content,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: usage?.totalTokenCount ?? promptTokens + completionTokens,
+      },
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(candidate.finishReason),
+    };
+  }
+  
+  estimateTokens(text: string): number {
+    // Rough estimate: ~4 chars per token
+    return Math.ceil(text.length / 4);
+  }
+  
+  private buildRequest(request: LLMRequest): GeminiRequest {
+    const systemMessages = request.messages.filter(m => m.role === 'system');
+    
+    const body: GeminiRequest = {
+      contents: toGeminiContents(request.messages),
+      generationConfig: {
+        maxOutputTokens: this.config.maxTokens ?? 4096,
+        temperature: this.config.temperature ?? 0.7,
+        ...(request.responseFormat === 'json' || request.responseSchema ? { responseMimeType: 'application/json' } : {}),
+      },
+    };
+    
+    if (systemMessages.length > 0) {
+      body.systemInstruction = { parts: [{ text: systemMessages.map(m => m.content).join('\n\n') }] };
+    }
+    
+    if (request.tools && request.tools.length > 0) {
+      body.tools = [{
+        functionDeclarations: normalizeTools(request.tools).map(t => ({
+          name: t.name,
+          description: t.description,
+          // Gemini rejects OBJECT schemas without properties
+          ...(t.parameters.properties && Object.keys(t.parameters.properties).length > 0
+            ? { parameters: t.parameters }
+            : {}),
+        })),
+      }];
+      
+      if (request.toolChoice) {
+        const choice = request.toolChoice;
+        body.toolConfig = {
+          functionCallingConfig: typeof choice === 'string'
+            ? { mode: choice === 'required' ? 'ANY' : choice === 'none' ? 'NONE' : 'AUTO' }
+            : { mode: 'ANY', allowedFunctionNames: [choice.name] },
+        };
+      }
+    }
+    
+    return body;
+  }
+  
+  private mapFinishReason(reason: string | undefined): LLMResponse['finishReason'] {
+    switch (reason) {
+      case 'MAX_TOKENS': return 'length';
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII': return 'content_filter';
+      default: return 'stop';
+    }
+  }
+}
+
+// ============================================================================
+// LOCAL PROVIDER (OpenAI-compatible servers: Ollama, llama.cpp, vLLM)
+// ============================================================================
+
+const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+export class LocalProvider extends LLMProvider {
+  private callCounter = 0;
+  
+  constructor(config: Omit<LLMConfig, 'provider'>) {
+    super({ ...config, provider: 'local' });
+  }
+  
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const baseUrl = (this.config.baseUrl ?? LOCAL_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    
+    // Local servers usually need no key; send one only when configured
+    const response = await postJSON<LocalCompletionResponse>('Local', `${baseUrl}/chat/completions`,
+      // Older local servers reject json_schema; completeStructured validates the JSON instead
+      buildOpenAIOptions(this.config, request, { jsonSchema: false }), {
+        ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      }, this.config.timeout ?? 120000, request.signal);
+    
+    const choice = response.choices?.[0];
+    if (!choice) {
+      throw new Error('No response from local model');
+    }
+    
+    const content = choice.message.content || '';
+    let toolCalls: ToolCall[] = (choice.message.tool_calls ?? []).map(tc => ({
+      id: tc.id || `call_${++this.callCounter}`,
+      name: tc.function.name,
+      // Some servers return arguments as an object instead of a JSON string
+      arguments: typeof tc.function.arguments === 'string'
+        ? tc.function.arguments
+        : JSON.stringify(tc.function.arguments ?? {}),
+    }));
+    
+    // Models without native tool support often answer with a JSON tool call in the text
+    if (toolCalls.length === 0 && request.tools && request.tools.length > 0 && request.toolChoice !== 'none') {
+      const inline = this.parseInlineToolCall(content, normalizeTools(request.tools).map(t => t.name));
+      if (inline) {
+        toolCalls = [inline];
+      }
+    }
+    
+    const promptTokens = response.usage?.prompt_tokens ?? this.estimateTokens(
+      request.messages.map(m => m.content).join('\n')
+    );
+    const completionTokens = response.usage?.completion_tokens ?? this.estimateTokens(content);
+    
+    return {
+      content: toolCalls.length > 0 && !choice.message.tool_calls?.length ? '' : content,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: response.usage?.total_tokens ?? promptTokens + completionTokens,
+      },
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : mapOpenAIFinishReason(choice.finish_reason ?? null),
+    };
+  }
+  
+  override async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    const baseUrl = (this.config.baseUrl ?? LOCAL_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const chunks = postEventStream<OpenAIStreamChunk>('Local', `${baseUrl}/chat/completions`, {
+      ...buildOpenAIOptions(this.config, request, { jsonSchema: false }),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, {
+      ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+    }, this.config.timeout ?? 120000, request.signal);
+    
+    const streamed = yield* readOpenAIChunks(chunks);
+    let toolCalls = (streamed.toolCalls ?? []).map(tc => ({ ...tc, id: tc.id || `call_${++this.callCounter}` }));
+    
+    // Same inline tool-call recovery as complete(); the text was already streamed
+    const inline = toolCalls.length === 0 && request.tools && request.tools.length > 0 && request.toolChoice !== 'none'
+      ? this.parseInlineToolCall(streamed.content, normalizeTools(request.tools).map(t => t.name))
+      : null;
+    if (inline) {
+      toolCalls = [inline];
+    }
+    
+    // Servers that ignore stream_options report no usage
+    const usage = streamed.usage.totalTokens > 0 ? streamed.usage : (() => {
+      const promptTokens = this.estimateTokens(request.messages.map(m => m.content).join('\n'));
+      const completionTokens = this.estimateTokens(streamed.content);
+      return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    })();
+    
+    const response: LLMResponse = {
+      content: inline ? '' : streamed.content,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      usage,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : streamed.finishReason,
+    };
+    yield { type: 'usage', usage };
+    yield { type: 'done', response };
+  }
+  
+  estimateTokens(text: string): number {
+    // Rough estimate: ~4 chars per token
+    return Math.ceil(text.length / 4);
+  }
+  
+  /**
+   * Recognize `{ "name": ..., "arguments": {...} }` (or `parameters`) emitted as plain text
+   */
+  private parseInlineToolCall(content: string, toolNames: string[]): ToolCall | null {
+    const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+      const parsed: unknown = JSON.parse(json);
+      if (!parsed || typeof parsed !== 'object') return null;
+      const call = parsed as { name?: unknown; arguments?: unknown; parameters?: unknown };
+      if (typeof call.name !== 'string' || !toolNames.includes(call.name)) return null;
+      const args = call.arguments ?? call.parameters ?? {};
+      return {
+        id: `call_${++this.callCounter}`,
+        name: call.name,
+        arguments: typeof args === 'string' ? args : JSON.stringify(args),
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// MESSAGE ENCODING
+// ============================================================================
+
+/**
+ * Accept tools in either OpenAI or Anthropic format
+ */
+function normalizeTools(
+  tools: readonly OpenAIFunction[] | readonly AnthropicTool[]
+): OpenAIFunction[] {
+  return (tools as ReadonlyArray<OpenAIFunction | AnthropicTool>).map(t => ({
+    name: t.name,
+    description: t.description,
+    parameters: 'input_schema' in t ? t.input_schema : t.parameters,
+  }));
+}
+
+/**
+ * Turn the forced structured-output tool call back into JSON content
+ */
+function unwrapStructuredToolCall(request: LLMRequest, response: LLMResponse): LLMResponse {
+  if (!request.responseSchema || request.tools?.length) return response;
+  
+  const call = response.toolCalls?.find(tc => tc.name === request.responseSchema!.name);
+  if (!call) return response;
+  
+  return {
+    content: call.arguments,
+    usage: response.usage,
+    finishReason: 'stop',
+    ...(response.model ? { model: response.model } : {}),
+  };
+}
+
+/**
+ * Build chat.completions options (shared by OpenAI and OpenAI-compatible servers)
+ */
+function buildOpenAIOptions(
+  config: LLMConfig,
+  request: LLMRequest,
+  { jsonSchema = true }: { jsonSchema?: boolean } = {}
+): OpenAICompletionOptions {
+  const options: OpenAICompletionOptions = {
+    model: config.model,
+    messages: toOpenAIMessages(request.messages),
+    max_tokens: config.maxTokens ?? 4096,
+    temperature: config.temperature ?? 0.7,
+  };
+
+  if (request.tools && request.tools.length > 0) {
+    options.tools = normalizeTools(request.tools).map(t => ({
+      type: 'function' as const,
+      function: {
+        name: t.name,
+        description: t.description,
+        parameters: t.parameters,
+      },
+    }));
+
+    if (request.toolChoice) {
+      options.tool_choice = typeof request.toolChoice === 'string'
+        ? request.toolChoice
+        : { type: 'function', function: { name: request.toolChoice.name } };
+    }
+  }
+
+  if (request.responseSchema && jsonSchema) {
+    options.response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: request.responseSchema.name,
+        ...(request.responseSchema.description ? { description: request.responseSchema.description } : {}),
+        schema: request.responseSchema.schema,
+        strict: false,
+      },
+    };
+  } else if (request.responseFormat === 'json' || request.responseSchema) {
+    options.response_format = { type: 'json_object' };
+  }
+
+  return options;
+}
+
+function mapOpenAIFinishReason(reason: string | null): LLMResponse['finishReason'] {
+  switch (reason) {
+    case 'stop': return 'stop';
+    case 'tool_calls': return 'tool_calls';
+    case 'length': return 'length';
+    case 'content_filter': return 'content_filter';
+    default: return 'stop';
+  }
+}
+
+/**
+ * Emit text and tool-call events for chat.completions stream chunks (shared by
+ * OpenAI and OpenAI-compatible servers) and return the assembled response
+ */
+async function* readOpenAIChunks(
+  chunks: AsyncIterable<OpenAIStreamChunk>
+): AsyncGenerator<LLMStreamEvent, LLMResponse> {
+  let content = '';
+  let finishReason: string | null = null;
+  let usage: LLMResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const toolCalls = new Map<number, ToolCall>();
+
+  for await (const chunk of chunks) {
+    if (chunk.usage) {
+      usage = {
+        promptTokens: chunk.usage.prompt_tokens,
+        completionTokens: chunk.usage.completion_tokens,
+        totalTokens: chunk.usage.total_tokens,
+      };
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) {
+      finishReason = choice.finish_reason;
+    }
+
+    if (choice.delta.content) {
+      content += choice.delta.content;
+      yield { type: 'text', delta: choice.delta.content };
+    }
+
+    for (const tc of choice.delta.tool_calls ?? []) {
+      const existing = toolCalls.get(tc.index) ?? { id: '', name: '', arguments: '' };
+      const argumentsDelta = tc.function?.arguments ?? '';
+      toolCalls.set(tc.index, {
+        id: tc.id ?? existing.id,
+        name: tc.function?.name ?? existing.name,
+        arguments: existing.arguments + argumentsDelta,
+      });
+      yield {
+        type: 'tool_call',
+        index: tc.index,
+        ...(tc.id ? { id: tc.id } : {}),
+        ...(tc.function?.name ? { name: tc.function.name } : {}),
+        argumentsDelta,
+      };
+    }
+  }
+
+  const calls = [...toolCalls.entries()].sort(([a], [b]) => a - b).map(([, tc]) => tc);
+  return {
+    content,
+    ...(calls.length > 0 && { toolCalls: calls }),
+    usage,
+    finishReason: mapOpenAIFinishReason(finishReason),
+  };
+}
+
+/**
+ * Encode messages for the OpenAI chat.completions API
+ */
+function toOpenAIMessages(messages: readonly LLMMessage[]): OpenAIChatMessage[] {
+  return messages.map((m): OpenAIChatMessage => {
+    if (m.role === 'tool') {
+      return { role: 'tool', content: m.content, tool_call_id: m.tool_call_id ?? '' };
+    }
+    
+    if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map(tc => ({
+          id: tc.id,
+          type: 'function' as const,
+          function: { name: tc.name, arguments: tc.arguments },
+        })),
+      };
+    }
+    
+    return {
+      role: m.role,
+      content: m.content,
+      ...(m.name && { name: m.name }),
+    };
+  });
+}
+
+/**
+ * Encode messages for the Anthropic messages API.
+ * Tool results become `tool_result` blocks in a user turn and consecutive
+ * turns from the same role are merged, as the API expects alternating roles.
+ */
+function toAnthropicMessages(messages: readonly LLMMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+  
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+    
+    let role: 'user' | 'assistant';
+    let blocks: AnthropicContentBlock[];
+    
+    if (m.role === 'tool') {
+      role = 'user';
+      blocks = [{ type: 'tool_result', tool_use_id: m.tool_call_id ?? '', content: m.content }];
+    } else if (m.role === 'assistant') {
+      role = 'assistant';
+      blocks = [
+        ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+        ...(m.toolCalls ?? []).map(tc => ({
+          type: 'tool_use' as const,
+          id: tc.id,
+          name: tc.name,
+          input: parseToolInput(tc.arguments),
+        })),
+      ];
+    } else {
+      role = 'user';
+      blocks = [{ type: 'text', text: m.content }];
+    }
+    
+    const previous = result[result.length - 1];
+    if (previous && previous.role === role) {
+      previous.content = [...toContentBlocks(previous.content), ...blocks];
+    } else if (blocks.length === 1 && blocks[0]!.type === 'text') {
+      result.push({ role, content: blocks[0]!.text });
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+  
+  return result;
+}
+
+function toContentBlocks(content: string | AnthropicContentBlock[]): AnthropicContentBlock[] {
+  return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+}
+
+/**
+ * Encode messages as Gemini `contents`.
+ * Tool results become `functionResponse` parts, matched to their call by id.
+ */
+function toGeminiContents(messages: readonly LLMMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+  const toolNames = new Map<string, string>();
+  
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+    
+    let role: GeminiContent['role'];
+    let parts: GeminiPart[];
+    
+    if (m.role === 'tool') {
+      const name = m.name ?? toolNames.get(m.tool_call_id ?? '') ?? 'unknown';
+      role = 'user';
+      parts = [{ functionResponse: { name, response: toFunctionResponse(m.content) } }];
+    } else if (m.role === 'assistant') {
+      (m.toolCalls ?? []).forEach(tc => toolNames.set(tc.id, tc.name));
+      role = 'model';
+      parts = [
+        ...(m.content ? [{ text: m.content }] : []),
+        ...(m.toolCalls ?? []).map(tc => ({
+          functionCall: { name: tc.name, args: parseToolInput(tc.arguments) as Record<string, unknown> },
+        })),
+      ];
+    } else {
+      role = 'user';
+      parts = [{ text: m.content }];
+    }
+    
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+  
+  return contents;
+}
+
+/**
+ * Gemini function responses must be objects: a JSON object is sent as is, any
+ * other output is wrapped
+ */
+function toFunctionResponse(content: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Not JSON
+  }
+  return { content };
+}
+
+/**
+ * POST a JSON body and parse the JSON reply, surfacing HTTP errors with their status
+ */
+async function postJSON<T>(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) throw createAbortError(signal);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    
+    if (!response.ok) {
+      throw new LLMProviderError(
+        provider,
+        response.status,
+        await response.text().catch(() => ''),
+        parseRetryAfter(response.headers?.get('retry-after'))
+      );
+    }
+    
+    return await response.json() as T;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+    if (controller.signal.aborted) {
+      throw new Error(`${provider} request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * POST a JSON body and yield the JSON `data:` payloads of the server-sent event
+ * reply until `[DONE]`. The timeout covers the whole stream.
+ */
+async function* postEventStream<T>(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  if (signal?.aborted) throw createAbortError(signal);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    
+    if (!response.ok) {
+      throw new LLMProviderError(
+        provider,
+        response.status,
+        await response.text().catch(() => ''),
+        parseRetryAfter(response.headers?.get('retry-after'))
+      );
+    }
+    if (!response.body) {
+      throw new Error(`${provider} returned an empty stream`);
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+      
+      for (const line of lines) {
+        const data = /^data:\s?(.*)$/.exec(line)?.[1]?.trim();
+        if (!data) continue;
+        if (data === '[DONE]') return;
+        yield JSON.parse(data) as T;
+      }
+      if (done) return;
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+    if (controller.signal.aborted) {
+      throw new Error(`${provider} request timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    // Release the connection when the consumer stops early
+    controller.abort();
+  }
+}
+
+/**
+ * Run an SDK call, reporting a cancelled request as an AbortError
+ */
+async function callSDK<T>(request: LLMRequest, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw toAbortAware(request, error);
+  }
+}
+
+/**
+ * Forward an SDK stream, reporting a cancelled request as an AbortError
+ */
+async function* streamSDK(
+  request: LLMRequest,
+  events: () => AsyncGenerator<LLMStreamEvent>
+): AsyncGenerator<LLMStreamEvent> {
+  try {
+    yield* events();
+  } catch (error) {
+    throw toAbortAware(request, error);
+  }
+}
+
+/**
+ * The SDKs reject a cancelled request with their own APIUserAbortError, which
+ * would otherwise count as a provider failure (and trigger fallback or retries)
+ */
+function toAbortAware(request: LLMRequest, error: unknown): unknown {
+  return request.signal?.aborted ? createAbortError(request.signal) : error;
+}
+
+/**
+ * Per-request options for the SDK clients (cancellation)
+ */
+function requestOptions(request: LLMRequest): SDKRequestOptions {
+  return request.signal ? { signal: request.signal } : {};
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return JSON.parse(args || '{}');
+  } catch {
+    return {};
+  }
+}
+
 // ============================================================================
 // FACTORY FUNCTION
 // ============================================================================
@@ -241,6 +1095,12 @@ export function createLLMProvider(config: LLMConfig): LLMProvider {
       return new OpenAIProvider(config);
     case 'anthropic':
       return new AnthropicProvider(config);
+    case 'google':
+      return new GoogleProvider(config);
+    case 'local':
+      return new LocalProvider(config);
+    case 'mock':
+      throw new Error('Mock providers carry a script: pass a MockLLMProvider instance instead of a config');
     default:
       throw new Error(`Unsupported LLM provider: ${config.provider}`);
   }
@@ -250,17 +1110,36 @@ export function createLLMProvider(config: LLMConfig): LLMProvider {
 // TYPE DECLARATIONS (for dynamic imports)
 // ============================================================================
 
+interface SDKRequestOptions {
+  signal?: AbortSignal;
+}
+
 type OpenAIClient = {
   chat: {
     completions: {
-      create: (options: OpenAICompletionOptions) => Promise<OpenAICompletionResponse>;
+      create: {
+        (options: OpenAICompletionOptions, requestOptions?: SDKRequestOptions): Promise<OpenAICompletionResponse>;
+        (options: OpenAICompletionOptions & {
+          stream: true;
+          stream_options?: { include_usage: boolean };
+        }, requestOptions?: SDKRequestOptions): Promise<AsyncIterable<OpenAIStreamChunk>>;
+      };
     };
   };
 };
 
+type OpenAIChatMessage =
+  | { role: 'system' | 'user' | 'assistant'; content: string; name?: string }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+    }
+  | { role: 'tool'; content: string; tool_call_id: string };
+
 interface OpenAICompletionOptions {
   model: string;
-  messages: Array<{ role: string; content: string; name?: string }>;
+  messages: OpenAIChatMessage[];
   max_tokens?: number;
   temperature?: number;
   tools?: Array<{
@@ -271,7 +1150,13 @@ interface OpenAICompletionOptions {
       parameters: unknown;
     };
   }>;
-  response_format?: { type: 'json_object' };
+  tool_choice?: 'auto' | 'required' | 'none' | { type: 'function'; function: { name: string } };
+  response_format?:
+    | { type: 'json_object' }
+    | {
+        type: 'json_schema';
+        json_schema: { name: string; description?: string; schema: unknown; strict: boolean };
+      };
 }
 
 interface OpenAICompletionResponse {
@@ -295,22 +1180,58 @@ interface OpenAICompletionResponse {
   };
 }
 
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
 type AnthropicClient = {
   messages: {
-    create: (options: AnthropicCompletionOptions) => Promise<AnthropicCompletionResponse>;
+    create: {
+      (options: AnthropicCompletionOptions, requestOptions?: SDKRequestOptions): Promise<AnthropicCompletionResponse>;
+      (options: AnthropicCompletionOptions & { stream: true }, requestOptions?: SDKRequestOptions): Promise<AsyncIterable<AnthropicStreamEvent>>;
+    };
   };
 };
 
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
 interface AnthropicCompletionOptions {
   model: string;
   max_tokens: number;
-  messages: Array<{ role: string; content: string }>;
+  messages: AnthropicMessage[];
   system?: string;
   tools?: Array<{
     name: string;
     description: string;
     input_schema: unknown;
   }>;
+  tool_choice?: { type: 'auto' } | { type: 'any' } | { type: 'none' } | { type: 'tool'; name: string };
 }
 
 interface AnthropicCompletionResponse {
@@ -324,3 +1245,87 @@ interface AnthropicCompletionResponse {
   };
   stop_reason: string | null;
 }
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { usage: { input_tokens: number; output_tokens: number } } }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: { type: 'text'; text: string } | { type: 'tool_use'; id: string; name: string; input: unknown };
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta: { type: 'text_delta'; text: string } | { type: 'input_json_delta'; partial_json: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | { type: 'message_delta'; delta: { stop_reason: string | null }; usage: { output_tokens: number } }
+  | { type: 'message_stop' };
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: Array<{ text: string }> };
+  tools?: Array<{
+    functionDeclarations: Array<{
+      name: string;
+      description: string;
+      parameters?: unknown;
+    }>;
+  }>;
+  toolConfig?: {
+    functionCallingConfig: {
+      mode: 'AUTO' | 'ANY' | 'NONE';
+      allowedFunctionNames?: string[];
+    };
+  };
+  generationConfig?: {
+    maxOutputTokens?: number;
+    temperature?: number;
+    responseMimeType?: string;
+  };
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { role: string; parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+interface LocalCompletionResponse {
+  choices?: Array<{
+    message: {
+      content: string | null;
+      tool_calls?: Array<{
+        id?: string;
+        function: {
+          name: string;
+          arguments: string | Record<string, unknown>;
+        };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview MockLLMProvider - Deterministic scripted provider for offline tests
+ */
+
+import type {
+  LLMConfig,
+  LLMRequest,
+  LLMResponse,
+  TokenUsage,
+  ToolCall,
+} from '../types';
+import { LLMProvider, LLMProviderError } from './LLMProvider';
+import { abortableSleep, throwIfAborted } from '../utils/abort';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Provider failures the mock can simulate.
+ * Messages match the patterns ErrorHandler uses to classify real provider errors.
+ */
+export type MockErrorKind = 'rate_limit' | 'context_length' | 'timeout' | 'server_error';
+
+export interface MockToolCall {
+  readonly name: string;
+  /** JSON string or plain object (serialized for you) */
+  readonly arguments?: string | Record<string, unknown>;
+  readonly id?: string;
+}
+
+export interface MockResponseSpec {
+  readonly content?: string;
+  readonly toolCalls?: readonly MockToolCall[];
+  readonly usage?: Partial<TokenUsage>;
+  readonly finishReason?: LLMResponse['finishReason'];
+  /** Throw instead of responding */
+  readonly error?: MockErrorKind | Error;
+  /** Simulated latency in milliseconds */
+  readonly delayMs?: number;
+}
+
+/** A plain string is shorthand for `{ content }` */
+export type MockResponse = string | MockResponseSpec;
+
+export type MockMatcher = string | RegExp | ((request: LLMRequest) => boolean);
+
+export interface MockRule {
+  /** Substring or pattern tested against the prompt text, or a predicate on the request */
+  readonly match: MockMatcher;
+  readonly response: MockResponse;
+  /** How many times the rule may answer (default: unlimited) */
+  readonly times?: number;
+}
+
+export type MockHandler = (
+  request: LLMRequest,
+  callIndex: number
+) => MockResponse | undefined | Promise<MockResponse | undefined>;
+
+export interface MockLLMConfig extends Partial<Omit<LLMConfig, 'provider'>> {
+  /** Responses returned in order, one per call */
+  readonly responses?: readonly MockResponse[];
+  /** Prompt matchers, checked before the ordered responses */
+  readonly rules?: readonly MockRule[];
+  /** Computes a response per call; `undefined` falls through to rules and responses */
+  readonly handler?: MockHandler;
+  /** Returned when nothing else matches (otherwise the call throws) */
+  readonly fallback?: MockResponse;
+  /** Usage reported for every call unless the response overrides it */
+  readonly usage?: Partial<TokenUsage>;
+}
+
+// ============================================================================
+// MOCK PROVIDER
+// ============================================================================
+
+export class MockLLMProvider extends LLMProvider {
+  private readonly responses: MockResponse[];
+  private readonly rules: Array<MockRule & { remaining: number }>;
+  private readonly handler: MockHandler | null;
+  private readonly fallback: MockResponse | null;
+  private readonly usage: Partial<TokenUsage>;
+  private readonly requests: LLMRequest[] = [];
+  private callCounter = 0;
+
+  constructor(config: MockLLMConfig = {}) {
+    const { responses, rules, handler, fallback, usage, ...llmConfig } = config;
+    super({ model: 'mock', ...llmConfig, provider: 'mock' });
+    this.responses = [...(responses ?? [])];
+    this.rules = (rules ?? []).map(rule => ({ ...rule, remaining: rule.times ?? Infinity }));
+    this.handler = handler ?? null;
+    this.fallback = fallback ?? null;
+    this.usage = usage ?? {};
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    throwIfAborted(request.signal);
+    const callIndex = this.requests.length;
+    this.requests.push(request);
+
+    const spec = toSpec(await this.resolve(request, callIndex));
+
+    if (spec.delayMs) {
+      await abortableSleep(spec.delayMs, request.signal);
+    }
+    if (spec.error) {
+      throw typeof spec.error === 'string' ? createMockError(spec.error) : spec.error;
+    }
+
+    const content = spec.content ?? '';
+    const toolCalls: ToolCall[] = (spec.toolCalls ?? []).map(tc => ({
+      id: tc.id ?? `call_${++this.callCounter}`,
+      name: tc.name,
+      arguments: typeof tc.arguments === 'string' ? tc.arguments : JSON.stringify(tc.arguments ?? {}),
+    }));
+
+    const promptTokens = spec.usage?.promptTokens ?? this.usage.promptTokens
+      ?? this.estimateTokens(request.messages.map(m => m.content).join('\n'));
+    const completionTokens = spec.usage?.completionTokens ?? this.usage.completionTokens
+      ?? this.estimateTokens(content + toolCalls.map(tc => tc.arguments).join(''));
+
+    return {
+      content,
+      ...(toolCalls.length > 0 && { toolCalls }),
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: spec.usage?.totalTokens ?? this.usage.totalTokens ?? promptTokens + completionTokens,
+      },
+      finishReason: spec.finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+    };
+  }
+
+  estimateTokens(text: string): number {
+    // Rough estimate: ~4 chars per token
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Append responses to the ordered script
+   */
+  enqueue(...responses: MockResponse[]): this {
+    this.responses.push(...responses);
+    return this;
+  }
+
+  /**
+   * Every request received, in call order
+   */
+  getRequests(): readonly LLMRequest[] {
+    return [...this.requests];
+  }
+
+  getLastRequest(): LLMRequest | undefined {
+    return this.requests[this.requests.length - 1];
+  }
+
+  getCallCount(): number {
+    return this.requests.length;
+  }
+
+  /**
+   * Ordered responses not yet consumed
+   */
+  getPendingCount(): number {
+    return this.responses.length;
+  }
+
+  /**
+   * Forget recorded requests (the script is left untouched)
+   */
+  clearRequests(): void {
+    this.requests.length = 0;
+  }
+
+  private async resolve(request: LLMRequest, callIndex: number): Promise<MockResponse> {
+    if (this.handler) {
+      const handled = await this.handler(request, callIndex);
+      if (handled !== undefined) return handled;
+    }
+
+    const prompt = request.messages.map(m => m.content).join('\n');
+    const rule = this.rules.find(r => r.remaining > 0 && matches(r.match, request, prompt));
+    if (rule) {
+      rule.remaining--;
+      return rule.response;
+    }
+
+    const next = this.responses.shift();
+    if (next !== undefined) return next;
+
+    if (this.fallback !== null) return this.fallback;
+
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    throw new Error(
+      `MockLLMProvider: no scripted response for call #${callIndex + 1}` +
+      (lastUser ? ` (last user message: "${lastUser.content.slice(0, 120)}")` : '')
+    );
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toSpec(response: MockResponse): MockResponseSpec {
+  return typeof response === 'string' ? { content: response } : response;
+}
+
+function matches(matcher: MockMatcher, request: LLMRequest, prompt: string): boolean {
+  if (typeof matcher === 'string') return prompt.includes(matcher);
+  if (matcher instanceof RegExp) return matcher.test(prompt);
+  return matcher(request);
+}
+
+function createMockError(kind: MockErrorKind): Error {
+  switch (kind) {
+    case 'rate_limit':
+      return new LLMProviderError('Mock', 429, 'Rate limit exceeded: too many requests');
+    case 'context_length':
+      return new LLMProviderError('Mock', 400, 'Maximum context length exceeded');
+    case 'server_error':
+      return new LLMProviderError('Mock', 500, 'Internal server error');
+    case 'timeout':
+      return new Error('Mock request timed out');
+  }
+}
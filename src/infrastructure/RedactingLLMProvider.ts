@@ -0,0 +1,72 @@
+/**
+ * @fileoverview RedactingLLMProvider - Scrubs sensitive text from every request
+ */
+
+import type {
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamEvent,
+} from '../types';
+import { LLMProvider } from './LLMProvider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Replaces sensitive text, e.g. a SecretVault
+ */
+export interface TextRedactor {
+  redact(text: string): string;
+}
+
+// ============================================================================
+// REDACTING PROVIDER
+// ============================================================================
+
+/**
+ * Redacts message contents and tool call arguments before they reach the
+ * wrapped provider, so nothing sensitive is sent to (or recorded by) it
+ */
+export class RedactingLLMProvider extends LLMProvider {
+  private readonly inner: LLMProvider;
+  private readonly redactor: TextRedactor;
+
+  constructor(inner: LLMProvider, redactor: TextRedactor) {
+    super(inner.getConfig());
+    this.inner = inner;
+    this.redactor = redactor;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    return this.inner.complete(this.redactRequest(request));
+  }
+
+  override async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    yield* this.inner.stream(this.redactRequest(request));
+  }
+
+  estimateTokens(text: string): number {
+    return this.inner.estimateTokens(text);
+  }
+
+  getInner(): LLMProvider {
+    return this.inner;
+  }
+
+  private redactRequest(request: LLMRequest): LLMRequest {
+    return { ...request, messages: request.messages.map(message => this.redactMessage(message)) };
+  }
+
+  private redactMessage(message: LLMMessage): LLMMessage {
+    const { redactor } = this;
+    return {
+      ...message,
+      content: redactor.redact(message.content),
+      ...(message.toolCalls
+        ? { toolCalls: message.toolCalls.map(call => ({ ...call, arguments: redactor.redact(call.arguments) })) }
+        : {}),
+    };
+  }
+}
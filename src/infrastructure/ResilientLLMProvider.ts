@@ -0,0 +1,335 @@
+/**
+ * @fileoverview ResilientLLMProvider - Rate limiting, retries and circuit breaking
+ *
+ * Wraps any provider with:
+ * - token buckets for requests and tokens per minute
+ * - exponential backoff with jitter, honoring Retry-After
+ * - a circuit breaker that fails fast while a model keeps failing
+ */
+
+import type {
+  CircuitState,
+  LLMRequest,
+  LLMResilienceConfig,
+  LLMResponse,
+  LLMStreamEvent,
+} from '../types';
+import { LLMProvider, parseRetryAfter } from './LLMProvider';
+import { abortableSleep, isAbortError, throwIfAborted } from '../utils/abort';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RetryEvent {
+  readonly model: string;
+  /** Retry number, starting at 1 */
+  readonly attempt: number;
+  readonly delayMs: number;
+  readonly error: Error;
+  /** Whether the delay came from a Retry-After hint */
+  readonly retryAfter: boolean;
+}
+
+export interface ThrottleEvent {
+  readonly model: string;
+  readonly waitMs: number;
+  readonly limit: 'requests' | 'tokens';
+}
+
+export interface ResilienceOptions extends LLMResilienceConfig {
+  /** Decide whether an error is transient (default: 408/409/429/5xx and network errors) */
+  isRetryable?: (error: Error) => boolean;
+  onRetry?: (event: RetryEvent) => void;
+  onThrottle?: (event: ThrottleEvent) => void;
+  onCircuitChange?: (state: CircuitState, model: string) => void;
+}
+
+/**
+ * Thrown without calling the provider while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly retryInMs: number;
+
+  constructor(model: string, failures: number, retryInMs: number) {
+    super(`Circuit open for ${model} after ${failures} consecutive failures; next attempt in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    this.retryInMs = retryInMs;
+  }
+}
+
+// ============================================================================
+// RESILIENT PROVIDER
+// ============================================================================
+
+export class ResilientLLMProvider extends LLMProvider {
+  private readonly inner: LLMProvider;
+  private readonly options: Required<Omit<ResilienceOptions, 'requestsPerMinute' | 'tokensPerMinute' | 'onRetry' | 'onThrottle' | 'onCircuitChange'>>;
+  private readonly hooks: Pick<ResilienceOptions, 'onRetry' | 'onThrottle' | 'onCircuitChange'>;
+  private readonly requestBucket: TokenBucket | null;
+  private readonly tokenBucket: TokenBucket | null;
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(inner: LLMProvider, options: ResilienceOptions = {}) {
+    super(inner.getConfig());
+    this.inner = inner;
+    this.options = {
+      maxRetries: options.maxRetries ?? 3,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 60000,
+      jitter: options.jitter ?? true,
+      failureThreshold: options.failureThreshold ?? 5,
+      resetTimeoutMs: options.resetTimeoutMs ?? 30000,
+      isRetryable: options.isRetryable ?? isTransientError,
+    };
+    this.hooks = {
+      ...(options.onRetry ? { onRetry: options.onRetry } : {}),
+      ...(options.onThrottle ? { onThrottle: options.onThrottle } : {}),
+      ...(options.onCircuitChange ? { onCircuitChange: options.onCircuitChange } : {}),
+    };
+    this.requestBucket = options.requestsPerMinute ? new TokenBucket(options.requestsPerMinute) : null;
+    this.tokenBucket = options.tokensPerMinute ? new TokenBucket(options.tokensPerMinute) : null;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    for (let attempt = 0; ; attempt++) {
+      const estimate = await this.acquire(request);
+      try {
+        const response = await this.inner.complete(request);
+        this.recordSuccess(response, estimate);
+        return response;
+      } catch (error) {
+        await this.handleFailure(toError(error), attempt, request.signal);
+      }
+    }
+  }
+
+  /**
+   * Retries only while nothing has been emitted; a stream failing midway propagates
+   */
+  override async *stream(request: LLMRequest): AsyncGenerator<LLMStreamEvent> {
+    for (let attempt = 0; ; attempt++) {
+      const estimate = await this.acquire(request);
+      let started = false;
+      try {
+        for await (const event of this.inner.stream(request)) {
+          started = true;
+          if (event.type === 'done') {
+            this.recordSuccess(event.response, estimate);
+          }
+          yield event;
+        }
+        return;
+      } catch (error) {
+        const err = toError(error);
+        if (started) {
+          this.recordFailure();
+          throw err;
+        }
+        await this.handleFailure(err, attempt, request.signal);
+      }
+    }
+  }
+
+  estimateTokens(text: string): number {
+    return this.inner.estimateTokens(text);
+  }
+
+  getCircuitState(): CircuitState {
+    return this.circuit;
+  }
+
+  /**
+   * Wait for rate-limit capacity and the circuit; returns the tokens charged
+   */
+  private async acquire(request: LLMRequest): Promise<number> {
+    throwIfAborted(request.signal);
+    this.checkCircuit();
+
+    const estimate = this.tokenBucket
+      ? this.inner.estimateTokens(request.messages.map(m => m.content).join('\n'))
+      : 0;
+
+    for (;;) {
+      const requestWait = this.requestBucket?.waitTime(1) ?? 0;
+      const tokenWait = this.tokenBucket?.waitTime(estimate) ?? 0;
+      const waitMs = Math.max(requestWait, tokenWait);
+      if (waitMs <= 0) break;
+
+      this.hooks.onThrottle?.({
+        model: this.config.model,
+        waitMs,
+        limit: requestWait >= tokenWait ? 'requests' : 'tokens',
+      });
+      await abortableSleep(waitMs, request.signal);
+    }
+
+    this.requestBucket?.take(1);
+    this.tokenBucket?.take(estimate);
+    return estimate;
+  }
+
+  private async handleFailure(error: Error, attempt: number, signal?: AbortSignal): Promise<void> {
+    // A cancelled call says nothing about the provider's health
+    const retryable = !isAbortError(error) && this.options.isRetryable(error);
+    if (retryable) {
+      this.recordFailure();
+    } else {
+      this.trialInFlight = false;
+    }
+
+    if (!retryable || attempt >= this.options.maxRetries || this.circuit === 'open') {
+      throw error;
+    }
+
+    const retryAfterMs = getRetryAfterMs(error);
+    const delayMs = Math.min(retryAfterMs ?? this.backoff(attempt), this.options.maxDelayMs);
+    this.hooks.onRetry?.({
+      model: this.config.model,
+      attempt: attempt + 1,
+      delayMs,
+      error,
+      retryAfter: retryAfterMs !== undefined,
+    });
+    await abortableSleep(delayMs, signal);
+  }
+
+  private backoff(attempt: number): number {
+    const delay = this.options.baseDelayMs * Math.pow(2, attempt);
+    // Equal jitter: keep half the delay, randomize the rest
+    return this.options.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+  }
+
+  private recordSuccess(response: LLMResponse, estimate: number): void {
+    // Settle the token bucket with what the call actually cost
+    this.tokenBucket?.take(response.usage.totalTokens - estimate);
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.setCircuit('closed');
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    const threshold = this.options.failureThreshold;
+    if (this.circuit === 'half_open' || (threshold > 0 && this.consecutiveFailures >= threshold)) {
+      this.openedAt = Date.now();
+      this.setCircuit('open');
+    }
+  }
+
+  private checkCircuit(): void {
+    if (this.circuit === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.options.resetTimeoutMs) {
+        throw new CircuitOpenError(this.config.model, this.consecutiveFailures, this.options.resetTimeoutMs - elapsed);
+      }
+      this.setCircuit('half_open');
+    }
+
+    if (this.circuit === 'half_open') {
+      // Let a single trial request through
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.config.model, this.consecutiveFailures, 0);
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  private setCircuit(state: CircuitState): void {
+    if (this.circuit === state) return;
+    this.circuit = state;
+    this.hooks.onCircuitChange?.(state, this.config.model);
+  }
+}
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+/**
+ * Bucket holding up to `perMinute` units, refilled continuously
+ */
+class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.refillPerMs = perMinute / 60000;
+    this.available = perMinute;
+  }
+
+  /**
+   * Milliseconds until `cost` units are available (requests larger than the bucket wait for a full one)
+   */
+  waitTime(cost: number): number {
+    this.refill();
+    const missing = Math.min(cost, this.capacity) - this.available;
+    return missing > 0 ? Math.ceil(missing / this.refillPerMs) : 0;
+  }
+
+  /**
+   * Remove units; negative costs refund, and the balance may go into debt
+   */
+  take(cost: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available - cost);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Rate limits, timeouts, server errors and dropped connections
+ */
+export function isTransientError(error: Error): boolean {
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  return /rate limit|too many requests|overloaded|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|fetch failed|network/i
+    .test(error.message);
+}
+
+/**
+ * Retry-After hint from LLMProviderError or SDK errors exposing response headers
+ */
+function getRetryAfterMs(error: Error): number | undefined {
+  const { retryAfterMs, headers } = error as { retryAfterMs?: unknown; headers?: unknown };
+  if (typeof retryAfterMs === 'number') return retryAfterMs;
+  if (!headers || typeof headers !== 'object') return undefined;
+
+  const get = (name: string): string | undefined => {
+    if (typeof (headers as { get?: unknown }).get === 'function') {
+      return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+    }
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+
+  // An empty header would parse as 0; treat it (and any non-number) as absent
+  const msHeader = get('retry-after-ms')?.trim();
+  const retryAfterMsHeader = msHeader ? Number(msHeader) : NaN;
+  return Number.isFinite(retryAfterMsHeader) && retryAfterMsHeader >= 0
+    ? retryAfterMsHeader
+    : parseRetryAfter(get('retry-after'));
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Structured output - zod-validated JSON responses with bounded re-prompting
+ */
+
+import type { z } from 'zod';
+import type {
+  LLMMessage,
+  LLMRequest,
+  LLMResponse,
+  TokenUsage,
+} from '../types';
+import { zodToJsonSchema } from '../utils/zodToJsonSchema';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Anything that can complete a request (a provider, or an agent's wrapped call)
+ */
+export interface Completer {
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface StructuredOptions {
+  /** Schema name sent to the provider (default: "response") */
+  name?: string;
+  description?: string;
+  /** Re-prompts after the first invalid answer (default: 2) */
+  maxRetries?: number;
+}
+
+export interface StructuredResult<T> {
+  readonly data: T;
+  /** Last raw response */
+  readonly response: LLMResponse;
+  /** Usage summed over every attempt */
+  readonly usage: TokenUsage;
+  readonly attempts: number;
+}
+
+/**
+ * The model kept answering with output that does not match the schema
+ */
+export class StructuredOutputError extends Error {
+  readonly issues: readonly string[];
+  readonly content: string;
+  readonly attempts: number;
+  /** Usage summed over every attempt */
+  readonly usage: TokenUsage;
+
+  constructor(issues: readonly string[], content: string, attempts: number, usage: TokenUsage) {
+    super(`Invalid structured output after ${attempts} attempt(s): ${issues.join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.content = content;
+    this.attempts = attempts;
+    this.usage = usage;
+  }
+}
+
+// ============================================================================
+// COMPLETE STRUCTURED
+// ============================================================================
+
+/**
+ * Request JSON matching `schema`, validate it, and re-prompt with the
+ * validation errors until it parses or retries run out.
+ */
+export async function completeStructured<T extends z.ZodTypeAny>(
+  llm: Completer,
+  request: LLMRequest,
+  schema: T,
+  options: StructuredOptions = {}
+): Promise<StructuredResult<z.infer<T>>> {
+  const maxRetries = options.maxRetries ?? 2;
+  const responseSchema = {
+    name: options.name ?? 'response',
+    ...(options.description ? { description: options.description } : {}),
+    schema: zodToJsonSchema(schema),
+  };
+
+  const messages: LLMMessage[] = [...request.messages];
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let issues: string[] = [];
+  let content = '';
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    const response = await llm.complete({ ...request, messages, responseFormat: 'json', responseSchema });
+    usage = addUsage(usage, response.usage);
+    content = response.content;
+
+    const result = parseStructured(content, schema);
+    if (result.success) {
+      return { data: result.data, response, usage, attempts: attempt };
+    }
+
+    issues = result.issues;
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON schema:\n${issues.map(i => `- ${i}`).join('\n')}\n\nReturn corrected JSON only.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(issues, content, maxRetries + 1, usage);
+}
+
+/**
+ * Parse model output as JSON (tolerating code fences and surrounding prose) and validate it
+ */
+export function parseStructured<T extends z.ZodTypeAny>(
+  content: string,
+  schema: T
+): { success: true; data: z.infer<T> } | { success: false; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJSON(content));
+  } catch {
+    return { success: false, issues: ['Response is not valid JSON'] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function extractJSON(content: string): string {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced?.[1]) return fenced[1];
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return trimmed;
+
+  // Prose around a single JSON object
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
@@ -8,10 +8,16 @@ import type {
   ActionResult,
   ActionError,
   ActionErrorCode,
+  ApprovalRecord,
   ElementSnapshot,
 } from '../types';
-import type { BrowserAdapter } from '../infrastructure/BrowserAdapter';
+import type { AbortOptions, BrowserAdapter } from '../infrastructure/BrowserAdapter';
 import type { DOMDistiller } from './DOMDistiller';
+import type { ApprovalGate } from './ApprovalGate';
+import type { SecretVault } from './SecretVault';
+import type { PIIRedactor } from './PIIRedactor';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { isElementOf } from '../utils/dom';
 
 // ============================================================================
 // TYPES
@@ -21,6 +27,12 @@ export interface ActionExecutorConfig {
   defaultTimeout?: number;
   typeDelay?: number;
   scrollAmount?: number;
+  /** Holds actions matching the approval policy until they are decided */
+  approvalGate?: ApprovalGate;
+  /** Fills `{{secret:name}}` placeholders when typing (and only then) and redacts the values from results */
+  secrets?: SecretVault;
+  /** Restores `{{pii:...}}` tokens when typing, selecting or navigating */
+  pii?: PIIRedactor;
 }
 
 // ============================================================================
@@ -30,7 +42,10 @@ export interface ActionExecutorConfig {
 export class ActionExecutor {
   private browser: BrowserAdapter;
   private distiller: DOMDistiller;
-  private config: Required<ActionExecutorConfig>;
+  private config: Required<Omit<ActionExecutorConfig, 'approvalGate' | 'secrets' | 'pii'>>;
+  private approvalGate: ApprovalGate | null;
+  private secrets: SecretVault | null;
+  private pii: PIIRedactor | null;
   
   constructor(
     browser: BrowserAdapter,
@@ -39,6 +54,9 @@ export class ActionExecutor {
   ) {
     this.browser = browser;
     this.distiller = distiller;
+    this.approvalGate = config.approvalGate ?? null;
+    this.secrets = config.secrets ?? null;
+    this.pii = config.pii ?? null;
     this.config = {
       defaultTimeout: config.defaultTimeout ?? 5000,
       typeDelay: config.typeDelay ?? 50,
@@ -47,16 +65,29 @@ export class ActionExecutor {
   }
   
   /**
-   * Execute an action
+   * Execute an action.
+   * Failures (including approval denials) are returned as results; cancellation via
+   * `signal` rejects with an AbortError. Secret values never appear in results.
    */
   async execute<T extends ActionType>(
     action: T,
-    params: ActionParams[T]
+    requestedParams: ActionParams[T],
+    options: AbortOptions = {}
   ): Promise<ActionResult> {
     const startTime = Date.now();
     let before: ElementSnapshot | undefined;
     let after: ElementSnapshot | undefined;
     
+    throwIfAborted(options.signal);
+    
+    const approval = await this.review(action, requestedParams, options.signal);
+    if (approval?.decision.outcome === 'deny') {
+      return this.redact(this.deniedResult(action, requestedParams, approval, startTime));
+    }
+    const params = approval?.decision.outcome === 'edit'
+      ? approval.decision.params as ActionParams[T]
+      : requestedParams;
+    
     try {
       // Get element snapshot before action
       if ('index' in params && typeof params.index === 'number') {
@@ -64,7 +95,7 @@ export class ActionExecutor {
       }
       
       // Execute the action
-      await this.executeAction(action, params);
+      await this.executeAction(action, params, options);
       
       // Get element snapshot after action
       if (before) {
@@ -74,22 +105,25 @@ export class ActionExecutor {
       const duration = Date.now() - startTime;
       const verbalFeedback = this.generateFeedback(action, params, true);
       
-      return {
+      return this.redact({
         success: true,
         action,
         params,
         duration,
         ...(before ? { before } : {}),
         ...(after ? { after } : {}),
-        verbalFeedback,
-      };
+        verbalFeedback: approval ? `${describeApproval(approval)} ${verbalFeedback}` : verbalFeedback,
+        ...(approval ? { approval } : {}),
+      });
       
     } catch (error) {
+      if (isAbortError(error)) throw error;
+      
       const duration = Date.now() - startTime;
       const actionError = this.createError(error);
       const verbalFeedback = this.generateFeedback(action, params, false, actionError);
       
-      return {
+      return this.redact({
         success: false,
         action,
         params,
@@ -97,16 +131,79 @@ export class ActionExecutor {
         duration,
         ...(before ? { before } : {}),
         verbalFeedback,
-      };
+        ...(approval ? { approval } : {}),
+      });
     }
   }
   
+  /**
+   * The text the model meant to type: secret placeholders and PII tokens replaced by real values
+   */
+  private fillIn(text: string): string {
+    return this.restorePII(this.secrets ? this.secrets.resolve(text) : text);
+  }
+
+  /**
+   * PII tokens replaced by real values; secrets are only ever typed into fields
+   */
+  private restorePII(text: string): string {
+    return this.pii ? this.pii.restore(text) : text;
+  }
+  
+  /**
+   * Replace secret values in a result (typed values, snapshots, error messages) with placeholders
+   */
+  private redact(result: ActionResult): ActionResult {
+    return this.secrets ? this.secrets.redactDeep(result) : result;
+  }
+  
+  /**
+   * Ask the approval gate about the action; null when it needs no approval
+   */
+  private async review<T extends ActionType>(
+    action: T,
+    params: ActionParams[T],
+    signal?: AbortSignal
+  ): Promise<ApprovalRecord | null> {
+    if (!this.approvalGate) return null;
+    const index = 'index' in params && typeof params.index === 'number' ? params.index : null;
+    return this.approvalGate.review({
+      action,
+      params,
+      element: index !== null ? this.distiller.getElement(index) : null,
+    }, signal);
+  }
+  
+  private deniedResult(
+    action: ActionType,
+    params: ActionParams[ActionType],
+    approval: ApprovalRecord,
+    startTime: number
+  ): ActionResult {
+    const reason = 'reason' in approval.decision && approval.decision.reason ? `: ${approval.decision.reason}` : '';
+    return {
+      success: false,
+      action,
+      params,
+      error: {
+        code: 'APPROVAL_DENIED' as ActionErrorCode,
+        message: `Denied by approver${reason}`,
+        recoverable: false,
+        suggestion: 'Do not repeat this action; find another way or report that it cannot be done',
+      },
+      duration: Date.now() - startTime,
+      verbalFeedback: `Approver denied ${action}${reason}`,
+      approval,
+    };
+  }
+  
   /**
    * Execute specific action type
    */
   private async executeAction<T extends ActionType>(
     action: T,
-    params: ActionParams[T]
+    params: ActionParams[T],
+    { signal }: AbortOptions
   ): Promise<void> {
     switch (action) {
       case 'click': {
@@ -129,7 +226,10 @@ export class ActionExecutor {
         if (p.clearFirst) {
           await this.browser.clear(element);
         }
-        await this.browser.type(element, p.text, { delay: p.delay ?? this.config.typeDelay });
+        await this.browser.type(element, this.fillIn(p.text), {
+          delay: p.delay ?? this.config.typeDelay,
+          ...(signal ? { signal } : {}),
+        });
         break;
       }
       
@@ -143,7 +243,7 @@ export class ActionExecutor {
       case 'select': {
         const p = params as ActionParams['select'];
         const element = this.getElement(p.index);
-        await this.browser.select(element, p.value);
+        await this.browser.select(element, Array.isArray(p.value) ? p.value.map(v => this.restorePII(v)) : this.restorePII(p.value));
         break;
       }
       
@@ -196,7 +296,7 @@ export class ActionExecutor {
       
       case 'wait': {
         const p = params as ActionParams['wait'];
-        await this.browser.wait(p.duration);
+        await this.browser.wait(p.duration, signal ? { signal } : {});
         break;
       }
       
@@ -205,13 +305,18 @@ export class ActionExecutor {
         await this.browser.waitForSelector(p.selector, {
           timeout: p.timeout ?? this.config.defaultTimeout,
           ...(p.state ? { state: p.state } : {}),
+          ...(signal ? { signal } : {}),
         });
         break;
       }
       
       case 'navigate': {
         const p = params as ActionParams['navigate'];
-        await this.browser.navigate(p.url);
+        // A URL would carry the credential to whichever site it names
+        if (this.secrets?.mentions(p.url)) {
+          throw new Error('Secret placeholders can only be typed into fields, not used in URLs');
+        }
+        await this.browser.navigate(this.restorePII(p.url));
         break;
       }
       
@@ -255,13 +360,15 @@ export class ActionExecutor {
       if (!element) return undefined;
       
       const rect = element.getBoundingClientRect();
+      const id = this.distiller.getStableId(element);
       
       const snapshot: ElementSnapshot = {
         index,
+        ...(id ? { id } : {}),
         selector: element.id ? `#${element.id}` : element.tagName.toLowerCase(),
         exists: true,
         visible: rect.width > 0 && rect.height > 0,
-        ...(element instanceof HTMLInputElement ? { value: element.value } : {}),
+        ...(isElementOf(element, 'HTMLInputElement') ? { value: element.value } : {}),
         ...(element.textContent ? { text: element.textContent.slice(0, 100) } : {}),
         ...(rect.width > 0 ? { boundingBox: {
           x: rect.x,
@@ -334,3 +441,11 @@ export class ActionExecutor {
     }
   }
 }
+
+/**
+ * Feedback prefix telling the agent how its action was approved
+ */
+function describeApproval({ decision }: ApprovalRecord): string {
+  if (decision.outcome !== 'edit') return 'Approved.';
+  return `Approver changed the parameters to ${JSON.stringify(decision.params)}${decision.reason ? ` (${decision.reason})` : ''}.`;
+}
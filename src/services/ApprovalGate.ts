@@ -0,0 +1,166 @@
+/**
+ * @fileoverview ApprovalGate - Holds sensitive actions until a human approves them
+ */
+
+import type {
+  ActionType,
+  ApprovalDecision,
+  ApprovalElement,
+  ApprovalPolicy,
+  ApprovalRecord,
+  ApprovalRequest,
+  ApprovalRule,
+  Skill,
+} from '../types';
+import { raceAbort } from '../utils/abort';
+import { isElementOf } from '../utils/dom';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * An action or skill call about to run
+ */
+export interface ApprovalTarget {
+  readonly action?: ActionType;
+  readonly skill?: Pick<Skill, 'name' | 'category'>;
+  readonly params: unknown;
+  /** Element the action targets, if any */
+  readonly element?: Element | null;
+}
+
+export interface ApprovalGateOptions {
+  /** Delivers requests when the policy has no onApproval handler */
+  ask: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  taskId: () => string;
+  url: () => string;
+}
+
+/** Characters of element text shown to the approver */
+const MAX_ELEMENT_TEXT = 200;
+
+// ============================================================================
+// APPROVAL GATE CLASS
+// ============================================================================
+
+export class ApprovalGate {
+  private readonly policy: ApprovalPolicy;
+  private readonly options: ApprovalGateOptions;
+  private requestCount = 0;
+
+  constructor(policy: ApprovalPolicy, options: ApprovalGateOptions) {
+    this.policy = policy;
+    this.options = options;
+  }
+
+  /**
+   * Ask for approval when a rule matches the target; null when none is needed.
+   * Handler errors and timeouts count as denials.
+   */
+  async review(target: ApprovalTarget, signal?: AbortSignal): Promise<ApprovalRecord | null> {
+    const element = target.element ? describeElement(target.element) : undefined;
+    const matched = this.policy.rules.filter(rule => matchesRule(rule, target, element));
+    if (matched.length === 0) return null;
+
+    const request: ApprovalRequest = {
+      id: `approval_${++this.requestCount}`,
+      taskId: this.options.taskId(),
+      ...(target.action ? { action: target.action } : {}),
+      ...(target.skill ? { skill: target.skill.name } : {}),
+      params: target.params,
+      ...(element ? { element } : {}),
+      url: this.options.url(),
+      reasons: matched.map(rule => rule.reason ?? 'Matches an approval rule'),
+    };
+    return { request, decision: await this.decide(request, signal) };
+  }
+
+  private async decide(request: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+    const { onApproval, timeoutMs } = this.policy;
+    const pending = Promise.resolve()
+      .then(() => (onApproval ? onApproval(request) : this.options.ask(request)))
+      .catch((error: unknown): ApprovalDecision => ({
+        outcome: 'deny',
+        reason: `Approval failed: ${error instanceof Error ? error.message : String(error)}`,
+      }));
+    if (timeoutMs === undefined) return raceAbort(pending, signal);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<ApprovalDecision>(resolve => {
+      timer = setTimeout(() => resolve({ outcome: 'deny', reason: `No decision within ${timeoutMs}ms` }), timeoutMs);
+    });
+    try {
+      return await raceAbort(Promise.race([pending, timeout]), signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function matchesRule(rule: ApprovalRule, target: ApprovalTarget, element?: ApprovalElement): boolean {
+  const checks: boolean[] = [];
+  if (rule.actions) {
+    checks.push(target.action !== undefined && rule.actions.includes(target.action));
+  }
+  if (rule.skillCategories) {
+    checks.push(target.skill !== undefined && rule.skillCategories.includes(target.skill.category));
+  }
+  if (rule.elementText !== undefined) {
+    checks.push(element !== undefined && matchesPattern(rule.elementText, element.text));
+  }
+  if (rule.formAction !== undefined) {
+    checks.push(element?.formAction !== undefined && matchesPattern(rule.formAction, element.formAction));
+  }
+  return checks.length > 0 && checks.every(Boolean);
+}
+
+/** Strings match case-insensitively anywhere in the text */
+function matchesPattern(pattern: string | RegExp, text: string): boolean {
+  return typeof pattern === 'string'
+    ? text.toLowerCase().includes(pattern.toLowerCase())
+    : text.search(pattern) !== -1;
+}
+
+function describeElement(element: Element): ApprovalElement {
+  const labels = 'labels' in element ? Array.from((element as HTMLInputElement).labels ?? []) : [];
+  const value = isElementOf(element, 'HTMLInputElement') && ['submit', 'button'].includes(element.type) ? element.value : '';
+  const text = [
+    element.textContent,
+    ...labels.map(label => label.textContent),
+    element.getAttribute('aria-label'),
+    element.getAttribute('title'),
+    value,
+  ].filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+  const formAction = getFormAction(element);
+
+  return {
+    tag: element.tagName.toLowerCase(),
+    text: text.slice(0, MAX_ELEMENT_TEXT),
+    ...(formAction ? { formAction } : {}),
+  };
+}
+
+/**
+ * URL the element's form submits to (a submit button's formaction wins)
+ */
+function getFormAction(element: Element): string | undefined {
+  const action = element.getAttribute('formaction') ?? element.closest('form')?.getAttribute('action');
+  if (!action) return undefined;
+  try {
+    return new URL(action, element.ownerDocument.baseURI).href;
+  } catch {
+    return action;
+  }
+}
+
+/**
+ * Create an approval gate for a policy
+ */
+export function createApprovalGate(policy: ApprovalPolicy, options: ApprovalGateOptions): ApprovalGate {
+  return new ApprovalGate(policy, options);
+}
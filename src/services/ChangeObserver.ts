@@ -15,14 +15,23 @@ export interface ChangeReport {
   newUrl?: string;
   titleChanged: boolean;
   newTitle?: string;
+  /**
+   * Nodes that changed: mutation targets, added nodes, and form fields that
+   * received input (value changes leave no mutation record)
+   */
+  touched: Node[];
 }
 
 interface ObserverState {
   url: string;
   title: string;
   mutations: MutationRecord[];
+  inputs: Set<Node>;
 }
 
+/** Events fired when a form field's value changes */
+const INPUT_EVENTS = ['input', 'change'] as const;
+
 // ============================================================================
 // CHANGE OBSERVER
 // ============================================================================
@@ -31,6 +40,11 @@ export class ChangeObserver {
   private observer: MutationObserver | null = null;
   private state: ObserverState | null = null;
   private document: Document;
+  private onInput = (event: Event): void => {
+    if (this.state && event.target instanceof Node) {
+      this.state.inputs.add(event.target);
+    }
+  };
   
   constructor(doc?: Document) {
     this.document = doc || document;
@@ -45,7 +59,11 @@ export class ChangeObserver {
       url: this.document.location?.href || '',
       title: this.document.title || '',
       mutations: [],
+      inputs: new Set(),
     };
+    for (const type of INPUT_EVENTS) {
+      this.document.addEventListener(type, this.onInput, true);
+    }
     
     // Create mutation observer
     this.observer = new MutationObserver((mutations) => {
@@ -74,6 +92,9 @@ export class ChangeObserver {
       this.observer.disconnect();
       this.observer = null;
     }
+    for (const type of INPUT_EVENTS) {
+      this.document.removeEventListener(type, this.onInput, true);
+    }
     
     if (!this.state) {
       return {
@@ -81,6 +102,7 @@ export class ChangeObserver {
         verbalFeedback: 'No changes observed',
         urlChanged: false,
         titleChanged: false,
+        touched: [],
       };
     }
     
@@ -92,6 +114,7 @@ export class ChangeObserver {
     
     // Process mutations into DOMChange objects
     const changes = this.processMutations(this.state.mutations);
+    const touched = [...touchedNodes(this.state.mutations), ...this.state.inputs];
     
     // Generate verbal feedback
     const verbalFeedback = this.generateVerbalFeedback(
@@ -112,6 +135,7 @@ export class ChangeObserver {
       ...(urlChanged ? { newUrl: currentUrl } : {}),
       titleChanged,
       ...(titleChanged ? { newTitle: currentTitle } : {}),
+      touched,
     };
   }
   
@@ -379,3 +403,11 @@ export class ChangeObserver {
     return false;
   }
 }
+
+/**
+ * Nodes mutations changed: attribute and text targets, parents whose children
+ * came or went, and the added nodes themselves
+ */
+function touchedNodes(mutations: readonly MutationRecord[]): Node[] {
+  return mutations.flatMap(mutation => [mutation.target, ...Array.from(mutation.addedNodes)]);
+}
@@ -8,6 +8,7 @@
  * - TEXT_ONLY: 95% reduction (50K → 2.5K tokens)
  * - INPUT_FIELDS: 90% reduction (50K → 5K tokens)  
  * - ALL_FIELDS: 80% reduction (50K → 10K tokens)
+ * - ACCESSIBILITY: keeps widget structure instead of a flat list
  * 
  * @example
  * ```typescript
@@ -20,9 +21,15 @@
 import type {
   DOMDistillationMode,
   DistilledDOM,
+  DistilledDelta,
+  DistilledItem,
+  DistillOptions,
   TextOnlyDOM,
   InputFieldsDOM,
   AllFieldsDOM,
+  AccessibilityDOM,
+  AccessibilityNode,
+  AccessibilityStates,
   TextElement,
   InputFieldElement,
   InteractiveElement,
@@ -33,17 +40,92 @@ import type {
 } from '../types';
 
 import { DOMDistillationMode as Mode } from '../types';
+import type { PIIRedactor } from './PIIRedactor';
+import { createLexicalScorer, type RelevanceScorer } from './RelevanceScorer';
+import {
+  frameDocumentOf,
+  frameElementOf,
+  isElementOf,
+  searchRootOf,
+  shadowHostOf,
+  windowOf,
+} from '../utils/dom';
+
+/**
+ * The page could not be read (the cause is the original error)
+ */
+export class DistillationError extends Error {
+  readonly mode: DOMDistillationMode;
+
+  constructor(mode: DOMDistillationMode, cause: unknown) {
+    super(`Could not distill the page (${mode}): ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'DistillationError';
+    this.mode = mode;
+  }
+}
+
+export interface DOMDistillerOptions {
+  /** Applied to every distilled page before it is returned */
+  redactor?: PIIRedactor;
+  /** Ranks elements when a distillation has a token budget (default: offline lexical scorer) */
+  scorer?: RelevanceScorer;
+}
+
+/**
+ * Frame and shadow-host context of elements found in a search root
+ */
+type ElementScope = Pick<InteractiveElement, 'frame' | 'shadowHost'>;
+
+/**
+ * Document, same-origin frame document or open shadow root searched for elements
+ */
+interface SearchRoot {
+  readonly root: Document | ShadowRoot;
+  readonly scope: ElementScope;
+}
+
+/**
+ * What an element is recognized by when its node is replaced (e.g. re-rendered)
+ */
+interface Fingerprint {
+  readonly tag: string;
+  /** Frame and shadow-host path */
+  readonly scope: string;
+  readonly selector?: string;
+  readonly text: string;
+  readonly boundingBox?: BoundingBox;
+}
+
+/**
+ * Element last seen under a stable id
+ */
+interface Identity {
+  readonly element: Element;
+  readonly fingerprint: Fingerprint;
+}
+
+/**
+ * Accessibility tree node before it is numbered
+ */
+interface AccessibilityDraft {
+  readonly element: Element;
+  readonly role: string;
+  readonly children: readonly AccessibilityDraft[];
+}
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-/** Tags to always exclude from extraction */
+/**
+ * Tags to always exclude from extraction (same-origin iframe documents are
+ * searched separately, as are open shadow roots)
+ */
 const EXCLUDED_TAGS = new Set([
   'script', 'style', 'noscript', 'svg', 'path', 'defs', 'clippath',
   'lineargradient', 'radialgradient', 'stop', 'mask', 'filter',
   'fegaussianblur', 'feoffset', 'feblend', 'fecolormatrix',
-  'template', 'slot', 'iframe', 'object', 'embed', 'applet',
+  'template', 'iframe', 'object', 'embed', 'applet',
   'head', 'meta', 'link', 'base', 'title'
 ]);
 
@@ -69,6 +151,48 @@ const LANDMARK_ROLES = new Set([
   'navigation', 'region', 'search'
 ]);
 
+/** Roles that structure content, kept in the accessibility tree with interactive and landmark roles */
+const STRUCTURE_ROLES = new Set([
+  'heading', 'list', 'listitem', 'table', 'row', 'cell', 'columnheader', 'rowheader',
+  'dialog', 'alertdialog', 'alert', 'status', 'menu', 'menubar', 'tablist', 'toolbar',
+  'group', 'radiogroup', 'img', 'article', 'tooltip', 'treegrid'
+]);
+
+/** Roles named by their whole content, whose descendants are not listed */
+const LEAF_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'heading', 'img', 'textbox', 'searchbox', 'combobox',
+  'slider', 'spinbutton', 'progressbar', 'scrollbar'
+]);
+
+/** Roles whose value is a number in a range */
+const RANGE_ROLES = new Set(['slider', 'spinbutton', 'progressbar', 'scrollbar']);
+
+/** Implicit roles of elements that have one regardless of attributes */
+const IMPLICIT_ROLES: Readonly<Record<string, string>> = {
+  button: 'button', textarea: 'textbox', option: 'option', dialog: 'dialog',
+  h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+  nav: 'navigation', main: 'main', aside: 'complementary', header: 'banner',
+  footer: 'contentinfo', form: 'form', search: 'search', article: 'article',
+  ul: 'list', ol: 'list', li: 'listitem', table: 'table', tr: 'row', td: 'cell',
+  th: 'columnheader', fieldset: 'group', progress: 'progressbar', summary: 'button',
+};
+
+/** Implicit roles of input types (other types are text boxes) */
+const INPUT_ROLES: Readonly<Record<string, string>> = {
+  checkbox: 'checkbox', radio: 'radio', button: 'button', submit: 'button', reset: 'button',
+  image: 'button', range: 'slider', number: 'spinbutton', search: 'searchbox',
+};
+
+/** Separates the selectors of a frame or shadow-host path */
+const PATH_SEPARATOR = ' >>> ';
+
+/** Ranking bonus that puts visible elements ahead of hidden ones of equal relevance */
+const VISIBLE_BONUS = 0.01;
+
+/** Pixels a replaced element may have moved and still be matched by position */
+const POSITION_TOLERANCE = 10;
+
 /** Approximate tokens per character (for estimation) */
 const TOKENS_PER_CHAR = 0.25;
 
@@ -80,9 +204,25 @@ const MAX_ELEMENTS = {
   [Mode.TEXT_ONLY]: 500,
   [Mode.INPUT_FIELDS]: 200,
   [Mode.ALL_FIELDS]: 300,
+  [Mode.ACCESSIBILITY]: 400,
   [Mode.SMART]: 300,
 } as const;
 
+/** Form-related elements listed in INPUT_FIELDS mode */
+const INPUT_FIELD_SELECTOR = [
+  'input:not([type="hidden"])',
+  'textarea',
+  'select',
+  'button',
+  '[role="button"]',
+  '[role="textbox"]',
+  '[role="checkbox"]',
+  '[role="radio"]',
+  '[role="combobox"]',
+  '[role="searchbox"]',
+  '[contenteditable="true"]',
+].join(', ');
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -119,7 +259,7 @@ function normalizeWhitespace(text: string): string {
 }
 
 /**
- * Generates a CSS selector for an element
+ * Generates a CSS selector for an element, relative to its document or shadow root
  */
 function generateSelector(element: Element): string {
   // Try ID first (most specific)
@@ -135,7 +275,7 @@ function generateSelector(element: Element): string {
     
     // Check if unique
     try {
-      const matches = document.querySelectorAll(classSelector);
+      const matches = searchRootOf(element).querySelectorAll(classSelector);
       if (matches.length === 1) {
         return classSelector;
       }
@@ -159,7 +299,7 @@ function generateSelector(element: Element): string {
   const path: string[] = [];
   let current: Element | null = element;
   
-  while (current && current !== document.body) {
+  while (current && current !== element.ownerDocument.body) {
     let selector = current.tagName.toLowerCase();
     
     if (current.id) {
@@ -188,7 +328,7 @@ function generateSelector(element: Element): string {
 }
 
 /**
- * Generates an XPath for an element
+ * Generates an XPath for an element, relative to its document or shadow root
  */
 function generateXPath(element: Element): string {
   if (element.id) {
@@ -241,11 +381,12 @@ function getBoundingBox(element: Element): BoundingBox | undefined {
  * Checks if an element is visible
  */
 function isVisible(element: Element): boolean {
-  if (!(element instanceof HTMLElement)) {
+  if (!isElementOf(element, 'HTMLElement')) {
     return false;
   }
   
-  const style = window.getComputedStyle(element);
+  const view = windowOf(element);
+  const style = view.getComputedStyle(element);
   
   if (style.display === 'none' ||
       style.visibility === 'hidden' ||
@@ -264,9 +405,9 @@ function isVisible(element: Element): boolean {
   // Check if element is in viewport (with buffer)
   const buffer = 100;
   const inViewport = 
-    rect.top < window.innerHeight + buffer &&
+    rect.top < view.innerHeight + buffer &&
     rect.bottom > -buffer &&
-    rect.left < window.innerWidth + buffer &&
+    rect.left < view.innerWidth + buffer &&
     rect.right > -buffer;
   
   return inViewport;
@@ -276,7 +417,7 @@ function isVisible(element: Element): boolean {
  * Checks if an element is interactable
  */
 function isInteractable(element: Element): boolean {
-  if (!(element instanceof HTMLElement)) {
+  if (!isElementOf(element, 'HTMLElement')) {
     return false;
   }
   
@@ -295,7 +436,7 @@ function isInteractable(element: Element): boolean {
   const centerY = rect.top + rect.height / 2;
   
   try {
-    const topElement = document.elementFromPoint(centerX, centerY);
+    const topElement = searchRootOf(element).elementFromPoint(centerX, centerY);
     if (topElement && !element.contains(topElement) && topElement !== element) {
       // Element might be covered
       return false;
@@ -320,16 +461,16 @@ function getAccessibleName(element: Element): string {
   // aria-labelledby
   const labelledBy = element.getAttribute('aria-labelledby');
   if (labelledBy) {
-    const labelElement = document.getElementById(labelledBy);
+    const labelElement = searchRootOf(element).getElementById(labelledBy);
     if (labelElement) {
       return normalizeWhitespace(labelElement.textContent || '');
     }
   }
   
   // For inputs, check associated label
-  if (element instanceof HTMLInputElement || 
-      element instanceof HTMLSelectElement || 
-      element instanceof HTMLTextAreaElement) {
+  if (isElementOf(element, 'HTMLInputElement') || 
+      isElementOf(element, 'HTMLSelectElement') || 
+      isElementOf(element, 'HTMLTextAreaElement')) {
     // Check for label wrapping the input
     const parentLabel = element.closest('label');
     if (parentLabel) {
@@ -338,7 +479,7 @@ function getAccessibleName(element: Element): string {
     
     // Check for label with for attribute
     if (element.id) {
-      const label = document.querySelector(`label[for="${element.id}"]`);
+      const label = searchRootOf(element).querySelector(`label[for="${element.id}"]`);
       if (label) {
         return normalizeWhitespace(label.textContent || '');
       }
@@ -366,7 +507,7 @@ function getInputType(element: Element): InputFieldElement['type'] {
   if (tag === 'select') return 'select';
   if (tag === 'button') return 'button';
   
-  if (element instanceof HTMLInputElement) {
+  if (isElementOf(element, 'HTMLInputElement')) {
     const type = element.type.toLowerCase();
     if (type === 'checkbox') return 'checkbox';
     if (type === 'radio') return 'radio';
@@ -385,12 +526,184 @@ function getInputType(element: Element): InputFieldElement['type'] {
   return 'input';
 }
 
+/**
+ * Explicit ARIA role, else the role the element has implicitly (null for
+ * generic and presentational elements)
+ */
+function getRole(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit) {
+    return explicit === 'presentation' || explicit === 'none' ? null : explicit;
+  }
+  
+  const tag = element.tagName.toLowerCase();
+  if (isElementOf(element, 'HTMLInputElement')) {
+    const type = element.type.toLowerCase();
+    if (type === 'hidden') return null;
+    return INPUT_ROLES[type] ?? (element.hasAttribute('list') ? 'combobox' : 'textbox');
+  }
+  if (isElementOf(element, 'HTMLSelectElement')) {
+    return element.multiple || element.size > 1 ? 'listbox' : 'combobox';
+  }
+  if (tag === 'a') return element.hasAttribute('href') ? 'link' : null;
+  if (tag === 'img') return element.getAttribute('alt') ? 'img' : null;
+  if (tag === 'section') return element.hasAttribute('aria-label') || element.hasAttribute('aria-labelledby') ? 'region' : null;
+  return IMPLICIT_ROLES[tag] ?? null;
+}
+
+/**
+ * Name given by aria-label, aria-labelledby, title, or a fieldset legend or
+ * table caption - the names a container can have
+ */
+function getExplicitName(element: Element): string {
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel) return normalizeWhitespace(ariaLabel);
+  
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const root = searchRootOf(element);
+    const text = labelledBy.split(/\s+/)
+      .map(id => root.getElementById(id)?.textContent ?? '')
+      .join(' ');
+    if (text.trim()) return normalizeWhitespace(text);
+  }
+  
+  const title = element.getAttribute('title');
+  if (title) return normalizeWhitespace(title);
+  
+  const caption = Array.from(element.children).find(child => ['legend', 'caption'].includes(child.tagName.toLowerCase()));
+  return caption ? normalizeWhitespace(caption.textContent || '') : '';
+}
+
+/**
+ * Accessible name of a node: leaves are named by their content, containers only
+ * explicitly or, lacking that, by their own text (or all of it when nothing inside is listed)
+ */
+function getNodeName(element: Element, role: string, hasChildren: boolean): string {
+  if (LEAF_ROLES.has(role)) {
+    return getAccessibleName(element) ||
+      element.getAttribute('alt') ||
+      (isElementOf(element, 'HTMLInputElement') && role === 'button' ? element.value : '') ||
+      element.getAttribute('placeholder') ||
+      '';
+  }
+  
+  const explicit = getExplicitName(element);
+  if (explicit) return truncateText(explicit, 100);
+  
+  const text = hasChildren
+    ? Array.from(element.childNodes)
+      .filter(node => node.nodeType === Node.TEXT_NODE)
+      .map(node => node.textContent)
+      .join(' ')
+    : element.textContent || '';
+  return truncateText(normalizeWhitespace(text), 100);
+}
+
+/**
+ * Expanded, checked, selected, disabled and required states, from native
+ * properties or ARIA attributes
+ */
+function getStates(element: Element): AccessibilityStates | undefined {
+  const states: { -readonly [K in keyof AccessibilityStates]: AccessibilityStates[K] } = {};
+  const flag = (name: string) => {
+    const value = element.getAttribute(name);
+    return value === 'true' || value === 'false' ? value === 'true' : undefined;
+  };
+  
+  const expanded = flag('aria-expanded');
+  if (expanded !== undefined) states.expanded = expanded;
+  
+  if (isElementOf(element, 'HTMLInputElement') && (element.type === 'checkbox' || element.type === 'radio')) {
+    states.checked = element.indeterminate ? 'mixed' : element.checked;
+  } else {
+    const checked = element.getAttribute('aria-checked') ?? element.getAttribute('aria-pressed');
+    if (checked === 'mixed') states.checked = 'mixed';
+    else if (checked === 'true' || checked === 'false') states.checked = checked === 'true';
+  }
+  
+  const selected = flag('aria-selected') ??
+    (element.tagName.toLowerCase() === 'option' ? (element as HTMLOptionElement).selected : undefined);
+  if (selected !== undefined) states.selected = selected;
+  
+  if (element.hasAttribute('disabled') || element.getAttribute('aria-disabled') === 'true') {
+    states.disabled = true;
+  }
+  if (element.hasAttribute('required') || element.getAttribute('aria-required') === 'true') {
+    states.required = true;
+  }
+  
+  return Object.keys(states).length > 0 ? states : undefined;
+}
+
+/**
+ * Current value of a field or range widget (passwords are masked)
+ */
+function getNodeValue(element: Element, role: string): string | undefined {
+  if (isElementOf(element, 'HTMLInputElement')) {
+    if (['checkbox', 'radio', 'button', 'submit', 'reset', 'image'].includes(element.type)) return undefined;
+    if (element.type === 'password') return element.value ? '********' : undefined;
+    return element.value || undefined;
+  }
+  if (isElementOf(element, 'HTMLTextAreaElement')) {
+    return element.value || undefined;
+  }
+  if (isElementOf(element, 'HTMLSelectElement')) {
+    const selected = Array.from(element.selectedOptions).map(option => option.text);
+    return selected.length > 0 ? truncateText(normalizeWhitespace(selected.join(', ')), 100) : undefined;
+  }
+  if (RANGE_ROLES.has(role)) {
+    return element.getAttribute('aria-valuetext') ?? element.getAttribute('aria-valuenow') ?? undefined;
+  }
+  if ((role === 'textbox' || role === 'searchbox' || role === 'combobox') && element.hasAttribute('contenteditable')) {
+    return truncateText(normalizeWhitespace(element.textContent || ''), 100) || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Level of a heading (aria-level, else the h1-h6 number)
+ */
+function getHeadingLevel(element: Element): number | undefined {
+  const level = Number(element.getAttribute('aria-level') ?? element.tagName.match(/^h([1-6])$/i)?.[1]);
+  return Number.isInteger(level) && level > 0 ? level : undefined;
+}
+
+/**
+ * Whether an element and its subtree are hidden from assistive technology
+ */
+function isHiddenFromAccessibility(element: Element): boolean {
+  if (element.hasAttribute('hidden') || element.getAttribute('aria-hidden') === 'true') {
+    return true;
+  }
+  if (!isElementOf(element, 'HTMLElement')) {
+    return false;
+  }
+  const style = windowOf(element).getComputedStyle(element);
+  return style.display === 'none' || style.visibility === 'hidden';
+}
+
+/**
+ * Children as rendered: a host's shadow tree instead of its light children, and
+ * the nodes assigned to a slot (or its fallback content)
+ */
+function renderedChildren(parent: Element | ShadowRoot): Element[] {
+  if ('shadowRoot' in parent && parent.shadowRoot) {
+    return Array.from(parent.shadowRoot.children);
+  }
+  if ('assignedElements' in parent) {
+    const assigned = (parent as HTMLSlotElement).assignedElements({ flatten: true });
+    if (assigned.length > 0) return assigned;
+  }
+  return Array.from(parent.children);
+}
+
 /**
  * Extracts form information
  */
-function extractForms(document: Document): FormInfo[] {
+function extractForms(roots: readonly SearchRoot[]): FormInfo[] {
   const forms: FormInfo[] = [];
-  const formElements = document.querySelectorAll('form');
+  const formElements = queryRoots(roots, 'form');
   
   formElements.forEach((form, index) => {
     const fields = form.querySelectorAll('input, select, textarea, button');
@@ -421,12 +734,12 @@ function extractForms(document: Document): FormInfo[] {
 /**
  * Extracts landmark information
  */
-function extractLandmarks(document: Document): LandmarkInfo[] {
+function extractLandmarks(roots: readonly SearchRoot[]): LandmarkInfo[] {
   const landmarks: LandmarkInfo[] = [];
   
   // ARIA landmarks
   LANDMARK_ROLES.forEach(role => {
-    const elements = document.querySelectorAll(`[role="${role}"]`);
+    const elements = queryRoots(roots, `[role="${role}"]`);
     elements.forEach(element => {
       const idx = parseInt(element.getAttribute('data-agent-index') || '-1', 10);
       const label = element.getAttribute('aria-label');
@@ -448,7 +761,7 @@ function extractLandmarks(document: Document): LandmarkInfo[] {
   };
 
   Object.entries(semanticMappings).forEach(([tag, role]) => {
-    const elements = document.querySelectorAll(tag);
+    const elements = queryRoots(roots, tag);
     elements.forEach(element => {
       // Skip if already has role attribute
       if (element.hasAttribute('role')) return;
@@ -466,6 +779,196 @@ function extractLandmarks(document: Document): LandmarkInfo[] {
   return landmarks;
 }
 
+/**
+ * Elements matching the selector in every search root
+ */
+function queryRoots(roots: readonly SearchRoot[], selector: string): Element[] {
+  return roots.flatMap(({ root }) => Array.from(root.querySelectorAll(selector)));
+}
+
+/**
+ * The root followed by the open shadow roots and same-origin frame documents
+ * inside it, recursively
+ */
+function collectSearchRoots(root: Document | ShadowRoot, scope: ElementScope = {}): SearchRoot[] {
+  const roots: SearchRoot[] = [{ root, scope }];
+  
+  root.querySelectorAll('*').forEach(element => {
+    if (element.shadowRoot) {
+      roots.push(...collectSearchRoots(element.shadowRoot, {
+        ...scope,
+        shadowHost: joinPath(scope.shadowHost, generateSelector(element)),
+      }));
+    }
+    
+    const frameDocument = frameDocumentOf(element);
+    if (frameDocument) {
+      roots.push(...collectSearchRoots(frameDocument, {
+        frame: joinPath(scope.frame, scope.shadowHost, generateSelector(element)),
+      }));
+    }
+  });
+  
+  return roots;
+}
+
+function joinPath(...parts: Array<string | undefined>): string {
+  return parts.filter(Boolean).join(PATH_SEPARATOR);
+}
+
+/**
+ * Elements of a distilled DOM, whatever its mode
+ */
+function itemsOf(dom: DistilledDOM): readonly DistilledItem[] {
+  return 'content' in dom ? dom.content : dom.elements;
+}
+
+/**
+ * One line per element as the model sees it: `[index|id] tag: text`, or for
+ * accessibility nodes `[index|id] role "name"` indented by depth
+ */
+export function describeItem(el: DistilledItem): string {
+  if (el.type === 'node') {
+    const details = [
+      el.level !== undefined ? `level ${el.level}` : '',
+      el.value ? `value "${el.value.slice(0, 40)}"` : '',
+      ...Object.entries(el.states ?? {}).map(([state, on]) =>
+        on === true ? state : on === 'mixed' ? `${state}: mixed` : `not ${state}`
+      ),
+      el.frame ? `in frame ${el.frame}` : '',
+    ].filter(Boolean);
+    const name = el.name ? ` "${el.name.slice(0, 80)}"` : '';
+    return `${'  '.repeat(el.depth)}[${el.index}|${el.id}] ${el.role}${name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+  }
+  const text = 'content' in el
+    ? el.content
+    : ('text' in el && el.text) || ('label' in el && el.label) || ('buttonText' in el && el.buttonText) ||
+      ('placeholder' in el && el.placeholder) || el.accessibleName || '';
+  const frame = 'frame' in el && el.frame ? ` (in frame ${el.frame})` : '';
+  return `[${el.index}|${el.id}] ${el.tag}: ${text.slice(0, 80)}${frame}`;
+}
+
+/**
+ * Text an element is ranked on: its names, content and surrounding context
+ */
+function itemText(item: DistilledItem): string {
+  if ('content' in item) return item.content;
+  if (item.type === 'node') return [item.role, item.name, item.value].filter(Boolean).join(' ');
+  return [
+    'label' in item ? item.label : undefined,
+    item.accessibleName,
+    'text' in item ? item.text : undefined,
+    'placeholder' in item ? item.placeholder : undefined,
+    'buttonText' in item ? item.buttonText : undefined,
+    'value' in item ? item.value : undefined,
+    'context' in item ? item.context : undefined,
+    'attributes' in item ? item.attributes?.['name'] : undefined,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Copy of a distilled DOM with only the given elements
+ */
+function withItems(dom: DistilledDOM, items: readonly DistilledItem[]): DistilledDOM {
+  switch (dom.mode) {
+    case Mode.TEXT_ONLY:
+      return { ...dom, content: items as TextElement[] };
+    case Mode.INPUT_FIELDS:
+      return { ...dom, elements: items as InputFieldElement[] };
+    case Mode.ALL_FIELDS:
+      return { ...dom, elements: items as InteractiveElement[] };
+    case Mode.ACCESSIBILITY:
+      return { ...dom, elements: items as AccessibilityNode[] };
+  }
+}
+
+/**
+ * Rebuild the tree over the nodes kept from `nodes`: each hangs under its
+ * nearest kept ancestor, with depth and children to match
+ */
+function reparentNodes(
+  nodes: readonly AccessibilityNode[],
+  kept: readonly AccessibilityNode[]
+): AccessibilityNode[] {
+  const parents = new Map<number, number>();
+  for (const node of nodes) {
+    for (const child of node.children ?? []) parents.set(child, node.index);
+  }
+  const keptIndices = new Set(kept.map(node => node.index));
+  const keptParent = (index: number): number | undefined => {
+    let parent = parents.get(index);
+    while (parent !== undefined && !keptIndices.has(parent)) parent = parents.get(parent);
+    return parent;
+  };
+  
+  const depths = new Map<number, number>();
+  const children = new Map<number, number[]>();
+  for (const { index } of kept) {
+    const parent = keptParent(index);
+    // Tree order puts every parent before its children
+    depths.set(index, parent === undefined ? 0 : (depths.get(parent) ?? 0) + 1);
+    if (parent !== undefined) children.set(parent, [...children.get(parent) ?? [], index]);
+  }
+  
+  return kept.map(({ children: _children, ...node }) => {
+    const kids = children.get(node.index);
+    return { ...node, depth: depths.get(node.index) ?? 0, ...(kids ? { children: kids } : {}) };
+  });
+}
+
+/**
+ * What an element looks like to the model, ignoring how it is located (bounding
+ * boxes shift on every scroll, selectors and xpaths when siblings come and go)
+ */
+function itemSignature(item: DistilledItem): string {
+  const { boundingBox: _box, selector: _selector, xpath: _xpath, ...rest } =
+    item as DistilledItem & Partial<Pick<InteractiveElement, 'boundingBox' | 'selector' | 'xpath'>>;
+  return JSON.stringify(rest);
+}
+
+/**
+ * Compare two distillations of a page by stable element id. Elements in both
+ * changed when `isChanged` says so (by default, when they look different).
+ */
+function diffDistilled(
+  previous: DistilledDOM,
+  current: DistilledDOM,
+  isChanged: (item: DistilledItem, before: DistilledItem) => boolean =
+    (item, before) => itemSignature(item) !== itemSignature(before)
+): DistilledDelta {
+  const before = new Map(itemsOf(previous).map(item => [item.id, item]));
+  const currentItems = itemsOf(current);
+  // Elements left out for the token budget are still on the page
+  const currentIds = new Set([...currentItems.map(item => item.id), ...(current.dropped?.ids ?? [])]);
+  
+  const added = currentItems.filter(item => !before.has(item.id));
+  const changed = currentItems.filter(item => {
+    const earlier = before.get(item.id);
+    return earlier !== undefined && isChanged(item, earlier);
+  });
+  const removed = [...before.keys()].filter(id => !currentIds.has(id));
+  
+  return {
+    mode: current.mode,
+    url: current.url,
+    title: current.title,
+    added,
+    changed,
+    removed,
+    tokenCount: estimateTokens(JSON.stringify({ added, changed, removed })),
+  };
+}
+
+/**
+ * Whether two boxes are at (nearly) the same place and size
+ */
+function isSameBox(a: BoundingBox, b: BoundingBox): boolean {
+  return Math.abs(a.x - b.x) <= POSITION_TOLERANCE &&
+    Math.abs(a.y - b.y) <= POSITION_TOLERANCE &&
+    Math.abs(a.width - b.width) <= POSITION_TOLERANCE &&
+    Math.abs(a.height - b.height) <= POSITION_TOLERANCE;
+}
+
 // ============================================================================
 // DOM DISTILLER CLASS
 // ============================================================================
@@ -477,40 +980,64 @@ export class DOMDistiller {
   private document: Document;
   private elementIndex: number = 0;
   private elementMap: Map<number, Element> = new Map();
+  private roots: SearchRoot[] = [];
+  private scopes = new WeakMap<Node, ElementScope>();
+  private redactor: PIIRedactor | null;
+  private scorer: RelevanceScorer;
   
-  constructor(doc?: Document) {
+  /** Stable ids of nodes seen in any distillation */
+  private ids = new WeakMap<Element, string>();
+  /** Latest node and fingerprint per stable id; replaced nodes are dropped after each distillation */
+  private identities = new Map<string, Identity>();
+  /** Identities whose node left the page, open to being matched by a replacement */
+  private orphans: Array<[string, Identity]> = [];
+  private nextId = 1;
+  
+  /** Last page returned by distill() */
+  private last: DistilledDOM | null = null;
+  /** Indices kept from the previous distillation while a delta is taken */
+  private carriedIndices: Map<Element, number> | null = null;
+  
+  constructor(doc?: Document, options: DOMDistillerOptions = {}) {
     this.document = doc || document;
+    this.redactor = options.redactor ?? null;
+    this.scorer = options.scorer ?? createLexicalScorer();
   }
   
   /**
-   * Main distillation method
+   * Main distillation method. With a token budget, the elements most relevant to
+   * the query are kept and the rest are listed in `dropped`.
    */
-  async distill(mode: DOMDistillationMode): Promise<DistilledDOM> {
+  async distill(mode: DOMDistillationMode, options: DistillOptions = {}): Promise<DistilledDOM> {
     const startTime = performance.now();
     
-    // Reset state
-    this.elementIndex = 0;
-    this.elementMap.clear();
-    
     let result: DistilledDOM;
+    try {
+      // Reset state (new elements are numbered after any carried indices)
+      this.elementIndex = this.carriedIndices ? Math.max(-1, ...this.carriedIndices.values()) + 1 : 0;
+      this.elementMap.clear();
+      this.roots = collectSearchRoots(this.document);
+      this.scopes = new WeakMap(this.roots.map(({ root, scope }) => [root, scope]));
+      this.orphans = [...this.identities].filter(([, { element }]) => !element.isConnected);
+      
+      result = this.distillMode(mode);
+    } catch (error) {
+      throw new DistillationError(mode, error);
+    }
     
-    switch (mode) {
-      case Mode.TEXT_ONLY:
-        result = this.distillTextOnly();
-        break;
-      case Mode.INPUT_FIELDS:
-        result = this.distillInputFields();
-        break;
-      case Mode.ALL_FIELDS:
-        result = this.distillAllFields();
-        break;
-      case Mode.SMART:
-        result = this.distillSmart();
-        break;
-      default:
-        throw new Error(`Unknown distillation mode: ${mode}`);
+    this.forgetOrphans();
+    
+    // Redacted first, so ranking (possibly by a remote scorer) never sees the raw values
+    if (this.redactor) {
+      result = this.redactor.redactDOM(result, index => this.getElement(index));
     }
     
+    if (options.tokenBudget !== undefined) {
+      result = await this.fitToBudget(result, options.tokenBudget, options.query ?? '');
+    }
+    
+    this.last = result;
+    
     const processingTime = performance.now() - startTime;
     
     // Log metrics in debug mode
@@ -521,6 +1048,58 @@ export class DOMDistiller {
     return result;
   }
   
+  /**
+   * Distill the page again in the mode of `previous` and describe what changed.
+   * When `previous` is the last page this distiller returned, elements still on
+   * the page keep their indices, so indices the model saw there stay valid.
+   * 
+   * With the nodes a ChangeObserver saw change (`touched`), elements that look
+   * the same also count as changed when one of those nodes is the element, inside
+   * it or above it (state the signature does not capture, such as a fieldset
+   * disabling its fields).
+   */
+  async distillDelta(
+    previous: DistilledDOM,
+    options: DistillOptions = {},
+    touched?: readonly Node[]
+  ): Promise<{ dom: DistilledDOM; delta: DistilledDelta }> {
+    const carried = new Map<Element, number>();
+    const earlier = new Map<string, Element>();
+    if (previous === this.last) {
+      for (const { index, id } of itemsOf(previous)) {
+        const element = this.elementMap.get(index);
+        if (!element) continue;
+        carried.set(element, index);
+        earlier.set(id, element);
+      }
+    }
+    
+    this.carriedIndices = carried;
+    try {
+      const dom = await this.distill(previous.mode, options);
+      return { dom, delta: diffDistilled(previous, dom, touched ? this.changedAmong(touched, earlier) : undefined) };
+    } finally {
+      this.carriedIndices = null;
+    }
+  }
+  
+  /**
+   * Change test for elements on both sides of a delta, given the nodes that
+   * changed. Replaced nodes, and nodes in frames and shadow roots (which a
+   * ChangeObserver on the document does not see), are compared by signature only.
+   */
+  private changedAmong(
+    touched: readonly Node[],
+    earlier: ReadonlyMap<string, Element>
+  ): (item: DistilledItem, before: DistilledItem) => boolean {
+    return (item, before) => {
+      if (item.index !== before.index || itemSignature(item) !== itemSignature(before)) return true;
+      const element = this.elementMap.get(item.index);
+      if (!element || element !== earlier.get(item.id) || element.getRootNode() !== this.document) return false;
+      return touched.some(node => element.contains(node) || node.contains(element));
+    };
+  }
+  
   /**
    * Get element by index (for action execution)
    */
@@ -528,6 +1107,55 @@ export class DOMDistiller {
     return this.elementMap.get(index) || null;
   }
   
+  /**
+   * Form fields among the elements of the last distillation, under the indices
+   * given there (all of its form fields when no indices are given). Unlike
+   * distilling INPUT_FIELDS, this keeps the indices the model is working with.
+   */
+  describeInputFields(indices?: readonly number[]): InputFieldElement[] {
+    const candidates = indices ?? (this.last ? itemsOf(this.last).map(item => item.index) : []);
+    return candidates.flatMap(index => {
+      const element = this.elementMap.get(index);
+      return element?.isConnected && element.matches(INPUT_FIELD_SELECTOR)
+        ? [this.describeInputField(element, index)]
+        : [];
+    });
+  }
+  
+  /**
+   * Stable id of an element from a distillation (unlike indices, ids survive
+   * later distillations, and re-rendered nodes inherit the id of the node they replace)
+   */
+  getStableId(element: Element): string | undefined {
+    return this.ids.get(element);
+  }
+  
+  /**
+   * Element currently known under a stable id
+   */
+  getElementByStableId(id: string): Element | null {
+    const identity = this.identities.get(id);
+    return identity?.element.isConnected ? identity.element : null;
+  }
+  
+  /**
+   * Pixels the page is scrolled down from the top
+   */
+  getScrollOffset(): number {
+    const root = this.document.scrollingElement ?? this.document.documentElement;
+    return root ? root.scrollTop : 0;
+  }
+  
+  /**
+   * Pixels of page below the viewport (0 at the bottom or when the page does not scroll)
+   */
+  getScrollRemaining(): number {
+    const view = this.document.defaultView;
+    const root = this.document.scrollingElement ?? this.document.documentElement;
+    if (!view || !root) return 0;
+    return Math.max(0, root.scrollHeight - root.scrollTop - view.innerHeight);
+  }
+  
   /**
    * Get metrics for the last distillation
    */
@@ -549,6 +1177,23 @@ export class DOMDistiller {
   // DISTILLATION MODES
   // ==========================================================================
   
+  private distillMode(mode: DOMDistillationMode): DistilledDOM {
+    switch (mode) {
+      case Mode.TEXT_ONLY:
+        return this.distillTextOnly();
+      case Mode.INPUT_FIELDS:
+        return this.distillInputFields();
+      case Mode.ALL_FIELDS:
+        return this.distillAllFields();
+      case Mode.ACCESSIBILITY:
+        return this.distillAccessibility();
+      case Mode.SMART:
+        return this.distillSmart();
+      default:
+        throw new Error(`Unknown distillation mode: ${mode}`);
+    }
+  }
+  
   /**
    * TEXT_ONLY mode - Extract only readable content
    * Best for: Reading/understanding page content, summarization
@@ -557,13 +1202,16 @@ export class DOMDistiller {
     const content: TextElement[] = [];
     const seen = new Set<string>();
     
-    // Get main content area first
+    // Get main content area first (frames and shadow roots are searched whole)
     const mainContent = this.document.querySelector('main, article, [role="main"]');
-    const rootElement = mainContent || this.document.body;
+    const rootElements: ParentNode[] = [
+      mainContent || this.document.body,
+      ...this.roots.slice(1).map(({ root }) => root),
+    ];
     
     // Walk through text content tags
     TEXT_CONTENT_TAGS.forEach(tag => {
-      const elements = rootElement.querySelectorAll(tag);
+      const elements = rootElements.flatMap(root => Array.from(root.querySelectorAll(tag)));
       
       elements.forEach(element => {
         // Skip if inside excluded areas
@@ -577,12 +1225,14 @@ export class DOMDistiller {
         
         // Assign index
         const index = this.assignIndex(element);
+        const tag = element.tagName.toLowerCase();
         
         content.push({
           type: 'text',
           content: truncateText(text),
-          tag: element.tagName.toLowerCase(),
+          tag,
           index,
+          id: this.identify(element, { tag, scope: this.getScopePath(element), text }),
         });
         
         // Limit elements
@@ -612,21 +1262,7 @@ export class DOMDistiller {
     const elements: InputFieldElement[] = [];
     
     // Query all form-related elements
-    const selector = [
-      'input:not([type="hidden"])',
-      'textarea',
-      'select',
-      'button',
-      '[role="button"]',
-      '[role="textbox"]',
-      '[role="checkbox"]',
-      '[role="radio"]',
-      '[role="combobox"]',
-      '[role="searchbox"]',
-      '[contenteditable="true"]',
-    ].join(', ');
-    
-    const formElements = this.document.querySelectorAll(selector);
+    const formElements = queryRoots(this.roots, INPUT_FIELD_SELECTOR);
     
     formElements.forEach(element => {
       // Skip excluded areas
@@ -639,41 +1275,7 @@ export class DOMDistiller {
       // Skip if not visible at all
       if (!visible && !element.closest('form')) return;
       
-      const index = this.assignIndex(element);
-      const bb = getBoundingBox(element);
-      const role = element.getAttribute('role');
-      const inputType = element instanceof HTMLInputElement ? element.type : null;
-      const value = this.getElementValue(element);
-      const placeholder = element.getAttribute('placeholder');
-      const label = this.getLabel(element);
-      const pattern = element.getAttribute('pattern');
-      const options = this.getSelectOptions(element);
-      const buttonText = this.getButtonText(element);
-      const inputElement: InputFieldElement = {
-        index,
-        tag: element.tagName.toLowerCase(),
-        type: getInputType(element),
-        selector: generateSelector(element),
-        xpath: generateXPath(element),
-        visible,
-        interactable,
-        ...(bb ? { boundingBox: bb } : {}),
-        ...(role ? { role } : {}),
-        accessibleName: getAccessibleName(element),
-        ...(inputType ? { inputType } : {}),
-        ...(value ? { value } : {}),
-        ...(placeholder ? { placeholder } : {}),
-        ...(label ? { label } : {}),
-        required: element.hasAttribute('required') ||
-                  element.getAttribute('aria-required') === 'true',
-        disabled: element.hasAttribute('disabled') ||
-                  element.getAttribute('aria-disabled') === 'true',
-        ...(pattern ? { pattern } : {}),
-        ...(options ? { options } : {}),
-        ...(buttonText ? { buttonText } : {}),
-      };
-      
-      elements.push(inputElement);
+      elements.push(this.describeInputField(element, this.assignIndex(element), visible, interactable));
       
       // Limit elements
       if (elements.length >= MAX_ELEMENTS[Mode.INPUT_FIELDS]) return;
@@ -696,7 +1298,7 @@ export class DOMDistiller {
       }
     });
     
-    const forms = extractForms(this.document);
+    const forms = extractForms(this.roots);
     
     // Calculate token count
     const json = JSON.stringify({ elements, forms });
@@ -733,7 +1335,7 @@ export class DOMDistiller {
       '[contenteditable="true"]',
     ].join(', ');
     
-    const interactiveElements = this.document.querySelectorAll(selector);
+    const interactiveElements = queryRoots(this.roots, selector);
     
     interactiveElements.forEach(element => {
       // Skip excluded areas
@@ -753,6 +1355,8 @@ export class DOMDistiller {
       
       const index = this.assignIndex(element);
       const tag = element.tagName.toLowerCase();
+      const selector = generateSelector(element);
+      const accessibleName = getAccessibleName(element);
       
       const bb = getBoundingBox(element);
       const href = element.getAttribute('href');
@@ -760,15 +1364,23 @@ export class DOMDistiller {
       const context = this.getContext(element);
       const interactiveElement: InteractiveElement = {
         index,
+        id: this.identify(element, {
+          tag,
+          scope: this.getScopePath(element),
+          selector,
+          text: accessibleName,
+          ...(bb ? { boundingBox: bb } : {}),
+        }),
         tag,
         type: this.getInteractiveType(element),
-        selector: generateSelector(element),
+        selector,
         xpath: generateXPath(element),
         visible,
         interactable,
         ...(bb ? { boundingBox: bb } : {}),
         ...(role ? { role } : {}),
-        accessibleName: getAccessibleName(element),
+        accessibleName,
+        ...this.getScope(element),
         text: truncateText(normalizeWhitespace(element.textContent || ''), 100),
         ...(href ? { href } : {}),
         ...(attributes ? { attributes } : {}),
@@ -798,7 +1410,7 @@ export class DOMDistiller {
       }
     });
     
-    const landmarks = extractLandmarks(this.document);
+    const landmarks = extractLandmarks(this.roots);
     
     // Calculate token count
     const json = JSON.stringify({ elements, landmarks });
@@ -815,13 +1427,118 @@ export class DOMDistiller {
     };
   }
   
+  /**
+   * ACCESSIBILITY mode - Extract roles, names and states as a tree, like a screen reader
+   * Best for: Custom widgets built from ARIA roles (trees, grids, menus, comboboxes)
+   */
+  private distillAccessibility(): AccessibilityDOM {
+    const elements: AccessibilityNode[] = [];
+    this.addAccessibilityNodes(this.collectAccessible(this.document.body), 0, elements);
+    
+    const tokenCount = estimateTokens(JSON.stringify(elements));
+    
+    return {
+      mode: Mode.ACCESSIBILITY,
+      url: this.document.location?.href || '',
+      title: this.document.title || '',
+      elements,
+      tokenCount,
+      extractedAt: Date.now(),
+    };
+  }
+  
+  /**
+   * Nodes under a parent that have a role worth listing; elements without one
+   * are skipped over, their descendants taking their place
+   */
+  private collectAccessible(parent: Element | ShadowRoot): AccessibilityDraft[] {
+    const drafts: AccessibilityDraft[] = [];
+    
+    for (const element of renderedChildren(parent)) {
+      if (isHiddenFromAccessibility(element)) continue;
+      
+      const frameDocument = frameDocumentOf(element);
+      if (frameDocument) {
+        if (frameDocument.body) drafts.push(...this.collectAccessible(frameDocument.body));
+        continue;
+      }
+      if (EXCLUDED_TAGS.has(element.tagName.toLowerCase())) continue;
+      
+      const role = getRole(element);
+      const listed = role !== null &&
+        (INTERACTIVE_ROLES.has(role) || LANDMARK_ROLES.has(role) || STRUCTURE_ROLES.has(role));
+      // A native select lists its options, the one leaf whose content is choices rather than its name
+      const leaf = listed && LEAF_ROLES.has(role) && !isElementOf(element, 'HTMLSelectElement');
+      const children = leaf ? [] : this.collectAccessible(element);
+      
+      if (!listed) {
+        drafts.push(...children);
+        continue;
+      }
+      
+      // Empty structure (a list with no items, a table row with no text) says nothing
+      const empty = children.length === 0 && !normalizeWhitespace(element.textContent || '') && !getExplicitName(element);
+      if (empty && !INTERACTIVE_ROLES.has(role)) continue;
+      
+      drafts.push({ element, role, children });
+    }
+    
+    return drafts;
+  }
+  
+  /**
+   * Number nodes in tree order, returning the indices of those added at this depth
+   */
+  private addAccessibilityNodes(
+    drafts: readonly AccessibilityDraft[],
+    depth: number,
+    elements: AccessibilityNode[]
+  ): number[] {
+    const indices: number[] = [];
+    
+    for (const { element, role, children } of drafts) {
+      if (elements.length >= MAX_ELEMENTS[Mode.ACCESSIBILITY]) break;
+      
+      const index = this.assignIndex(element);
+      const tag = element.tagName.toLowerCase();
+      const name = getNodeName(element, role, children.length > 0);
+      const value = getNodeValue(element, role);
+      const level = role === 'heading' ? getHeadingLevel(element) : undefined;
+      const states = getStates(element);
+      
+      const position = elements.length;
+      elements.push({
+        type: 'node',
+        index,
+        id: this.identify(element, { tag, scope: this.getScopePath(element), text: `${role} ${name}` }),
+        role,
+        name,
+        tag,
+        depth,
+        ...(value !== undefined ? { value } : {}),
+        ...(level !== undefined ? { level } : {}),
+        ...(states ? { states } : {}),
+        ...this.getScope(element),
+      });
+      indices.push(index);
+      
+      const childIndices = this.addAccessibilityNodes(children, depth + 1, elements);
+      if (childIndices.length > 0) {
+        const node = elements[position];
+        if (node) elements[position] = { ...node, children: childIndices };
+      }
+    }
+    
+    return indices;
+  }
+  
   /**
    * SMART mode - Automatically choose the best mode based on page content
    */
   private distillSmart(): DistilledDOM {
     // Analyze page characteristics
-    const inputCount = this.document.querySelectorAll('input, textarea, select').length;
-    const linkCount = this.document.querySelectorAll('a[href]').length;
+    const inputCount = queryRoots(this.roots, 'input, textarea, select').length;
+    const linkCount = queryRoots(this.roots, 'a[href]').length;
     const textLength = (this.document.body.textContent || '').length;
     
     // If page has many inputs, use INPUT_FIELDS mode
@@ -829,6 +1546,13 @@ export class DOMDistiller {
       return this.distillInputFields();
     }
     
+    // If page builds its widgets from ARIA roles on generic elements, keep their structure
+    const ariaWidgetCount = queryRoots(this.roots, 'div[role], span[role], li[role], ul[role]')
+      .filter(element => INTERACTIVE_ROLES.has(element.getAttribute('role') ?? '')).length;
+    if (ariaWidgetCount > 10) {
+      return this.distillAccessibility();
+    }
+    
     // If page has many links but few inputs, use ALL_FIELDS mode
     if (linkCount > 20 && inputCount <= 5) {
       return this.distillAllFields();
@@ -848,43 +1572,195 @@ export class DOMDistiller {
   // ==========================================================================
   
   private assignIndex(element: Element): number {
-    const index = this.elementIndex++;
+    const index = this.carriedIndices?.get(element) ?? this.elementIndex++;
     this.elementMap.set(index, element);
     return index;
   }
   
+  /**
+   * Keep the most relevant elements (visible first among equals, then in page
+   * order) whose estimated tokens fit the budget
+   */
+  private async fitToBudget(dom: DistilledDOM, tokenBudget: number, query: string): Promise<DistilledDOM> {
+    const items = itemsOf(dom);
+    // Costed as the lines the model reads, not the full records
+    const costs = items.map(item => estimateTokens(describeItem(item)));
+    const total = costs.reduce((sum, cost) => sum + cost, 0);
+    if (total <= tokenBudget) return dom;
+    
+    const scores = query.trim() ? await this.scorer.score(query, items.map(itemText)) : [];
+    const ranked = items
+      .map((item, i) => ({ i, score: (scores[i] ?? 0) + ('visible' in item && item.visible ? VISIBLE_BONUS : 0) }))
+      .sort((a, b) => b.score - a.score || a.i - b.i);
+    
+    const kept = new Set<number>();
+    let used = 0;
+    for (const { i } of ranked) {
+      const cost = costs[i] ?? 0;
+      if (used + cost <= tokenBudget) {
+        kept.add(i);
+        used += cost;
+      }
+    }
+    
+    const dropped = items.filter((_, i) => !kept.has(i));
+    const droppedTokens = dropped.reduce((sum, item) => sum + estimateTokens(JSON.stringify(item)), 0);
+    const keptItems = items.filter((_, i) => kept.has(i));
+    return {
+      ...withItems(dom, dom.mode === Mode.ACCESSIBILITY ? reparentNodes(dom.elements, keptItems as AccessibilityNode[]) : keptItems),
+      tokenCount: dom.tokenCount - droppedTokens,
+      dropped: { tokenBudget, ids: dropped.map(item => item.id) },
+    };
+  }
+  
+  /**
+   * Describe a form element as an input field under the given index
+   */
+  private describeInputField(
+    element: Element,
+    index: number,
+    visible = isVisible(element),
+    interactable = isInteractable(element)
+  ): InputFieldElement {
+    const tag = element.tagName.toLowerCase();
+    const selector = generateSelector(element);
+    const accessibleName = getAccessibleName(element);
+    const bb = getBoundingBox(element);
+    const role = element.getAttribute('role');
+    const inputType = isElementOf(element, 'HTMLInputElement') ? element.type : null;
+    const value = this.getElementValue(element);
+    const placeholder = element.getAttribute('placeholder');
+    const label = this.getLabel(element);
+    const pattern = element.getAttribute('pattern');
+    const options = this.getSelectOptions(element);
+    const buttonText = this.getButtonText(element);
+    return {
+      index,
+      id: this.identify(element, {
+        tag,
+        scope: this.getScopePath(element),
+        selector,
+        text: accessibleName,
+        ...(bb ? { boundingBox: bb } : {}),
+      }),
+      tag,
+      type: getInputType(element),
+      selector,
+      xpath: generateXPath(element),
+      visible,
+      interactable,
+      ...(bb ? { boundingBox: bb } : {}),
+      ...(role ? { role } : {}),
+      accessibleName,
+      ...this.getScope(element),
+      ...(inputType ? { inputType } : {}),
+      ...(value ? { value } : {}),
+      ...(placeholder ? { placeholder } : {}),
+      ...(label ? { label } : {}),
+      required: element.hasAttribute('required') ||
+                element.getAttribute('aria-required') === 'true',
+      disabled: element.hasAttribute('disabled') ||
+                element.getAttribute('aria-disabled') === 'true',
+      ...(pattern ? { pattern } : {}),
+      ...(options ? { options } : {}),
+      ...(buttonText ? { buttonText } : {}),
+    };
+  }
+  
+  private getScope(element: Element): ElementScope {
+    return this.scopes.get(element.getRootNode()) ?? {};
+  }
+  
+  private getScopePath(element: Element): string {
+    const { frame, shadowHost } = this.getScope(element);
+    return joinPath(frame, shadowHost);
+  }
+  
+  /**
+   * Stable id for an element: the id it already has, else the id of the node
+   * it replaced, else a new one
+   */
+  private identify(element: Element, fingerprint: Fingerprint): string {
+    const id = this.ids.get(element) ?? this.adoptOrphan(fingerprint) ?? `e${this.nextId++}`;
+    this.ids.set(element, id);
+    this.identities.set(id, { element, fingerprint });
+    return id;
+  }
+  
+  /**
+   * Claim the id of a node that left the page and looked like this one,
+   * matching on selector, then text, then position
+   */
+  private adoptOrphan(fingerprint: Fingerprint): string | undefined {
+    const candidates = this.orphans.filter(([, orphan]) =>
+      orphan.fingerprint.tag === fingerprint.tag && orphan.fingerprint.scope === fingerprint.scope
+    );
+    const { selector, text, boundingBox } = fingerprint;
+    const match =
+      (selector ? candidates.find(([, orphan]) => orphan.fingerprint.selector === selector) : undefined) ??
+      (text ? candidates.find(([, orphan]) => orphan.fingerprint.text === text) : undefined) ??
+      (boundingBox
+        ? candidates.find(([, orphan]) => orphan.fingerprint.boundingBox && isSameBox(orphan.fingerprint.boundingBox, boundingBox))
+        : undefined);
+    if (!match) return undefined;
+    
+    const [id, orphan] = match;
+    this.orphans = this.orphans.filter(candidate => candidate !== match);
+    this.ids.delete(orphan.element);
+    return id;
+  }
+  
+  /**
+   * Drop identities whose node left the page without being replaced
+   */
+  private forgetOrphans(): void {
+    for (const [id, { element }] of this.identities) {
+      if (!element.isConnected) {
+        this.identities.delete(id);
+        this.ids.delete(element);
+      }
+    }
+    this.orphans = [];
+  }
+  
   private isInsideExcluded(element: Element): boolean {
     let current: Element | null = element;
+    let crossedFrame = false;
     
     while (current && current !== this.document.body) {
       const tag = current.tagName.toLowerCase();
       
-      if (EXCLUDED_TAGS.has(tag)) {
+      // An iframe reached from its own document holds the element rather than excluding it
+      if (EXCLUDED_TAGS.has(tag) && !crossedFrame) {
         return true;
       }
       
       // Check for hidden elements
-      if (current instanceof HTMLElement) {
+      if (isElementOf(current, 'HTMLElement')) {
         if (current.hidden || 
             current.getAttribute('aria-hidden') === 'true') {
           return true;
         }
       }
       
-      current = current.parentElement;
+      // Continue from the shadow host at the top of a shadow tree, and from the
+      // iframe at the top of a frame document
+      const parent: Element | null = current.parentElement ?? shadowHostOf(current);
+      crossedFrame = !parent;
+      current = parent ?? frameElementOf(current);
     }
     
     return false;
   }
   
   private getElementValue(element: Element): string | undefined {
-    if (element instanceof HTMLInputElement) {
+    if (isElementOf(element, 'HTMLInputElement')) {
       return element.type === 'password' ? '********' : element.value;
     }
-    if (element instanceof HTMLTextAreaElement) {
+    if (isElementOf(element, 'HTMLTextAreaElement')) {
       return element.value;
     }
-    if (element instanceof HTMLSelectElement) {
+    if (isElementOf(element, 'HTMLSelectElement')) {
       return element.value;
     }
     if (element.hasAttribute('contenteditable')) {
@@ -902,7 +1778,7 @@ export class DOMDistiller {
     
     // Check for associated label
     if (element.id) {
-      const label = this.document.querySelector(`label[for="${element.id}"]`);
+      const label = searchRootOf(element).querySelector(`label[for="${element.id}"]`);
       if (label) {
         return truncateText(normalizeWhitespace(label.textContent || ''), 100);
       }
@@ -918,7 +1794,7 @@ export class DOMDistiller {
   }
   
   private getSelectOptions(element: Element): InputFieldElement['options'] {
-    if (!(element instanceof HTMLSelectElement)) {
+    if (!isElementOf(element, 'HTMLSelectElement')) {
       return undefined;
     }
     
@@ -932,7 +1808,7 @@ export class DOMDistiller {
   private getButtonText(element: Element): string | undefined {
     if (element.tagName.toLowerCase() === 'button' ||
         element.getAttribute('role') === 'button' ||
-        (element instanceof HTMLInputElement && 
+        (isElementOf(element, 'HTMLInputElement') && 
          ['submit', 'button', 'reset'].includes(element.type))) {
       return truncateText(normalizeWhitespace(element.textContent || ''), 50) ||
              element.getAttribute('value') ||
@@ -993,6 +1869,6 @@ export class DOMDistiller {
 /**
  * Factory function to create a DOMDistiller
  */
-export function createDistiller(doc?: Document): DOMDistiller {
-  return new DOMDistiller(doc);
+export function createDistiller(doc?: Document, options?: DOMDistillerOptions): DOMDistiller {
+  return new DOMDistiller(doc, options);
 }
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview FactScratchpad - Facts discovered while a task runs, numbered for citation
+ */
+
+import type { Fact, Observation, SubTaskResult } from '../types';
+
+// ============================================================================
+// FACT SCRATCHPAD CLASS
+// ============================================================================
+
+export class FactScratchpad {
+  private facts: Fact[] = [];
+  private readonly seen = new Set<string>();
+
+  /**
+   * Add an observation unless the same text was already recorded for that page
+   */
+  add(subtaskId: string, observation: Observation): Fact | null {
+    const text = observation.text.trim();
+    const key = `${observation.url}\n${text}`;
+    if (!text || this.seen.has(key)) return null;
+    this.seen.add(key);
+
+    const fact: Fact = { ...observation, text, id: `f${this.facts.length + 1}`, subtaskId };
+    this.facts.push(fact);
+    return fact;
+  }
+
+  /**
+   * Add the observations of a result and of its children (loop iterations included)
+   */
+  record(result: SubTaskResult): Fact[] {
+    const added = (result.observations ?? [])
+      .map(observation => this.add(result.subtaskId, observation))
+      .filter((fact): fact is Fact => fact !== null);
+    for (const child of result.children ?? []) {
+      added.push(...this.record(child));
+    }
+    return added;
+  }
+
+  get(id: string): Fact | undefined {
+    return this.facts.find(f => f.id === id);
+  }
+
+  getAll(): readonly Fact[] {
+    return [...this.facts];
+  }
+
+  /**
+   * Whether anything beyond action feedback was learned
+   */
+  hasFindings(): boolean {
+    return this.facts.some(f => f.kind !== 'action');
+  }
+}
+
+/**
+ * Create an empty fact scratchpad
+ */
+export function createFactScratchpad(): FactScratchpad {
+  return new FactScratchpad();
+}
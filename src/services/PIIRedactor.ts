@@ -0,0 +1,219 @@
+/**
+ * @fileoverview PIIRedactor - Reversible redaction of personal data in page content
+ *
+ * Detected values are replaced with `{{pii:kind_n}}` tokens. The same value always
+ * gets the same token, so the model can refer to it, and the ActionExecutor
+ * restores the real value when the model types or selects a token.
+ */
+
+import type {
+  DistilledDOM,
+  PIIDetector,
+  PIIRedactionConfig,
+} from '../types';
+import { DOMDistillationMode as Mode } from '../types';
+import { mapStrings } from '../utils/mapStrings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface Detector {
+  /** Token label */
+  readonly name: string;
+  readonly pattern: RegExp;
+  /** Rejects false positives the pattern cannot rule out */
+  readonly validate?: (match: string) => boolean;
+}
+
+/** Matches `{{pii:kind_n}}` tokens */
+const TOKEN_PATTERN = /\{\{pii:[a-z0-9_]+\}\}/g;
+
+/** Token label of values redacted whole by a selector rule */
+const SELECTOR_TOKEN = 'redacted';
+
+/**
+ * Built-in detectors, in the order they run. Cards and IBANs go before phone
+ * numbers, whose looser pattern would otherwise claim their digits.
+ */
+const BUILT_IN_DETECTORS: ReadonlyArray<Detector & { readonly detector: PIIDetector }> = [
+  { detector: 'email', name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { detector: 'iban', name: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, validate: isValidIban },
+  { detector: 'card', name: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+  { detector: 'nationalId', name: 'national_id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { detector: 'nationalId', name: 'national_id', pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g },
+  {
+    detector: 'phone',
+    name: 'phone',
+    pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?|\b)\d{2,4}(?:[ .-]\d{2,5}){1,4}\b/g,
+    validate: looksLikePhone,
+  },
+];
+
+/** Element fields that describe structure rather than content */
+const STRUCTURAL_FIELDS = new Set([
+  'index', 'id', 'tag', 'type', 'inputType', 'role', 'selector', 'xpath', 'frame', 'shadowHost', 'pattern',
+  'children', 'boundingBox', 'depth', 'level', 'states',
+]);
+
+// ============================================================================
+// PII REDACTOR CLASS
+// ============================================================================
+
+export class PIIRedactor {
+  private readonly detectors: readonly Detector[];
+  private readonly selectors: readonly string[];
+  private readonly values = new Map<string, string>();
+  private readonly tokens = new Map<string, string>();
+  private readonly counts = new Map<string, number>();
+
+  constructor(config: PIIRedactionConfig = {}) {
+    const enabled = new Set(config.detectors ?? BUILT_IN_DETECTORS.map(d => d.detector));
+    this.detectors = [
+      ...(config.patterns ?? []).map(({ name, pattern }) => ({
+        name: name.toLowerCase().replace(/[^a-z0-9_]+/g, '_'),
+        pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+      })),
+      ...BUILT_IN_DETECTORS.filter(d => enabled.has(d.detector)),
+    ];
+    this.selectors = config.selectors ?? [];
+  }
+
+  /**
+   * Replace detected personal data with tokens
+   */
+  redact(text: string): string {
+    let redacted = text;
+    for (const { name, pattern, validate } of this.detectors) {
+      redacted = redacted.replace(pattern, match => (validate && !validate(match) ? match : this.tokenize(name, match)));
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact element contents; elements matching (or inside) a selector rule are redacted whole
+   */
+  redactDOM(dom: DistilledDOM, getElement: (index: number) => Element | null): DistilledDOM {
+    const redactItem = <T extends { readonly index: number }>(item: T): T => {
+      const element = this.selectors.length > 0 ? getElement(item.index) : null;
+      const whole = element !== null && this.selectors.some(selector => element.closest(selector) !== null);
+      const redactText = (text: string) => (whole ? this.tokenize(SELECTOR_TOKEN, text) : this.redact(text));
+
+      const redacted: Record<string, unknown> = { ...item };
+      for (const [key, value] of Object.entries(item)) {
+        if (!STRUCTURAL_FIELDS.has(key)) redacted[key] = mapStrings(value, redactText);
+      }
+      return redacted as T;
+    };
+
+    const page = { url: this.redact(dom.url), title: this.redact(dom.title) };
+    switch (dom.mode) {
+      case Mode.TEXT_ONLY:
+        return { ...dom, ...page, content: dom.content.map(redactItem) };
+      case Mode.INPUT_FIELDS:
+        return {
+          ...dom, ...page,
+          elements: dom.elements.map(redactItem),
+          forms: dom.forms.map(form => mapStrings(form, text => this.redact(text))),
+        };
+      case Mode.ALL_FIELDS:
+        return {
+          ...dom, ...page,
+          elements: dom.elements.map(redactItem),
+          landmarks: dom.landmarks.map(landmark => mapStrings(landmark, text => this.redact(text))),
+        };
+      case Mode.ACCESSIBILITY:
+        return { ...dom, ...page, elements: dom.elements.map(redactItem) };
+    }
+  }
+
+  /**
+   * Replace tokens with the values they stand for (unknown tokens are kept)
+   */
+  restore(text: string): string {
+    return text.replace(TOKEN_PATTERN, token => this.values.get(token) ?? token);
+  }
+
+  /**
+   * Restore tokens inside JSON text, escaping the values for string literals
+   */
+  restoreJSON(text: string): string {
+    return text.replace(TOKEN_PATTERN, token => {
+      const value = this.values.get(token);
+      return value === undefined ? token : JSON.stringify(value).slice(1, -1);
+    });
+  }
+
+  /**
+   * Restore tokens in every string of plain data
+   */
+  restoreDeep<T>(value: T): T {
+    if (this.values.size === 0) return value;
+    return mapStrings(value, text => this.restore(text));
+  }
+
+  private tokenize(name: string, value: string): string {
+    if (!value.trim()) return value;
+    const existing = this.tokens.get(value);
+    if (existing) return existing;
+
+    const count = (this.counts.get(name) ?? 0) + 1;
+    this.counts.set(name, count);
+    const token = `{{pii:${name}_${count}}}`;
+    this.tokens.set(value, token);
+    this.values.set(token, value);
+    return token;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Luhn checksum, which every payment card number passes
+ */
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check
+ */
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/ /g, '');
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = parseInt(char, 36);
+    remainder = Number(`${remainder}${value}`) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * 7-15 digits, written with a country code, area code or separators, and not a date
+ */
+function looksLikePhone(match: string): boolean {
+  const digits = match.replace(/\D/g, '').length;
+  if (digits < 7 || digits > 15) return false;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(match) || /^\d{1,3}(?:\.\d{3})+$/.test(match)) return false;
+  return /^[+(]/.test(match) || /\d[ -]\d/.test(match);
+}
+
+/**
+ * Create a PII redactor
+ */
+export function createPIIRedactor(config?: PIIRedactionConfig): PIIRedactor {
+  return new PIIRedactor(config);
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview QuestionBroker - Questions for the user that wait for the host app's answer
+ */
+
+import type { UserQuestion } from '../types';
+import { raceAbort, throwIfAborted } from '../utils/abort';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Nobody answered a question in time
+ */
+export class UserInputTimeoutError extends Error {
+  readonly questionId: string;
+
+  constructor(question: UserQuestion, timeoutMs: number) {
+    super(`No answer to "${question.question}" within ${timeoutMs}ms`);
+    this.name = 'UserInputTimeoutError';
+    this.questionId = question.id;
+  }
+}
+
+export interface QuestionBrokerConfig {
+  /** Delivers each question to whoever can answer it */
+  onQuestion: (question: UserQuestion) => void;
+  /** Time to wait for an answer (default: 300000) */
+  timeoutMs?: number;
+}
+
+// ============================================================================
+// QUESTION BROKER CLASS
+// ============================================================================
+
+export class QuestionBroker {
+  private readonly onQuestion: (question: UserQuestion) => void;
+  private readonly timeoutMs: number;
+  private readonly pending = new Map<string, (answer: string) => void>();
+  private questionCount = 0;
+
+  constructor(config: QuestionBrokerConfig) {
+    this.onQuestion = config.onQuestion;
+    this.timeoutMs = config.timeoutMs ?? 300_000;
+  }
+
+  /**
+   * Publish a question and wait for its answer
+   *
+   * @throws UserInputTimeoutError when no answer arrives in time
+   */
+  async ask(question: Omit<UserQuestion, 'id'>, signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal);
+    const asked: UserQuestion = { id: `question_${++this.questionCount}`, ...question };
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const answer = new Promise<string>((resolve, reject) => {
+      this.pending.set(asked.id, resolve);
+      timer = setTimeout(() => reject(new UserInputTimeoutError(asked, this.timeoutMs)), this.timeoutMs);
+    });
+    try {
+      this.onQuestion(asked);
+      return await raceAbort(answer, signal);
+    } finally {
+      clearTimeout(timer);
+      this.pending.delete(asked.id);
+    }
+  }
+
+  /**
+   * Answer a pending question; false if it is unknown, answered or timed out
+   */
+  respond(questionId: string, answer: string): boolean {
+    const resolve = this.pending.get(questionId);
+    if (!resolve) return false;
+    this.pending.delete(questionId);
+    resolve(answer);
+    return true;
+  }
+
+  /**
+   * Ids of the questions still waiting for an answer
+   */
+  getPending(): string[] {
+    return [...this.pending.keys()];
+  }
+}
+
+/**
+ * Create a question broker
+ */
+export function createQuestionBroker(config: QuestionBrokerConfig): QuestionBroker {
+  return new QuestionBroker(config);
+}
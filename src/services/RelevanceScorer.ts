@@ -0,0 +1,81 @@
+/**
+ * @fileoverview RelevanceScorer - Ranks page text against what a subtask is looking for
+ *
+ * The default scorer is lexical and runs offline. An embedding-based scorer can be
+ * plugged into the DOMDistiller through the same interface.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RelevanceScorer {
+  /**
+   * Relevance of each text to the query, in the same order (higher is more relevant;
+   * the lexical scorer returns 0-1)
+   */
+  score(query: string, texts: readonly string[]): number[] | Promise<number[]>;
+}
+
+/** Words that say what to do rather than what to find */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'its',
+  'of', 'on', 'or', 'the', 'then', 'this', 'that', 'to', 'with', 'your', 'my',
+  'click', 'press', 'tap', 'type', 'enter', 'fill', 'select', 'choose', 'open', 'go', 'find',
+]);
+
+/** Shortest shared prefix that counts as a partial match ("ship" ~ "shipping") */
+const MIN_PREFIX = 4;
+
+/** Credit for a partial match, relative to an exact one */
+const PARTIAL_MATCH = 0.5;
+
+// ============================================================================
+// LEXICAL SCORER
+// ============================================================================
+
+/**
+ * Share of the query's terms found in the text, counting shared word stems as half a match
+ */
+export class LexicalScorer implements RelevanceScorer {
+  score(query: string, texts: readonly string[]): number[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return texts.map(() => 0);
+
+    return texts.map(text => {
+      const terms = new Set(tokenize(text));
+      if (terms.size === 0) return 0;
+
+      let matched = 0;
+      for (const term of queryTerms) {
+        if (terms.has(term)) {
+          matched += 1;
+        } else if ([...terms].some(candidate => sharesStem(term, candidate))) {
+          matched += PARTIAL_MATCH;
+        }
+      }
+      return matched / queryTerms.length;
+    });
+  }
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(term => !STOP_WORDS.has(term));
+}
+
+/**
+ * Whether two terms start alike: at least MIN_PREFIX letters, and all but the
+ * last three letters of the shorter one
+ */
+function sharesStem(a: string, b: string): boolean {
+  let common = 0;
+  while (common < a.length && common < b.length && a[common] === b[common]) common++;
+  return common >= Math.max(MIN_PREFIX, Math.min(a.length, b.length) - 3);
+}
+
+/**
+ * Create the default, offline relevance scorer
+ */
+export function createLexicalScorer(): LexicalScorer {
+  return new LexicalScorer();
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview SecretVault - Credentials the model refers to only by placeholder
+ *
+ * The model sees `{{secret:name}}`; the ActionExecutor substitutes the real value
+ * when typing, and everything leaving the agent (prompts, feedback, events,
+ * results, logs) has the values replaced by their placeholders again.
+ */
+
+import { mapStrings } from '../utils/mapStrings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Matches `{{secret:name}}` placeholders */
+const PLACEHOLDER_PATTERN = /\{\{secret:([\w.-]+)\}\}/g;
+
+const NAME_PATTERN = /^[\w.-]+$/;
+
+// ============================================================================
+// SECRET VAULT CLASS
+// ============================================================================
+
+export class SecretVault {
+  private readonly secrets = new Map<string, string>();
+
+  constructor(secrets: Readonly<Record<string, string>> = {}) {
+    for (const [name, value] of Object.entries(secrets)) {
+      this.set(name, value);
+    }
+  }
+
+  /**
+   * Store a secret
+   *
+   * @throws Error if the name cannot be used in a placeholder
+   */
+  set(name: string, value: string): void {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name "${name}": use letters, digits, "_", "." or "-"`);
+    }
+    this.secrets.set(name, value);
+  }
+
+  delete(name: string): boolean {
+    return this.secrets.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.secrets.has(name);
+  }
+
+  getNames(): string[] {
+    return [...this.secrets.keys()];
+  }
+
+  /**
+   * Placeholders for every stored secret, as shown to the model
+   */
+  getPlaceholders(): string[] {
+    return this.getNames().map(placeholder);
+  }
+
+  /**
+   * Replace placeholders with the real values
+   *
+   * @throws Error naming (never revealing) an unknown secret
+   */
+  resolve(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+      const value = this.secrets.get(name);
+      if (value === undefined) {
+        throw new Error(`Unknown secret "${name}"`);
+      }
+      return value;
+    });
+  }
+
+  /**
+   * Whether the text refers to a secret by placeholder
+   */
+  mentions(text: string): boolean {
+    return text.search(PLACEHOLDER_PATTERN) !== -1;
+  }
+
+  /**
+   * Whether the text contains any secret value
+   */
+  contains(text: string): boolean {
+    return this.values().some(([, value]) => text.includes(value));
+  }
+
+  /**
+   * Replace secret values with their placeholders (longest value first, so
+   * a secret containing another is replaced whole)
+   */
+  redact(text: string): string {
+    let redacted = text;
+    for (const [name, value] of this.values()) {
+      redacted = redacted.split(value).join(placeholder(name));
+    }
+    return redacted;
+  }
+
+  /**
+   * Redact every string in plain objects and arrays; other values (functions,
+   * class instances, DOM nodes) are kept as they are
+   */
+  redactDeep<T>(value: T): T {
+    if (this.secrets.size === 0) return value;
+    return mapStrings(value, text => this.redact(text));
+  }
+
+  private values(): Array<[string, string]> {
+    return [...this.secrets.entries()]
+      .filter(([, value]) => value.length > 0)
+      .sort(([, a], [, b]) => b.length - a.length);
+  }
+}
+
+function placeholder(name: string): string {
+  return `{{secret:${name}}}`;
+}
+
+/**
+ * Create a secret vault, optionally pre-filled
+ */
+export function createSecretVault(secrets?: Readonly<Record<string, string>>): SecretVault {
+  return new SecretVault(secrets);
+}
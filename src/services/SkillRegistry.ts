@@ -348,6 +348,44 @@ export function createPrimitiveSkills(config: PrimitiveSkillsConfig): Skill[] {
   return skills;
 }
 
+// ============================================================================
+// ASK USER SKILL
+// ============================================================================
+
+/** Name of the skill (and JSON-mode action) for asking the user */
+export const ASK_USER_SKILL = 'ask_user';
+
+export interface AskUserParams {
+  question: string;
+  /** Indices of the form fields the answer is for */
+  fields?: number[];
+}
+
+/**
+ * Skill that pauses the task for information only the user has.
+ * `ask` resolves with the answer, or rejects when none can be had.
+ */
+export function createAskUserSkill(ask: (params: AskUserParams) => Promise<string>): Skill<AskUserParams, string> {
+  return {
+    name: ASK_USER_SKILL,
+    description: 'Ask the user for information you cannot find or should not guess, such as a password, a 2FA code or a choice between options',
+    parameters: {
+      type: 'object',
+      properties: {
+        question: { type: 'string', description: 'Question for the user' },
+        fields: {
+          type: 'array',
+          description: 'Indices of the form fields the answer is for',
+          items: { type: 'number' },
+        },
+      },
+      required: ['question'],
+    },
+    category: 'utility',
+    execute: async (params: AskUserParams) => ask(params),
+  };
+}
+
 // ============================================================================
 // DEFAULT REGISTRY
 // ============================================================================
@@ -16,6 +16,12 @@ export interface Checkpoint {
   cookies?: string;
 }
 
+export interface StateManagerOptions {
+  maxHistory?: number;
+  /** Values never captured, like password fields (e.g. values holding a secret) */
+  isSecret?: (value: string) => boolean;
+}
+
 export interface StateSnapshot {
   url: string;
   title: string;
@@ -34,9 +40,11 @@ export class StateManager {
   private maxHistory: number;
   private document: Document;
   private window: Window;
+  private isSecret: (value: string) => boolean;
 
-  constructor(options: { maxHistory?: number; doc?: Document; win?: Window } = {}) {
+  constructor(options: StateManagerOptions & { doc?: Document; win?: Window } = {}) {
     this.maxHistory = options.maxHistory ?? 50;
+    this.isSecret = options.isSecret ?? (() => false);
     this.document = options.doc || document;
     this.window = options.win || window;
   }
@@ -180,10 +188,10 @@ export class StateManager {
           if (el.checked) {
             data.set(key, el.value || 'on');
           }
-        } else if (el.type !== 'password') {
+        } else if (el.type !== 'password' && !this.isSecret(el.value)) {
           data.set(key, el.value);
         }
-      } else {
+      } else if (!this.isSecret(el.value)) {
         data.set(key, el.value);
       }
     });
@@ -222,7 +230,7 @@ export class StateManager {
  * Create a state manager instance
  */
 export function createStateManager(
-  options?: { maxHistory?: number }
+  options?: StateManagerOptions
 ): StateManager {
   return new StateManager(options);
 }
@@ -0,0 +1,330 @@
+/**
+ * @fileoverview SubtaskScheduler - Orders plan subtasks by dependencies and priority
+ */
+
+import type { SkippedSubtask, SubTask } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** `replaced` subtasks were superseded by a recovery and no longer count */
+type SubtaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'replaced';
+
+/**
+ * The plan's dependency graph cannot be executed
+ */
+export class PlanValidationError extends Error {
+  readonly issues: readonly string[];
+
+  constructor(issues: readonly string[]) {
+    super(`Invalid plan: ${issues.join('; ')}`);
+    this.name = 'PlanValidationError';
+    this.issues = issues;
+  }
+}
+
+const PRIORITY_RANK: Record<NonNullable<SubTask['priority']>, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// ============================================================================
+// SUBTASK SCHEDULER CLASS
+// ============================================================================
+
+/**
+ * Hands out subtasks whose dependencies have all succeeded, highest priority
+ * first (plan order breaks ties). When a subtask fails, everything that
+ * depends on it, directly or transitively, is skipped. Recoveries can re-queue,
+ * replace or replan subtasks while the schedule is running.
+ */
+export class SubtaskScheduler {
+  private subtasks: SubTask[];
+  private readonly status = new Map<string, SubtaskStatus>();
+  private readonly skipped: SkippedSubtask[] = [];
+  private replans = 0;
+
+  /**
+   * @throws PlanValidationError on duplicate ids, unknown dependencies or cycles
+   */
+  constructor(subtasks: readonly SubTask[]) {
+    const issues = validateSubtaskGraph(subtasks);
+    if (issues.length > 0) {
+      throw new PlanValidationError(issues);
+    }
+
+    this.subtasks = [...subtasks];
+    for (const subtask of subtasks) {
+      this.status.set(subtask.id, 'pending');
+    }
+  }
+
+  /**
+   * Next runnable subtask (marked running), or null when none is ready
+   */
+  next(): SubTask | null {
+    let best: SubTask | null = null;
+    for (const subtask of this.subtasks) {
+      if (!this.isReady(subtask)) continue;
+      if (!best || rank(subtask) < rank(best)) {
+        best = subtask;
+      }
+    }
+    if (best) {
+      this.status.set(best.id, 'running');
+    }
+    return best;
+  }
+
+  /**
+   * Mark a subtask as succeeded, unblocking its dependents
+   */
+  complete(id: string): void {
+    this.status.set(id, 'succeeded');
+  }
+
+  /**
+   * Mark a subtask as failed; returns the dependents skipped as a result
+   */
+  fail(id: string): SkippedSubtask[] {
+    this.status.set(id, 'failed');
+    return this.skipDependents(id, `Dependency "${id}" failed`);
+  }
+
+  /**
+   * Skip a subtask without running it; its dependents are skipped too
+   */
+  skip(id: string, reason: string): SkippedSubtask[] {
+    this.status.set(id, 'skipped');
+    return this.skipDependents(id, `Dependency "${id}" was skipped (${reason})`);
+  }
+
+  /**
+   * Queue a subtask again, with `modifications` applied; returns the updated subtask
+   */
+  retry(id: string, modifications: Partial<SubTask> = {}): SubTask {
+    // Identity and position in the graph stay fixed
+    const { id: _id, dependencies: _dependencies, ...changes } = modifications;
+    const updated: SubTask = { ...this.get(id), ...changes };
+    this.subtasks = this.subtasks.map(s => (s.id === id ? updated : s));
+    this.status.set(id, 'pending');
+    return updated;
+  }
+
+  /**
+   * Replace a subtask with alternatives, which take over its place, priority
+   * and dependents. Returns the alternatives with their scheduled ids ("<id>.1", ...).
+   *
+   * @throws PlanValidationError if the alternatives form a cycle
+   */
+  replace(id: string, alternatives: readonly SubTask[]): SubTask[] {
+    const original = this.get(id);
+    const adopted = this.adopt(alternatives, `${id}.`, original);
+    const adoptedIds = adopted.map(s => s.id);
+
+    const rewired = this.subtasks.map(s => {
+      if (!s.dependencies?.includes(id)) return s;
+      return { ...s, dependencies: [...s.dependencies.filter(dep => dep !== id), ...adoptedIds] };
+    });
+    const index = rewired.findIndex(s => s.id === id);
+    rewired.splice(index + 1, 0, ...adopted);
+
+    this.commit(rewired, adopted);
+    this.status.set(id, 'replaced');
+    return adopted;
+  }
+
+  /**
+   * Drop the failed subtask and everything still pending in favour of a fresh
+   * remainder plan. Remainder dependencies may reference completed subtasks.
+   *
+   * @throws PlanValidationError if the remainder forms a cycle
+   */
+  replan(id: string, remainder: readonly SubTask[]): { added: SubTask[]; removed: string[] } {
+    this.replans++;
+    const adopted = this.adopt(remainder, `r${this.replans}.`);
+    const removed = [id, ...this.subtasks.filter(s => this.status.get(s.id) === 'pending').map(s => s.id)];
+
+    this.commit([...this.subtasks, ...adopted], adopted);
+    for (const removedId of removed) {
+      this.status.set(removedId, 'replaced');
+    }
+    return { added: adopted, removed };
+  }
+
+  /**
+   * Subtasks that have succeeded, in plan order
+   */
+  getCompleted(): SubTask[] {
+    return this.subtasks.filter(s => this.status.get(s.id) === 'succeeded');
+  }
+
+  /**
+   * Whether every subtask still in the schedule has succeeded
+   */
+  allSucceeded(): boolean {
+    return [...this.status.values()].every(s => s === 'succeeded' || s === 'replaced');
+  }
+
+  getSkipped(): readonly SkippedSubtask[] {
+    return [...this.skipped];
+  }
+
+  private get(id: string): SubTask {
+    const subtask = this.subtasks.find(s => s.id === id);
+    if (!subtask) {
+      throw new Error(`Unknown subtask "${id}"`);
+    }
+    return subtask;
+  }
+
+  /**
+   * Give planner-generated subtasks ids unique in this schedule. Dependencies on
+   * ids within the batch are renamed; dependencies on completed subtasks are kept
+   * and anything else is dropped.
+   */
+  private adopt(batch: readonly SubTask[], prefix: string, inheritFrom?: SubTask): SubTask[] {
+    const taken = new Set(this.status.keys());
+    const renamed = new Map<string, string>();
+    const ids = batch.map((subtask, i) => {
+      let id = `${prefix}${i + 1}`;
+      for (let n = 2; taken.has(id); n++) id = `${prefix}${i + 1}_${n}`;
+      taken.add(id);
+      if (!renamed.has(subtask.id)) renamed.set(subtask.id, id);
+      return id;
+    });
+
+    return batch.map(({ dependencies, ...subtask }, i) => {
+      const deps = [
+        ...(inheritFrom?.dependencies ?? []),
+        ...(dependencies ?? []).flatMap(dep => {
+          // Batch ids shadow existing ones, except where that would be a self-dependency
+          const id = renamed.get(dep);
+          if (id && id !== ids[i]) return [id];
+          return this.status.get(dep) === 'succeeded' ? [dep] : [];
+        }),
+      ];
+      const priority = subtask.priority ?? inheritFrom?.priority;
+      return {
+        ...subtask,
+        id: ids[i]!,
+        ...(deps.length > 0 ? { dependencies: [...new Set(deps)] } : {}),
+        ...(priority ? { priority } : {}),
+      };
+    });
+  }
+
+  private commit(subtasks: SubTask[], added: readonly SubTask[]): void {
+    const issues = validateSubtaskGraph(subtasks);
+    if (issues.length > 0) {
+      throw new PlanValidationError(issues);
+    }
+    this.subtasks = subtasks;
+    for (const subtask of added) {
+      this.status.set(subtask.id, 'pending');
+    }
+  }
+
+  private isReady(subtask: SubTask): boolean {
+    return this.status.get(subtask.id) === 'pending' &&
+      (subtask.dependencies ?? []).every(dep => this.status.get(dep) === 'succeeded');
+  }
+
+  private skipDependents(id: string, reason: string): SkippedSubtask[] {
+    const newlySkipped: SkippedSubtask[] = [];
+    const queue = [{ id, reason }];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const dependent of this.subtasks) {
+        if (!dependent.dependencies?.includes(current.id) || this.status.get(dependent.id) !== 'pending') continue;
+
+        this.status.set(dependent.id, 'skipped');
+        newlySkipped.push({ subtask: dependent, blockedBy: current.id, reason: current.reason });
+        queue.push({ id: dependent.id, reason: `Dependency "${dependent.id}" was skipped` });
+      }
+    }
+
+    this.skipped.push(...newlySkipped);
+    return newlySkipped;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Problems that make a plan impossible to schedule (empty when valid)
+ */
+export function validateSubtaskGraph(subtasks: readonly SubTask[]): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  for (const subtask of subtasks) {
+    if (ids.has(subtask.id)) {
+      issues.push(`Duplicate subtask id "${subtask.id}"`);
+    }
+    ids.add(subtask.id);
+  }
+
+  for (const subtask of subtasks) {
+    for (const dep of subtask.dependencies ?? []) {
+      if (dep === subtask.id) {
+        issues.push(`Subtask "${subtask.id}" depends on itself`);
+      } else if (!ids.has(dep)) {
+        issues.push(`Subtask "${subtask.id}" depends on unknown subtask "${dep}"`);
+      }
+    }
+  }
+
+  const cycle = findCycle(subtasks);
+  if (cycle) {
+    issues.push(`Dependency cycle: ${cycle.join(' -> ')}`);
+  }
+
+  return issues;
+}
+
+/**
+ * Depth-first search for a dependency cycle (self-dependencies are reported separately)
+ */
+function findCycle(subtasks: readonly SubTask[]): string[] | null {
+  const byId = new Map(subtasks.map(s => [s.id, s]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    path.push(id);
+
+    for (const dep of byId.get(id)?.dependencies ?? []) {
+      if (dep === id || !byId.has(dep)) continue;
+      if (state.get(dep) === 'visiting') {
+        return [...path.slice(path.indexOf(dep)), dep];
+      }
+      if (!state.has(dep)) {
+        const cycle = visit(dep);
+        if (cycle) return cycle;
+      }
+    }
+
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const subtask of subtasks) {
+    if (!state.has(subtask.id)) {
+      const cycle = visit(subtask.id);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+function rank(subtask: SubTask): number {
+  return PRIORITY_RANK[subtask.priority ?? 'medium'];
+}
@@ -2,13 +2,15 @@
  * @fileoverview TokenTracker - Tracks token usage and costs
  */
 
+import type { LLMAgentRole } from '../types';
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface TokenUsageRecord {
   timestamp: number;
-  agent: 'planner' | 'browserNav';
+  agent: LLMAgentRole;
   model: string;
   promptTokens: number;
   completionTokens: number;
@@ -23,10 +25,7 @@ export interface TokenMetrics {
   totalCost: number;
   averageTokensPerRequest: number;
   requestCount: number;
-  byAgent: {
-    planner: { tokens: number; cost: number; requests: number };
-    browserNav: { tokens: number; cost: number; requests: number };
-  };
+  byAgent: Record<LLMAgentRole, { tokens: number; cost: number; requests: number }>;
   byModel: Record<string, { tokens: number; cost: number; requests: number }>;
 }
 
@@ -68,7 +67,7 @@ export class TokenTracker {
    * Track a new usage record
    */
   track(
-    agent: 'planner' | 'browserNav',
+    agent: LLMAgentRole,
     model: string,
     promptTokens: number,
     completionTokens: number
@@ -109,6 +108,9 @@ export class TokenTracker {
       byAgent: {
         planner: { tokens: 0, cost: 0, requests: 0 },
         browserNav: { tokens: 0, cost: 0, requests: 0 },
+        verifier: { tokens: 0, cost: 0, requests: 0 },
+        chat: { tokens: 0, cost: 0, requests: 0 },
+        extractor: { tokens: 0, cost: 0, requests: 0 },
       },
       byModel: {},
     };
@@ -5,6 +5,9 @@
  * Following a strict TypeScript approach with no implicit any.
  */
 
+import type { z } from 'zod';
+import type { LLMProvider as LLMProviderInstance } from '../infrastructure/LLMProvider';
+
 // ============================================================================
 // DOM DISTILLATION TYPES
 // ============================================================================
@@ -22,6 +25,9 @@ export enum DOMDistillationMode {
   /** Extract all interactive elements with hierarchy - comprehensive */
   ALL_FIELDS = 'all_fields',
   
+  /** Extract the accessibility tree: roles, names, states and nesting - for ARIA widgets */
+  ACCESSIBILITY = 'accessibility',
+  
   /** Smart hybrid mode - automatically choose based on context */
   SMART = 'smart'
 }
@@ -43,6 +49,9 @@ export interface DistilledElementBase {
   /** Unique index for this session - used by LLM to reference elements */
   readonly index: number;
   
+  /** Stable id (e.g. "e12"): kept across distillations, unlike the index */
+  readonly id: string;
+  
   /** HTML tag name (lowercase) */
   readonly tag: string;
   
@@ -66,6 +75,19 @@ export interface DistilledElementBase {
   
   /** Accessible name (aria-label, title, or computed) */
   readonly accessibleName?: string;
+  
+  /**
+   * Path to the same-origin iframe holding the element. Selectors are separated
+   * by " >>> ", each resolved inside the previous frame's document or shadow root.
+   * `selector` and `xpath` are then relative to that frame's document.
+   */
+  readonly frame?: string;
+  
+  /**
+   * Path to the open shadow root holding the element, within its document (same
+   * format as `frame`). `selector` and `xpath` are then relative to that shadow root.
+   */
+  readonly shadowHost?: string;
 }
 
 /**
@@ -76,6 +98,8 @@ export interface TextElement {
   readonly content: string;
   readonly tag: string;
   readonly index: number;
+  /** Stable id, kept across distillations */
+  readonly id: string;
 }
 
 /**
@@ -145,6 +169,8 @@ export interface TextOnlyDOM {
   readonly content: readonly TextElement[];
   readonly tokenCount: number;
   readonly extractedAt: number;
+  /** Set when elements were left out to fit a token budget */
+  readonly dropped?: DroppedElements;
 }
 
 /**
@@ -158,6 +184,8 @@ export interface InputFieldsDOM {
   readonly forms: readonly FormInfo[];
   readonly tokenCount: number;
   readonly extractedAt: number;
+  /** Set when elements were left out to fit a token budget */
+  readonly dropped?: DroppedElements;
 }
 
 /**
@@ -171,12 +199,106 @@ export interface AllFieldsDOM {
   readonly landmarks: readonly LandmarkInfo[];
   readonly tokenCount: number;
   readonly extractedAt: number;
+  /** Set when elements were left out to fit a token budget */
+  readonly dropped?: DroppedElements;
+}
+
+/**
+ * States assistive technology reports for a node (absent when they do not apply)
+ */
+export interface AccessibilityStates {
+  readonly expanded?: boolean;
+  readonly checked?: boolean | 'mixed';
+  readonly selected?: boolean;
+  readonly disabled?: boolean;
+  readonly required?: boolean;
+}
+
+/**
+ * Node of the accessibility tree (for ACCESSIBILITY mode)
+ */
+export interface AccessibilityNode {
+  readonly type: 'node';
+  readonly index: number;
+  /** Stable id, kept across distillations */
+  readonly id: string;
+  /** Explicit or implicit ARIA role */
+  readonly role: string;
+  /** Computed accessible name */
+  readonly name: string;
+  readonly tag: string;
+  /** Nesting depth in the tree, 0 at the top */
+  readonly depth: number;
+  /** Current value of fields, sliders and the like */
+  readonly value?: string;
+  /** Heading level */
+  readonly level?: number;
+  readonly states?: AccessibilityStates;
+  /** Indices of child nodes */
+  readonly children?: readonly number[];
+  /** Same as for other elements (see DistilledElementBase) */
+  readonly frame?: string;
+  readonly shadowHost?: string;
+}
+
+/**
+ * Distilled DOM for ACCESSIBILITY mode: nodes in tree order
+ */
+export interface AccessibilityDOM {
+  readonly mode: DOMDistillationMode.ACCESSIBILITY;
+  readonly url: string;
+  readonly title: string;
+  readonly elements: readonly AccessibilityNode[];
+  readonly tokenCount: number;
+  readonly extractedAt: number;
+  /** Set when elements were left out to fit a token budget */
+  readonly dropped?: DroppedElements;
 }
 
 /**
  * Union type for all distilled DOM types
  */
-export type DistilledDOM = TextOnlyDOM | InputFieldsDOM | AllFieldsDOM;
+export type DistilledDOM = TextOnlyDOM | InputFieldsDOM | AllFieldsDOM | AccessibilityDOM;
+
+/**
+ * Options for a single distillation
+ */
+export interface DistillOptions {
+  /** Keep the most relevant elements whose estimated tokens fit this budget */
+  readonly tokenBudget?: number;
+  /** What elements are ranked against, e.g. the subtask description and target */
+  readonly query?: string;
+}
+
+/**
+ * Elements left out of a distillation to stay within its token budget
+ */
+export interface DroppedElements {
+  readonly tokenBudget: number;
+  /** Stable ids of the elements that did not fit */
+  readonly ids: readonly string[];
+}
+
+/**
+ * Any element of a distilled DOM
+ */
+export type DistilledItem = TextElement | InputFieldElement | InteractiveElement | AccessibilityNode;
+
+/**
+ * What changed between two distillations of a page, matched by stable element id
+ */
+export interface DistilledDelta {
+  readonly mode: DOMDistillationMode;
+  readonly url: string;
+  readonly title: string;
+  /** Elements that were not in the previous snapshot */
+  readonly added: readonly DistilledItem[];
+  /** Elements whose index, value, text or visibility changed */
+  readonly changed: readonly DistilledItem[];
+  /** Stable ids of elements no longer on the page */
+  readonly removed: readonly string[];
+  readonly tokenCount: number;
+}
 
 /**
  * Form information
@@ -293,6 +415,9 @@ export interface ActionResult {
   
   /** Screenshot taken after action (base64) */
   readonly screenshot?: string;
+  
+  /** Approval decision, when the action needed one */
+  readonly approval?: ApprovalRecord;
 }
 
 /**
@@ -300,6 +425,8 @@ export interface ActionResult {
  */
 export interface ElementSnapshot {
   readonly index: number;
+  /** Stable id of the element, when it has been distilled */
+  readonly id?: string;
   readonly selector: string;
   readonly exists: boolean;
   readonly visible: boolean;
@@ -336,6 +463,7 @@ export enum ActionErrorCode {
   NAVIGATION_FAILED = 'NAVIGATION_FAILED',
   NETWORK_ERROR = 'NETWORK_ERROR',
   INVALID_PARAMS = 'INVALID_PARAMS',
+  APPROVAL_DENIED = 'APPROVAL_DENIED',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -356,8 +484,26 @@ export interface SubTask {
   readonly dependencies?: readonly string[];
   readonly estimatedSteps?: number;
   readonly priority?: 'high' | 'medium' | 'low';
+  /** Control flow; `children` run in place of browser actions */
+  readonly control?: SubTaskControl;
+  readonly children?: readonly SubTask[];
+  /** Loop variables in scope when the subtask runs (bound by WebAgent) */
+  readonly variables?: TaskVariables;
 }
 
+/**
+ * How a control subtask runs its children
+ */
+export type SubTaskControl =
+  /** Run the children once, as a unit */
+  | { readonly type: 'group' }
+  /** Extract a list from the page and run the children once per item, bound to `as` */
+  | { readonly type: 'forEach'; readonly items: string; readonly as: string; readonly limit?: number }
+  /** Run the children again while the condition holds on the page */
+  | { readonly type: 'while'; readonly condition: string; readonly maxIterations?: number };
+
+export type TaskVariables = Readonly<Record<string, string>>;
+
 /**
  * Result of executing a SubTask
  */
@@ -370,6 +516,62 @@ export interface SubTaskResult {
   readonly endTime: number;
   readonly tokensUsed: number;
   readonly retryCount: number;
+  /** Verifier verdict, when the subtask reported success and verification ran */
+  readonly verification?: VerificationResult;
+  /** Results of a control subtask's children, or of each loop iteration */
+  readonly children?: readonly SubTaskResult[];
+  /** Loop iteration (1-based) this result covers */
+  readonly iteration?: number;
+  readonly variables?: TaskVariables;
+  /** Data read by an `extract` subtask */
+  readonly data?: unknown;
+  /** What the subtask learned about the page, in the order it was seen */
+  readonly observations?: readonly Observation[];
+  /** Actions the approver denied */
+  readonly denials?: readonly ApprovalRecord[];
+}
+
+/**
+ * Something a subtask read on the page or learned from an action
+ */
+export interface Observation {
+  readonly kind: 'page' | 'action' | 'extraction';
+  readonly text: string;
+  /** Page the observation was made on */
+  readonly url: string;
+  /** Index of the element it came from, in that step's distilled page */
+  readonly elementIndex?: number;
+}
+
+/**
+ * Observation kept on the task's scratchpad, citable by the final answer
+ */
+export interface Fact extends Observation {
+  /** "f1", "f2", ... */
+  readonly id: string;
+  readonly subtaskId: string;
+}
+
+/**
+ * Answer to a question-style task, synthesized from the facts gathered
+ */
+export interface TaskAnswer {
+  readonly text: string;
+  /** 0-1 */
+  readonly confidence: number;
+  /** Facts the answer relies on */
+  readonly citations: readonly Fact[];
+}
+
+/**
+ * Verifier verdict on whether a subtask achieved its goal
+ */
+export interface VerificationResult {
+  readonly completed: boolean;
+  /** 0-1 */
+  readonly confidence: number;
+  readonly reason: string;
+  readonly suggestion?: string;
 }
 
 export interface SubTaskError {
@@ -385,7 +587,49 @@ export enum SubTaskErrorCode {
   ACTION_FAILED = 'ACTION_FAILED',
   CONTEXT_OVERFLOW = 'CONTEXT_OVERFLOW',
   LLM_ERROR = 'LLM_ERROR',
-  TIMEOUT = 'TIMEOUT'
+  TIMEOUT = 'TIMEOUT',
+  /** Nobody answered an ask_user question in time */
+  USER_INPUT_TIMEOUT = 'USER_INPUT_TIMEOUT',
+  /** The page could not be read */
+  DISTILLATION_FAILED = 'DISTILLATION_FAILED',
+  /** A control subtask's children cannot be scheduled */
+  INVALID_PLAN = 'INVALID_PLAN',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Subtask that never ran because a prerequisite failed or was skipped
+ */
+export interface SkippedSubtask {
+  readonly subtask: SubTask;
+  /** Id of the dependency that did not complete */
+  readonly blockedBy: string;
+  readonly reason: string;
+}
+
+/**
+ * How the orchestrator handles a failed subtask
+ * - retry: run it again, optionally with modified fields
+ * - alternative: replace it with different subtasks
+ * - skip: mark it skipped (dependents are skipped too) and continue
+ * - abort: stop the task
+ * - replan: replace everything remaining with a fresh plan from the current page
+ */
+export type RecoveryStrategyType = 'retry' | 'alternative' | 'skip' | 'abort' | 'replan';
+
+/**
+ * A recovery decision applied during execution
+ */
+export interface RecoveryRecord {
+  readonly subtaskId: string;
+  readonly strategy: RecoveryStrategyType;
+  readonly reason: string;
+  /** Failure that triggered the recovery */
+  readonly error: string;
+  /** Subtasks scheduled by the recovery (the modified subtask for retry) */
+  readonly addedSubtasks: readonly SubTask[];
+  /** Pending subtasks dropped by a replan */
+  readonly removedSubtaskIds: readonly string[];
 }
 
 /**
@@ -402,15 +646,25 @@ export interface TaskPlan {
 /**
  * Final result of task execution
  */
-export interface TaskResult {
+export interface TaskResult<TData = unknown> {
   readonly taskId: string;
   readonly success: boolean;
   readonly plan: TaskPlan;
   readonly subtaskResults: readonly SubTaskResult[];
+  /** Subtasks not run because a prerequisite did not complete */
+  readonly skippedSubtasks: readonly SkippedSubtask[];
+  /** Recovery decisions applied after subtask failures, in order */
+  readonly recoveries: readonly RecoveryRecord[];
+  /** Scratchpad of facts discovered by subtasks */
+  readonly facts: readonly Fact[];
   readonly summary: string;
+  /** Synthesized answer with citations (see TaskOptions.answer) */
+  readonly answer?: TaskAnswer;
   readonly totalSteps: number;
   readonly totalTokens: number;
   readonly totalDuration: number;
+  /** Data matching the task's outputSchema, when one was given and the task succeeded */
+  readonly data?: TData;
   readonly error?: TaskError;
 }
 
@@ -441,6 +695,9 @@ export interface JSONSchemaProperty {
   readonly enum?: readonly unknown[];
   readonly items?: JSONSchemaProperty;
   readonly default?: unknown;
+  /** Fields of an object property */
+  readonly properties?: Readonly<Record<string, JSONSchemaProperty>>;
+  readonly required?: readonly string[];
 }
 
 /**
@@ -472,11 +729,114 @@ export interface AnthropicTool {
   readonly input_schema: JSONSchema;
 }
 
+// ============================================================================
+// APPROVAL TYPES
+// ============================================================================
+
+/**
+ * Actions matching a rule need approval before they run.
+ * Every field given must match; a rule with no fields matches nothing.
+ */
+export interface ApprovalRule {
+  readonly actions?: readonly ActionType[];
+  /** Tested against the target element's text, label, aria-label, title and value */
+  readonly elementText?: string | RegExp;
+  /** Tested against the action URL of the form the target element submits */
+  readonly formAction?: string | RegExp;
+  /** Skill categories (tool-calling mode) */
+  readonly skillCategories?: readonly Skill['category'][];
+  /** Why approval is needed, shown to the approver */
+  readonly reason?: string;
+}
+
+export interface ApprovalPolicy {
+  readonly rules: readonly ApprovalRule[];
+  /** Decides requests; without it they are emitted as `action:approval` events */
+  readonly onApproval?: (request: ApprovalRequest) => ApprovalDecision | Promise<ApprovalDecision>;
+  /** Deny when no decision arrives in time (default: wait indefinitely) */
+  readonly timeoutMs?: number;
+}
+
+export interface ApprovalRequest {
+  readonly id: string;
+  readonly taskId: string;
+  /** Browser action, or the skill called in tool-calling mode */
+  readonly action?: ActionType;
+  readonly skill?: string;
+  readonly params: unknown;
+  readonly element?: ApprovalElement;
+  readonly url: string;
+  /** Reasons of the rules that matched */
+  readonly reasons: readonly string[];
+}
+
+/**
+ * What the approver sees of the element an action targets
+ */
+export interface ApprovalElement {
+  readonly tag: string;
+  readonly text: string;
+  readonly formAction?: string;
+}
+
+export type ApprovalDecision =
+  | { readonly outcome: 'approve' }
+  | { readonly outcome: 'deny'; readonly reason?: string }
+  /** Run the action with these parameters instead */
+  | { readonly outcome: 'edit'; readonly params: unknown; readonly reason?: string };
+
+export interface ApprovalRecord {
+  readonly request: ApprovalRequest;
+  readonly decision: ApprovalDecision;
+}
+
+// ============================================================================
+// PII REDACTION TYPES
+// ============================================================================
+
+/** Built-in detectors (nationalId covers US SSNs and UK National Insurance numbers) */
+export type PIIDetector = 'email' | 'phone' | 'card' | 'iban' | 'nationalId';
+
+export interface PIIPattern {
+  /** Token label: "customer_id" gives tokens like {{pii:customer_id_1}} */
+  readonly name: string;
+  readonly pattern: RegExp;
+}
+
+/**
+ * Personal data replaced with reversible `{{pii:kind_n}}` tokens before
+ * page content reaches the model
+ */
+export interface PIIRedactionConfig {
+  /** Built-in detectors to run (default: all) */
+  readonly detectors?: readonly PIIDetector[];
+  /** Additional patterns, run before the built-in detectors */
+  readonly patterns?: readonly PIIPattern[];
+  /** CSS selectors of elements whose text and values are redacted whole */
+  readonly selectors?: readonly string[];
+}
+
+// ============================================================================
+// USER INPUT TYPES
+// ============================================================================
+
+/**
+ * Information the agent asked the user for through the ask_user skill
+ */
+export interface UserQuestion {
+  readonly id: string;
+  readonly taskId: string;
+  readonly question: string;
+  /** Form fields the answer is for (every input field on the page if the agent named none) */
+  readonly fields: readonly InputFieldElement[];
+  readonly url: string;
+}
+
 // ============================================================================
 // LLM PROVIDER TYPES
 // ============================================================================
 
-export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'local';
+export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'local' | 'mock';
 
 export interface LLMConfig {
   readonly provider: LLMProvider;
@@ -493,6 +853,9 @@ export interface LLMMessage {
   readonly content: string;
   readonly name?: string;
   readonly tool_call_id?: string;
+  
+  /** Tool calls requested by the model (assistant messages only) */
+  readonly toolCalls?: readonly ToolCall[];
 }
 
 export interface LLMRequest {
@@ -500,6 +863,35 @@ export interface LLMRequest {
   readonly tools?: readonly OpenAIFunction[] | readonly AnthropicTool[];
   readonly toolChoice?: 'auto' | 'required' | 'none' | { name: string };
   readonly responseFormat?: 'text' | 'json';
+  
+  /** Constrain JSON output to a schema where the provider supports it */
+  readonly responseSchema?: LLMResponseSchema;
+  
+  /** Cancels the request (forwarded to the SDK client or fetch) */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Options for WebAgent.execute()
+ */
+export interface TaskOptions<TSchema extends z.ZodTypeAny = z.ZodType<unknown>> extends ExecuteOptions {
+  /** Extract data matching this schema once the plan has run; returned as TaskResult.data */
+  readonly outputSchema?: TSchema;
+  /**
+   * Synthesize TaskResult.answer from the facts gathered.
+   * Default: when subtasks read facts from the page or extracted data.
+   */
+  readonly answer?: boolean;
+}
+
+/**
+ * JSON Schema for structured output.
+ * Sent as `json_schema` to OpenAI and as a forced tool call to Anthropic.
+ */
+export interface LLMResponseSchema {
+  readonly name: string;
+  readonly description?: string;
+  readonly schema: Readonly<Record<string, unknown>>;
 }
 
 export interface LLMResponse {
@@ -507,6 +899,9 @@ export interface LLMResponse {
   readonly toolCalls?: readonly ToolCall[];
   readonly usage: TokenUsage;
   readonly finishReason: 'stop' | 'tool_calls' | 'length' | 'content_filter';
+  
+  /** Model that actually served the request (set when it may differ from the configured one) */
+  readonly model?: string;
 }
 
 export interface ToolCall {
@@ -521,6 +916,44 @@ export interface TokenUsage {
   readonly totalTokens: number;
 }
 
+/**
+ * Incremental event yielded by LLMProvider.stream()
+ */
+export type LLMStreamEvent =
+  | { readonly type: 'text'; readonly delta: string }
+  | {
+      readonly type: 'tool_call';
+      /** Position of the tool call within the response */
+      readonly index: number;
+      readonly id?: string;
+      readonly name?: string;
+      /** Partial JSON arguments chunk */
+      readonly argumentsDelta: string;
+    }
+  | { readonly type: 'usage'; readonly usage: TokenUsage }
+  | { readonly type: 'done'; readonly response: LLMResponse };
+
+/**
+ * Agent roles that issue LLM calls
+ */
+export type LLMAgentRole = 'planner' | 'browserNav' | 'verifier' | 'chat' | 'extractor';
+
+/**
+ * LLM configuration, or a ready-made provider instance (e.g. MockLLMProvider)
+ */
+export type LLMSource = LLMConfig | LLMProviderInstance;
+
+/**
+ * Model routing for one agent role
+ */
+export interface LLMRoleConfig {
+  /** Primary model for the role (defaults to `WebAgentConfig.llm`) */
+  readonly llm?: LLMSource;
+  
+  /** Tried in order when the previous model fails (defaults to `WebAgentConfig.fallbacks`) */
+  readonly fallbacks?: readonly LLMSource[];
+}
+
 // ============================================================================
 // CONFIGURATION TYPES
 // ============================================================================
@@ -529,8 +962,17 @@ export interface TokenUsage {
  * Main WebAgent configuration
  */
 export interface WebAgentConfig {
-  /** LLM configuration */
-  readonly llm: LLMConfig;
+  /** LLM configuration, or a ready-made provider instance (e.g. MockLLMProvider) */
+  readonly llm: LLMSource;
+  
+  /** Models tried in order when the primary model fails (e.g. rate limits, outages) */
+  readonly fallbacks?: readonly LLMSource[];
+  
+  /** Per-role model overrides for planner, browserNav, verifier, chat and extractor */
+  readonly roles?: Partial<Record<LLMAgentRole, LLMRoleConfig>>;
+  
+  /** Rate limiting, retries and circuit breaking applied to every model */
+  readonly resilience?: LLMResilienceConfig;
   
   /** Maximum steps per subtask */
   readonly maxStepsPerSubtask?: number;
@@ -541,9 +983,30 @@ export interface WebAgentConfig {
   /** Maximum total steps */
   readonly maxTotalSteps?: number;
   
+  /** Maximum recovery decisions (retry, alternative, replan...) per task */
+  readonly maxRecoveries?: number;
+  
+  /** Maximum iterations of any forEach / while loop in a plan */
+  readonly maxLoopIterations?: number;
+  
+  /** Check each subtask the navigator reports as done with the verifier model */
+  readonly verification?: VerificationConfig;
+  
+  /** Actions that need human approval before they run */
+  readonly approval?: ApprovalPolicy;
+  
+  /** Credentials the model only sees as `{{secret:name}}` placeholders */
+  readonly secrets?: Readonly<Record<string, string>>;
+  
+  /** Replace personal data in page content and prompts with reversible tokens */
+  readonly piiRedaction?: PIIRedactionConfig;
+  
   /** Action timeout in milliseconds */
   readonly actionTimeout?: number;
   
+  /** How long ask_user waits for `respond()` before the subtask fails, in milliseconds */
+  readonly userInputTimeout?: number;
+  
   /** Enable debug mode */
   readonly debug?: boolean;
   
@@ -555,6 +1018,43 @@ export interface WebAgentConfig {
   
   /** Retry configuration */
   readonly retry?: RetryConfig;
+  
+  /** Let the navigation agent drive the page through native tool calls built from the SkillRegistry */
+  readonly toolCalling?: boolean;
+  
+  /**
+   * Follow up with only what changed on the page after each step; the full page is
+   * sent after navigation or when the changes are longer (default: true). In the
+   * tool-calling loop the changes follow each tool result; JSON-mode decisions form
+   * one conversation, started over whenever the full page is sent. When false,
+   * every step sends the full page, and JSON-mode prompts stand alone.
+   */
+  readonly deltaDistillation?: boolean;
+  
+  /**
+   * Estimated tokens of page elements per navigation prompt; the elements most relevant
+   * to the subtask are kept (default: 2000)
+   */
+  readonly pageTokenBudget?: number;
+  
+  /** Stream LLM output and emit `llm:delta` events as it is generated */
+  readonly streaming?: boolean;
+}
+
+/**
+ * Options for WebAgent.execute() and the agent calls it makes
+ */
+export interface ExecuteOptions {
+  /** Aborting cancels in-flight LLM calls and actions; the task resolves with error code CANCELLED */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Options for WebAgent.chat()
+ */
+export interface ChatOptions {
+  /** Receives answer text as it is generated (enables streaming) */
+  readonly onDelta?: (delta: string) => void;
 }
 
 export interface CustomPrompts {
@@ -562,6 +1062,44 @@ export interface CustomPrompts {
   readonly browserNav?: string;
 }
 
+/**
+ * Provider-level rate limiting and retry policy
+ */
+export interface LLMResilienceConfig {
+  /** Request budget per minute (token bucket) */
+  readonly requestsPerMinute?: number;
+  
+  /** Token budget per minute; requests are charged their estimated prompt size */
+  readonly tokensPerMinute?: number;
+  
+  /** Retries after the first attempt (default: 3) */
+  readonly maxRetries?: number;
+  
+  /** First backoff delay, doubled per retry (default: 1000) */
+  readonly baseDelayMs?: number;
+  
+  /** Upper bound for any single wait, including Retry-After (default: 60000) */
+  readonly maxDelayMs?: number;
+  
+  /** Randomize backoff delays to avoid synchronized retries (default: true) */
+  readonly jitter?: boolean;
+  
+  /** Consecutive failures that open the circuit (default: 5, 0 disables) */
+  readonly failureThreshold?: number;
+  
+  /** Time the circuit stays open before a trial request (default: 30000) */
+  readonly resetTimeoutMs?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface VerificationConfig {
+  /** Default: true */
+  readonly enabled?: boolean;
+  /** Subtasks verified below this confidence fail with VERIFICATION_FAILED (default: 0.7) */
+  readonly minConfidence?: number;
+}
+
 export interface RetryConfig {
   readonly maxRetries: number;
   readonly backoffMs: number;
@@ -580,19 +1118,31 @@ export interface WebAgentEvents {
   'task:plan': { taskId: string; plan: TaskPlan };
   'task:complete': { taskId: string; result: TaskResult };
   'task:error': { taskId: string; error: TaskError };
+  /** The task is paused until `respond(question.id, answer)` is called */
+  'task:question': { taskId: string; question: UserQuestion };
   
   'subtask:start': { taskId: string; subtask: SubTask };
   'subtask:complete': { taskId: string; result: SubTaskResult };
   'subtask:error': { taskId: string; subtask: SubTask; error: SubTaskError };
+  'subtask:skipped': { taskId: string; skipped: SkippedSubtask };
+  'subtask:verified': { taskId: string; subtask: SubTask; verification: VerificationResult };
+  'subtask:iteration': { taskId: string; subtask: SubTask; iteration: number; variables: TaskVariables };
   
   'action:start': { taskId: string; action: ActionType; params: unknown };
   'action:complete': { taskId: string; result: ActionResult };
+  /** Call `respond` to decide; requests nobody listens for are denied */
+  'action:approval': { taskId: string; request: ApprovalRequest; respond: (decision: ApprovalDecision) => void };
   
   'dom:distill': { taskId: string; mode: DOMDistillationMode; metrics: DistillationMetrics };
   'dom:change': { taskId: string; changes: readonly DOMChange[] };
   
-  'llm:request': { taskId: string; agent: 'planner' | 'browserNav'; tokens: number };
-  'llm:response': { taskId: string; agent: 'planner' | 'browserNav'; usage: TokenUsage };
+  'llm:request': { taskId: string; agent: LLMAgentRole; tokens: number };
+  'llm:response': { taskId: string; agent: LLMAgentRole; usage: TokenUsage; model: string };
+  'llm:delta': { taskId: string; agent: LLMAgentRole; event: LLMStreamEvent };
+  'llm:fallback': { taskId: string; agent: LLMAgentRole; from: string; to: string; error: string };
+  'llm:retry': { taskId: string; model: string; attempt: number; delayMs: number; error: string; retryAfter: boolean };
+  'llm:throttle': { taskId: string; model: string; waitMs: number; limit: 'requests' | 'tokens' };
+  'llm:circuit': { taskId: string; model: string; state: CircuitState };
   
   'error:recovery': { taskId: string; error: unknown; strategy: string };
 }
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview DOM helpers that work across same-origin frames and shadow roots
+ *
+ * Each frame has its own window, so `element instanceof HTMLInputElement` is false
+ * for an input inside an iframe. These helpers check against the element's own window.
+ */
+
+type DOMWindow = Window & typeof globalThis;
+
+type ElementConstructorName =
+  | 'HTMLElement'
+  | 'HTMLInputElement'
+  | 'HTMLTextAreaElement'
+  | 'HTMLSelectElement'
+  | 'HTMLIFrameElement';
+
+/**
+ * Window of the node's document (the frame's window for nodes inside an iframe)
+ */
+export function windowOf(node: Node): DOMWindow {
+  return node.ownerDocument?.defaultView ?? window;
+}
+
+/**
+ * `instanceof` against the element's own window
+ */
+export function isElementOf<K extends ElementConstructorName>(
+  node: Node,
+  type: K
+): node is InstanceType<DOMWindow[K]> {
+  return node instanceof windowOf(node)[type];
+}
+
+/**
+ * Document or shadow root the element lives in, for id and selector lookups
+ */
+export function searchRootOf(element: Element): Document | ShadowRoot {
+  const root = element.getRootNode();
+  return isSearchRoot(root) ? root : element.ownerDocument;
+}
+
+/**
+ * Host of the shadow root the node is a direct child of, if any
+ */
+export function shadowHostOf(node: Node): Element | null {
+  const parent = node.parentNode;
+  return parent && parent.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in parent
+    ? (parent as ShadowRoot).host
+    : null;
+}
+
+/**
+ * Frame element holding the element's document (null in the top document or
+ * when the parent is cross-origin)
+ */
+export function frameElementOf(element: Element): Element | null {
+  try {
+    return element.ownerDocument.defaultView?.frameElement ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Document of a same-origin frame (null for cross-origin or unloaded frames)
+ */
+export function frameDocumentOf(element: Element): Document | null {
+  if (!isElementOf(element, 'HTMLIFrameElement')) return null;
+  try {
+    return element.contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+function isSearchRoot(node: Node): node is Document | ShadowRoot {
+  return node.nodeType === Node.DOCUMENT_NODE ||
+    (node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node);
+}
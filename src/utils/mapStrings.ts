@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Transform every string in plain data (used for redaction)
+ */
+
+/**
+ * Apply `fn` to every string in plain objects and arrays. Other values
+ * (functions, class instances, DOM nodes) are kept as they are.
+ */
+export function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  return mapValue(value, fn) as T;
+}
+
+function mapValue(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(item => mapValue(item, fn));
+  if (!isPlainObject(value)) return value;
+
+  const mapped: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    mapped[key] = mapValue(item, fn);
+  }
+  return mapped;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto: unknown = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
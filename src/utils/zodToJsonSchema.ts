@@ -0,0 +1,99 @@
+/**
+ * @fileoverview zodToJsonSchema - Convert zod schemas to JSON Schema for LLM structured output
+ *
+ * Covers the subset of zod used to describe model responses: objects, arrays,
+ * primitives, enums, literals, unions, records, and optional/nullable/default wrappers.
+ * Refinements and transforms are described by their input schema.
+ */
+
+import { z } from 'zod';
+
+export type JsonSchemaObject = { [key: string]: unknown };
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchemaObject {
+  return convert(schema);
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchemaObject {
+  const described = (json: JsonSchemaObject): JsonSchemaObject =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchemaObject> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = convert(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return described({
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      ...(schema._def.unknownKeys === 'passthrough' ? {} : { additionalProperties: false }),
+    });
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return described({
+      type: 'array',
+      items: convert(schema.element),
+      ...(minLength ? { minItems: minLength.value } : {}),
+      ...(maxLength ? { maxItems: maxLength.value } : {}),
+    });
+  }
+  if (schema instanceof z.ZodString) {
+    return described({ type: 'string' });
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchemaObject = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return described(json);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: 'boolean' });
+  }
+  if (schema instanceof z.ZodNull) {
+    return described({ type: 'null' });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: 'string', enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.values(schema.enum as Record<string, string | number>)
+      .filter(v => typeof v === 'string' || !Object.prototype.hasOwnProperty.call(schema.enum, v));
+    return described({ enum: values });
+  }
+  if (schema instanceof z.ZodLiteral) {
+    const value: unknown = schema.value;
+    return described({ type: value === null ? 'null' : typeof value, const: value });
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = schema.options as z.ZodTypeAny[];
+    return described({ anyOf: options.map(convert) });
+  }
+  if (schema instanceof z.ZodRecord) {
+    return described({ type: 'object', additionalProperties: convert(schema.valueSchema) });
+  }
+  if (schema instanceof z.ZodOptional) {
+    return described(convert(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodNullable) {
+    return described({ anyOf: [convert(schema.unwrap()), { type: 'null' }] });
+  }
+  if (schema instanceof z.ZodDefault) {
+    return described({ ...convert(schema.removeDefault()), default: schema._def.defaultValue() });
+  }
+  if (schema instanceof z.ZodEffects) {
+    return described(convert(schema.innerType()));
+  }
+  if (schema instanceof z.ZodLazy) {
+    return described(convert(schema.schema));
+  }
+
+  // any, unknown and anything not covered above accept every value
+  return described({});
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ApprovalGate } from '../src/services/ApprovalGate';
+import type { ApprovalDecision, ApprovalRequest } from '../src/types';
+
+const gate = (ask: (request: ApprovalRequest) => Promise<ApprovalDecision>, timeoutMs?: number) => new ApprovalGate(
+  {
+    rules: [
+      { elementText: /place order/i, reason: 'Places an order' },
+      { formAction: '/checkout', actions: ['click'] },
+      { skillCategories: ['navigation'], reason: 'Leaves the page' },
+    ],
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+  },
+  { ask, taskId: () => 'task_1', url: () => 'https://shop.test/cart' }
+);
+
+describe('ApprovalGate', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form action="/checkout">
+        <button id="order">Place order</button>
+        <input id="note" aria-label="Order note">
+      </form>
+      <a id="help" href="/help">Help</a>
+    `;
+  });
+
+  it('should ask only when every field of a rule matches and pass on the decision', async () => {
+    const asked: ApprovalRequest[] = [];
+    const approvals = gate(async request => {
+      asked.push(request);
+      return { outcome: 'edit', params: { index: 2 }, reason: 'Use the other button' };
+    });
+    const order = document.getElementById('order');
+
+    expect(await approvals.review({ action: 'hover', params: {}, element: document.getElementById('help') })).toBeNull();
+    expect(await approvals.review({ action: 'type', params: {}, element: document.getElementById('note') })).toBeNull();
+    expect(await approvals.review({ skill: { name: 'click_element', category: 'interaction' }, params: {} })).toBeNull();
+
+    const record = await approvals.review({ action: 'click', params: { index: 1 }, element: order });
+    expect(record?.decision).toEqual({ outcome: 'edit', params: { index: 2 }, reason: 'Use the other button' });
+    expect(asked).toEqual([expect.objectContaining({
+      id: 'approval_1',
+      taskId: 'task_1',
+      action: 'click',
+      element: { tag: 'button', text: 'Place order', formAction: expect.stringMatching(/\/checkout$/) },
+      url: 'https://shop.test/cart',
+      reasons: ['Places an order', 'Matches an approval rule'],
+    })]);
+
+    await approvals.review({ skill: { name: 'navigate_to', category: 'navigation' }, params: { url: 'https://x.test' } });
+    expect(asked[1]).toEqual(expect.objectContaining({ skill: 'navigate_to', reasons: ['Leaves the page'] }));
+  });
+
+  it('should deny when the approver times out or fails', async () => {
+    const element = document.getElementById('order');
+    const silent = gate(() => new Promise(() => {}), 10);
+    const failing = gate(async () => { throw new Error('approver offline'); });
+
+    expect((await silent.review({ action: 'click', params: {}, element }))?.decision)
+      .toEqual({ outcome: 'deny', reason: 'No decision within 10ms' });
+    expect((await failing.review({ action: 'click', params: {}, element }))?.decision)
+      .toEqual({ outcome: 'deny', reason: 'Approval failed: approver offline' });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BrowserNavigationAgent } from '../src/agents/BrowserNavigationAgent';
+import { DOMDistiller } from '../src/services/DOMDistiller';
+import { ActionExecutor } from '../src/services/ActionExecutor';
+import { ChangeObserver } from '../src/services/ChangeObserver';
+import { createDefaultRegistry, type PrimitiveSkillsConfig } from '../src/services/SkillRegistry';
+import { DOMBrowserAdapter } from '../src/infrastructure/BrowserAdapter';
+import type { LLMResponse, ToolCall } from '../src/types';
+
+const usage = { promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+
+const toolResponse = (...toolCalls: ToolCall[]): LLMResponse => ({
+  content: '',
+  toolCalls,
+  usage,
+  finishReason: 'tool_calls',
+});
+
+// Mock LLM Provider returning scripted responses in order
+const createScriptedLLM = (responses: LLMResponse[]) => {
+  const queue = [...responses];
+  return {
+    complete: vi.fn().mockImplementation(async () => queue.shift()),
+    estimateTokens: vi.fn().mockReturnValue(100),
+    getConfig: vi.fn().mockReturnValue({ provider: 'openai', model: 'test' }),
+  };
+};
+
+const createAgent = (llm: ReturnType<typeof createScriptedLLM>, toolCalling = true) => {
+  const distiller = new DOMDistiller();
+  const browser = new DOMBrowserAdapter();
+  const executor = new ActionExecutor(browser, distiller, { typeDelay: 0 });
+  const skills = createDefaultRegistry({ distiller, executor, browser } as PrimitiveSkillsConfig);
+  const agent = new BrowserNavigationAgent(llm as any, distiller, executor, new ChangeObserver(), {
+    toolCalling,
+    skills,
+  });
+  return { agent, skills };
+};
+
+describe('BrowserNavigationAgent', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form>
+        <label>Search <input name="q" type="text"></label>
+        <button type="button">Go</button>
+      </form>
+    `;
+  });
+
+  describe('Tool calling', () => {
+    it('should execute skill tool calls and finish on done', async () => {
+      const llm = createScriptedLLM([
+        toolResponse({ id: 'call_1', name: 'type_text', arguments: JSON.stringify({ index: 0, text: 'laptop' }) }),
+        toolResponse({ id: 'call_2', name: 'done', arguments: JSON.stringify({ success: true }) }),
+      ]);
+      const { agent } = createAgent(llm);
+
+      const result = await agent.executeSubTask({
+        id: '1', description: 'Type the search term', action: 'type', target: 'search input', value: 'laptop', verification: 'Text entered',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.steps).toHaveLength(1);
+      expect(result.steps[0]?.action).toBe('type');
+      expect(document.querySelector('input')?.value).toBe('laptop');
+
+      const firstRequest = llm.complete.mock.calls[0]![0];
+      const toolNames = firstRequest.tools.map((t: { name: string }) => t.name);
+      expect(toolNames).toContain('type_text');
+      expect(toolNames).toContain('done');
+
+      const secondRequest = llm.complete.mock.calls[1]![0];
+      const toolMessage = secondRequest.messages.find((m: { role: string }) => m.role === 'tool');
+      expect(toolMessage.tool_call_id).toBe('call_1');
+      const assistantMessage = secondRequest.messages.find((m: { role: string }) => m.role === 'assistant');
+      expect(assistantMessage.toolCalls[0].name).toBe('type_text');
+    });
+
+    it('should expose custom skills registered on the registry', async () => {
+      const llm = createScriptedLLM([
+        toolResponse({ id: 'call_1', name: 'lookup_sku', arguments: JSON.stringify({ sku: 'A-1' }) }),
+        toolResponse({ id: 'call_2', name: 'done', arguments: JSON.stringify({ success: true }) }),
+      ]);
+      const { agent, skills } = createAgent(llm);
+      const execute = vi.fn().mockResolvedValue({ price: 42 });
+      skills.register({
+        name: 'lookup_sku',
+        description: 'Look up a product by SKU',
+        parameters: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] },
+        category: 'utility',
+        execute,
+      });
+
+      const result = await agent.executeSubTask({
+        id: '1', description: 'Find price', action: 'click', verification: 'Price known',
+      });
+
+      expect(result.success).toBe(true);
+      expect(execute).toHaveBeenCalledWith({ sku: 'A-1' });
+      const secondRequest = llm.complete.mock.calls[1]![0];
+      const toolMessage = secondRequest.messages.find((m: { role: string }) => m.role === 'tool');
+      expect(toolMessage.content).toContain('42');
+    });
+
+    it('should report failure when done is called with success=false', async () => {
+      const llm = createScriptedLLM([
+        toolResponse({ id: 'call_1', name: 'done', arguments: JSON.stringify({ success: false, summary: 'No search box' }) }),
+      ]);
+      const { agent } = createAgent(llm);
+
+      const result = await agent.executeSubTask({
+        id: '1', description: 'Search', action: 'search', verification: 'Results',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('No search box');
+    });
+
+    it('should follow up with only the elements that changed', async () => {
+      const llm = createScriptedLLM([
+        toolResponse({ id: 'call_1', name: 'type_text', arguments: JSON.stringify({ index: 0, text: 'laptop' }) }),
+        toolResponse({ id: 'call_2', name: 'done', arguments: JSON.stringify({ success: true }) }),
+      ]);
+      const { agent } = createAgent(llm);
+
+      await agent.executeSubTask({
+        id: '1', description: 'Type the search term', action: 'type', target: 'search input', value: 'laptop', verification: 'Text entered',
+      });
+
+      const userMessages = llm.complete.mock.calls[1]![0].messages.filter((m: { role: string }) => m.role === 'user');
+      const update = userMessages[userMessages.length - 1].content;
+      expect(update).toContain('## Page Changes');
+      expect(update).toMatch(/^~ \[0\|e\d+\] input: Search$/m);
+      expect(update).not.toContain('button');
+      expect(update).not.toContain('## Updated Page');
+    });
+  });
+
+  describe('JSON decisions', () => {
+    const decision = (value: object): LLMResponse => ({ content: JSON.stringify(value), usage, finishReason: 'stop' });
+
+    it('should continue the conversation with only the elements that changed', async () => {
+      const button = document.querySelector('button')!;
+      button.addEventListener('click', () => { button.textContent = 'Searching'; });
+      const llm = createScriptedLLM([
+        decision({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        decision({ action: 'click', params: { index: 1 } }),
+        decision({ action: 'done' }),
+      ]);
+      const { agent } = createAgent(llm, false);
+
+      const result = await agent.executeSubTask({
+        id: '1', description: 'Search for laptops', action: 'search', verification: 'Results shown',
+      });
+
+      const [first, second, third] = llm.complete.mock.calls.map(([request]) => request.messages);
+      const typed = second.at(-1).content;
+      const clicked = third.at(-1).content;
+      expect(result.success).toBe(true);
+      expect(first).toHaveLength(2);
+      expect(third.map((m: { role: string }) => m.role)).toEqual(['system', 'user', 'assistant', 'user', 'assistant', 'user']);
+      expect(typed).toMatch(/^## Action Result\n- type: Success/);
+      expect(typed).toMatch(/^~ \[0\|e\d+\] input: Search$/m);
+      expect(typed).not.toContain('button');
+      expect(clicked).toMatch(/^~ \[1\|e\d+\] button: Searching$/m);
+      expect(clicked).not.toContain('input');
+    });
+
+    it('should start the conversation over when the full page is sent again', async () => {
+      const button = document.querySelector('button')!;
+      button.addEventListener('click', () => history.pushState({}, '', '/results?q=laptop'));
+      const llm = createScriptedLLM([
+        decision({ action: 'click', params: { index: 1 } }),
+        decision({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        decision({ action: 'done' }),
+      ]);
+      const { agent } = createAgent(llm, false);
+
+      try {
+        await agent.executeSubTask({ id: '1', description: 'Search for laptops', action: 'search', verification: 'Results shown' });
+      } finally {
+        history.pushState({}, '', '/');
+      }
+
+      // Characters sent besides the system prompt
+      const sizes = llm.complete.mock.calls.map(([request]) => request.messages
+        .filter((m: { role: string }) => m.role !== 'system')
+        .reduce((sum: number, m: { content: string }) => sum + m.content.length, 0));
+      const [, navigated, typed] = llm.complete.mock.calls.map(([request]) => request.messages);
+      expect(navigated.map((m: { role: string }) => m.role)).toEqual(['system', 'user']);
+      expect(navigated[1].content).toContain('## Previous Actions (1)');
+      expect(sizes[1]).toBeLessThan(sizes[0]! * 1.5);
+      expect(typed.map((m: { role: string }) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(typed.at(-1).content).toContain('## Page Changes');
+    });
+  });
+});
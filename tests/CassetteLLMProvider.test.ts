@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  CassetteMismatchError,
+  createMemoryCassetteStore,
+  hashLLMRequest,
+} from '../src/infrastructure/CassetteLLMProvider';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+import { WebAgent } from '../src/core/WebAgent';
+
+const ask = (content: string) => ({ messages: [{ role: 'user' as const, content }] });
+
+const fixture = `
+  <form>
+    <label>Search <input name="q" type="text"></label>
+    <button type="button">Go</button>
+  </form>
+`;
+
+describe('Cassettes', () => {
+  it('should hash requests independently of key order', () => {
+    const a = hashLLMRequest({ messages: [{ role: 'user', content: 'hi' }], responseFormat: 'json' });
+    const b = hashLLMRequest({ responseFormat: 'json', messages: [{ content: 'hi', role: 'user' }] });
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(hashLLMRequest(ask('hello')));
+  });
+
+  it('should replay recorded responses and fail loudly on unmatched requests', async () => {
+    const store = createMemoryCassetteStore();
+    const recorder = new RecordingLLMProvider(new MockLLMProvider({ responses: ['one', 'two'] }), store);
+
+    await recorder.complete(ask('first'));
+    await recorder.complete(ask('second'));
+
+    const replay = await ReplayLLMProvider.load(store);
+    expect((await replay.complete(ask('second'))).content).toBe('two');
+    expect((await replay.complete(ask('first'))).content).toBe('one');
+    expect(replay.getUnusedCount()).toBe(0);
+    await expect(replay.complete(ask('third'))).rejects.toBeInstanceOf(CassetteMismatchError);
+  });
+
+  describe('WebAgent runs', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'cassette-'));
+      document.body.innerHTML = fixture;
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should replay a recorded execute() run from a cassette file', async () => {
+      const path = join(dir, 'search.json');
+      const live = new MockLLMProvider({
+        responses: [
+          JSON.stringify({ subtasks: [{ id: '1', description: 'Type the search term', action: 'type', target: 'search input', value: 'laptop', verification: 'Text entered' }] }),
+          JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+          JSON.stringify({ action: 'done' }),
+          JSON.stringify({ completed: true, confidence: 0.9, reason: 'The search box holds the term' }),
+        ],
+      });
+      const recorded = await new WebAgent({ llm: new RecordingLLMProvider(live, path) }).execute('Search for laptop');
+      expect(recorded.success).toBe(true);
+      expect(JSON.parse(await readFile(path, 'utf8')).interactions).toHaveLength(4);
+
+      document.body.innerHTML = fixture;
+      const replay = await ReplayLLMProvider.load(path);
+      const replayed = await new WebAgent({ llm: replay }).execute('Search for laptop');
+
+      expect(replayed.success).toBe(recorded.success);
+      expect(replayed.totalSteps).toBe(recorded.totalSteps);
+      expect(document.querySelector('input')?.value).toBe('laptop');
+      expect(replay.getUnusedCount()).toBe(0);
+    });
+  });
+});
@@ -1,4 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DOMDistiller } from '../src/services/DOMDistiller';
+import { DOMBrowserAdapter } from '../src/infrastructure/BrowserAdapter';
+import { PIIRedactor } from '../src/services/PIIRedactor';
+import { ChangeObserver } from '../src/services/ChangeObserver';
+import { DOMDistillationMode, type AccessibilityDOM, type InputFieldsDOM } from '../src/types';
 
 // Mock DOM environment
 const mockDocument = {
@@ -105,3 +110,214 @@ describe('Visibility Detection', () => {
     expect(isVisible).toBe(true);
   });
 });
+
+describe('Shadow DOM and frames', () => {
+  it('should index elements in open shadow roots and same-origin iframes', async () => {
+    document.body.innerHTML = '<div></div><form><iframe></iframe></form>';
+    const shadow = document.querySelector('div')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<form><label>Coupon <input name="coupon"></label></form>';
+    const frameDocument = document.querySelector('iframe')!.contentDocument!;
+    frameDocument.body.innerHTML = '<form><input placeholder="Card number"></form>';
+
+    const distiller = new DOMDistiller(document);
+    const dom = await distiller.distill(DOMDistillationMode.INPUT_FIELDS) as InputFieldsDOM;
+    const coupon = dom.elements.find(el => el.label === 'Coupon');
+    const card = dom.elements.find(el => el.placeholder === 'Card number');
+
+    expect(coupon).toMatchObject({ shadowHost: 'div', selector: 'form > label > input' });
+    expect(card).toMatchObject({ frame: 'form > iframe', selector: 'form > input' });
+    expect(card).not.toHaveProperty('shadowHost');
+    expect(distiller.getElement(coupon!.index)).toBe(shadow.querySelector('input'));
+
+    await new DOMBrowserAdapter().type(distiller.getElement(card!.index)!, '4111');
+    expect(frameDocument.querySelector('input')!.value).toBe('4111');
+  });
+
+  it('should exclude frame content inside a hidden container', async () => {
+    document.body.innerHTML = '<form><div hidden><iframe></iframe></div><input placeholder="Email"></form>';
+    const frameDocument = document.querySelector('iframe')!.contentDocument!;
+    frameDocument.body.innerHTML = '<form><input placeholder="Card number"></form>';
+
+    const dom = await new DOMDistiller(document).distill(DOMDistillationMode.INPUT_FIELDS) as InputFieldsDOM;
+
+    expect(dom.elements.map(el => el.placeholder)).toEqual(['Email']);
+  });
+});
+
+describe('Stable element ids', () => {
+  it('should keep ids across distillations and for re-rendered nodes', async () => {
+    document.body.innerHTML = '<form><input placeholder="Email"><button type="submit">Save</button></form>';
+    const distiller = new DOMDistiller(document);
+    const first = await distiller.distill(DOMDistillationMode.INPUT_FIELDS) as InputFieldsDOM;
+    const email = first.elements.find(el => el.placeholder === 'Email')!;
+    const save = first.elements.find(el => el.buttonText === 'Save')!;
+
+    const form = document.querySelector('form')!;
+    form.insertAdjacentHTML('afterbegin', '<input placeholder="Name">');
+    const rerendered = document.createElement('button');
+    rerendered.type = 'submit';
+    rerendered.textContent = 'Save';
+    form.querySelector('button')!.replaceWith(rerendered);
+    const second = await distiller.distill(DOMDistillationMode.INPUT_FIELDS) as InputFieldsDOM;
+
+    expect(second.elements.map(el => el.id)).toEqual(['e3', email.id, save.id]);
+    expect(second.elements.find(el => el.placeholder === 'Email')?.index).not.toBe(email.index);
+    expect(distiller.getElementByStableId(save.id)).toBe(rerendered);
+    expect(distiller.getStableId(form.querySelector('input')!)).toBe('e3');
+  });
+});
+
+describe('Delta distillation', () => {
+  it('should report added, changed and removed elements and keep earlier indices', async () => {
+    document.body.innerHTML = '<form><input placeholder="Email"><button type="button">Remove me</button><button type="submit">Save</button></form>';
+    const distiller = new DOMDistiller(document);
+    const previous = await distiller.distill(DOMDistillationMode.INPUT_FIELDS) as InputFieldsDOM;
+    const [email, removable, save] = previous.elements;
+
+    const form = document.querySelector('form')!;
+    form.insertAdjacentHTML('afterbegin', '<input placeholder="Name">');
+    form.querySelector('input[placeholder="Email"]')!.setAttribute('disabled', '');
+    form.querySelector('button')!.remove();
+    const { dom, delta } = await distiller.distillDelta(previous);
+
+    expect(delta.added.map(el => el.index)).toEqual([3]);
+    expect(delta.changed).toEqual([expect.objectContaining({ id: email!.id, index: email!.index, disabled: true })]);
+    expect(delta.removed).toEqual([removable!.id]);
+    expect((dom as InputFieldsDOM).elements.find(el => el.id === save!.id)?.index).toBe(save!.index);
+    expect(distiller.getElement(save!.index)).toBe(form.querySelector('button'));
+  });
+
+  it('should report label text and changes above an element alongside observed changes', async () => {
+    document.body.innerHTML = `
+      <form>
+        <label><span>Search</span> <input type="text"></label>
+        <fieldset><button type="button">Go</button></fieldset>
+        <button type="submit">Save</button>
+      </form>
+    `;
+    const distiller = new DOMDistiller(document);
+    const previous = await distiller.distill(DOMDistillationMode.INPUT_FIELDS) as InputFieldsDOM;
+    const [input, go] = previous.elements;
+    const observer = new ChangeObserver(document);
+
+    observer.startObserving();
+    document.querySelector('span')!.textContent = 'Promo code';
+    document.querySelector('fieldset')!.setAttribute('disabled', '');
+    await Promise.resolve();
+    const { touched } = observer.stopObserving();
+    const { delta } = await distiller.distillDelta(previous, {}, touched);
+
+    expect(delta.changed.map(el => el.id)).toEqual([input!.id, go!.id]);
+    expect(JSON.stringify(delta.changed[0])).toContain('Promo code');
+  });
+});
+
+describe('Token budget', () => {
+  it('should keep the elements most relevant to the query and report the rest', async () => {
+    const filler = Array.from({ length: 60 }, (_, i) => `<button type="button">Related product ${i}</button>`).join('');
+    document.body.innerHTML = `<form>${filler}<button type="submit">Place your order</button></form>`;
+    const distiller = new DOMDistiller(document);
+
+    const dom = await distiller.distill(DOMDistillationMode.INPUT_FIELDS, {
+      tokenBudget: 400,
+      query: 'Click the place order button',
+    }) as InputFieldsDOM;
+
+    expect(dom.elements.map(el => el.buttonText)).toContain('Place your order');
+    expect(dom.elements.length).toBeLessThan(61);
+    // Each kept line costs about 9 tokens as rendered for the model
+    expect(dom.elements.length).toBeGreaterThan(40);
+    expect(dom.dropped?.ids).toHaveLength(61 - dom.elements.length);
+    expect(dom.tokenCount).toBeLessThan(
+      (await distiller.distill(DOMDistillationMode.INPUT_FIELDS)).tokenCount
+    );
+  });
+
+  it('should rank elements only after personal data is redacted', async () => {
+    const buttons = Array.from({ length: 40 }, (_, i) => `<button type="button">Write to ada${i}@example.com</button>`).join('');
+    document.body.innerHTML = `<form>${buttons}</form>`;
+    const score = vi.fn((_query: string, texts: readonly string[]) => texts.map(() => 0));
+    const distiller = new DOMDistiller(document, {
+      redactor: new PIIRedactor({ detectors: ['email'] }),
+      scorer: { score },
+    });
+
+    await distiller.distill(DOMDistillationMode.INPUT_FIELDS, { tokenBudget: 100, query: 'Write to Ada' });
+    const texts = score.mock.calls[0]![1];
+
+    expect(texts).toHaveLength(40);
+    expect(texts.join(' ')).not.toContain('@example.com');
+    expect(texts[0]).toContain('{{pii:email_1}}');
+  });
+});
+
+describe('Accessibility tree', () => {
+  it('should keep the roles, names, states and nesting of ARIA widgets', async () => {
+    document.body.innerHTML = `
+      <nav aria-label="Account">
+        <div role="tablist">
+          <div role="tab" aria-selected="true">Profile</div>
+          <div role="tab" aria-selected="false" aria-disabled="true">Billing</div>
+        </div>
+      </nav>
+      <div role="combobox" aria-expanded="false" aria-label="Country"><span>France</span></div>
+      <div aria-hidden="true"><button>Hidden</button></div>
+      <label>Email <input type="email" required></label>`;
+    const distiller = new DOMDistiller(document);
+
+    const dom = await distiller.distill(DOMDistillationMode.ACCESSIBILITY) as AccessibilityDOM;
+
+    expect(dom.elements.map(node => `${'  '.repeat(node.depth)}${node.role} ${node.name}`)).toEqual([
+      'navigation Account',
+      '  tablist ',
+      '    tab Profile',
+      '    tab Billing',
+      'combobox Country',
+      'textbox Email',
+    ]);
+    const [nav, tablist, profile, billing, combobox, email] = dom.elements;
+    expect(nav?.children).toEqual([tablist?.index]);
+    expect(tablist?.children).toEqual([profile?.index, billing?.index]);
+    expect(profile?.states).toEqual({ selected: true });
+    expect(billing?.states).toEqual({ selected: false, disabled: true });
+    expect(combobox?.states).toEqual({ expanded: false });
+    expect(email?.states).toEqual({ required: true });
+    expect(distiller.getElement(profile!.index)?.textContent).toBe('Profile');
+  });
+
+  it('should list the options of native selects', async () => {
+    document.body.innerHTML = `
+      <select aria-label="Size"><option>Small</option><optgroup label="Big"><option selected>Large</option></optgroup></select>`;
+
+    const dom = await new DOMDistiller(document).distill(DOMDistillationMode.ACCESSIBILITY) as AccessibilityDOM;
+
+    expect(dom.elements.map(node => `${'  '.repeat(node.depth)}${node.role} ${node.name}`)).toEqual([
+      'combobox Size',
+      '  option Small',
+      '  option Large',
+    ]);
+    expect(dom.elements[0]).toMatchObject({ value: 'Large', children: [dom.elements[1]?.index, dom.elements[2]?.index] });
+    expect(dom.elements[2]?.states).toEqual({ selected: true });
+  });
+
+  it('should keep the tree consistent when trimmed to a token budget', async () => {
+    const items = Array.from({ length: 30 }, (_, i) => `<li><a href="/p/${i}">Product ${i}</a></li>`).join('');
+    document.body.innerHTML = `<nav aria-label="Catalog"><ul>${items}</ul></nav><main><button>Checkout now</button></main>`;
+
+    const dom = await new DOMDistiller(document).distill(DOMDistillationMode.ACCESSIBILITY, {
+      tokenBudget: 60,
+      query: 'Product 7 link',
+    }) as AccessibilityDOM;
+    const byIndex = new Map(dom.elements.map(node => [node.index, node]));
+
+    expect(dom.dropped?.ids.length).toBeGreaterThan(0);
+    expect(dom.elements.map(node => node.name)).toContain('Product 7');
+    for (const node of dom.elements) {
+      for (const child of node.children ?? []) {
+        expect(byIndex.get(child)?.depth).toBe(node.depth + 1);
+      }
+    }
+    const childIndices = new Set(dom.elements.flatMap(node => node.children ?? []));
+    expect(dom.elements.filter(node => node.depth > 0).every(node => childIndices.has(node.index))).toBe(true);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { ExtractionAgent } from '../src/agents/ExtractionAgent';
+import { DOMDistiller } from '../src/services/DOMDistiller';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+import type { BrowserAdapter } from '../src/infrastructure/BrowserAdapter';
+
+const ProductsSchema = z.object({
+  products: z.array(z.object({ name: z.string(), price: z.number() })),
+});
+
+const createBrowser = (onScroll: () => void) => ({
+  scroll: vi.fn(async () => onScroll()),
+  wait: vi.fn(async () => {}),
+}) as unknown as BrowserAdapter & { scroll: ReturnType<typeof vi.fn> };
+
+describe('ExtractionAgent', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<main><p>Alpha laptop costs $1,299.00</p></main>`;
+  });
+
+  it('should scroll for content below the viewport and validate against the schema', async () => {
+    const distiller = new DOMDistiller();
+    const remaining = vi.spyOn(distiller, 'getScrollRemaining').mockReturnValueOnce(1200).mockReturnValue(0);
+    const browser = createBrowser(() => {
+      document.querySelector('main')!.insertAdjacentHTML('beforeend', '<p>Beta laptop costs $899.00</p>');
+    });
+    const llm = new MockLLMProvider({
+      responses: [
+        JSON.stringify({ products: [{ name: 'Alpha laptop', price: '1299' }] }),
+        JSON.stringify({ products: [{ name: 'Alpha laptop', price: 1299 }, { name: 'Beta laptop', price: 899 }] }),
+      ],
+    });
+    const agent = new ExtractionAgent(llm, distiller, browser);
+
+    const result = await agent.extract('Every product with its price', ProductsSchema);
+    const prompt = llm.getRequests()[0]?.messages[1]?.content;
+
+    expect(result.data.products.map(p => p.price)).toEqual([1299, 899]);
+    expect(result.pages).toBe(2);
+    expect(browser.scroll).toHaveBeenCalledWith('down', 800);
+    expect(remaining).toHaveBeenCalledTimes(2);
+    expect(prompt).toContain('Extract: Every product with its price');
+    expect(prompt).toContain('p: Alpha laptop costs $1,299.00\np: Beta laptop costs $899.00');
+    expect(llm.getCallCount()).toBe(2);
+  });
+
+  it('should stop scrolling when a scroll reveals nothing new', async () => {
+    const distiller = new DOMDistiller();
+    vi.spyOn(distiller, 'getScrollRemaining').mockReturnValue(5000);
+    const browser = createBrowser(() => {});
+    const llm = new MockLLMProvider({ responses: [JSON.stringify({ products: [] })] });
+    const agent = new ExtractionAgent(llm, distiller, browser, { maxScrolls: 10 });
+
+    const result = await agent.extract('Products', ProductsSchema, { context: '- 1: {"name":"Gamma"}' });
+
+    expect(result.pages).toBe(2);
+    expect(browser.scroll).toHaveBeenCalledTimes(1);
+    expect(llm.getRequests()[0]?.messages[1]?.content).toContain('Data gathered earlier:\n- 1: {"name":"Gamma"}');
+  });
+
+  it('should read from the top and restore the scroll position', async () => {
+    const distiller = new DOMDistiller();
+    vi.spyOn(distiller, 'getScrollOffset').mockReturnValueOnce(600).mockReturnValue(800);
+    vi.spyOn(distiller, 'getScrollRemaining').mockReturnValueOnce(2000).mockReturnValue(0);
+    const browser = createBrowser(() => {
+      document.querySelector('main')!.insertAdjacentHTML('beforeend', '<p>Beta laptop costs $899.00</p>');
+    });
+    const llm = new MockLLMProvider({ responses: [JSON.stringify({ products: [] })] });
+    const agent = new ExtractionAgent(llm, distiller, browser);
+
+    await agent.extract('Products', ProductsSchema);
+
+    expect(browser.scroll.mock.calls).toEqual([['up', 600], ['down', 800], ['up', 200]]);
+  });
+});
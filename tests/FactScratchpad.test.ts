@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { FactScratchpad } from '../src/services/FactScratchpad';
+import type { SubTaskResult } from '../src/types';
+
+const result = (subtaskId: string, extra: Partial<SubTaskResult> = {}): SubTaskResult => ({
+  subtaskId,
+  success: true,
+  steps: [],
+  startTime: 0,
+  endTime: 0,
+  tokensUsed: 0,
+  retryCount: 0,
+  ...extra,
+});
+
+describe('FactScratchpad', () => {
+  it('should number facts from nested results and drop duplicates per page', () => {
+    const scratchpad = new FactScratchpad();
+    const loop = result('2', {
+      children: [
+        result('2#1', {
+          children: [result('2.1', { observations: [{ kind: 'page', text: 'Price: $10', url: 'https://a.test', elementIndex: 4 }] })],
+        }),
+        result('2#2', {
+          children: [result('2.1', { observations: [{ kind: 'page', text: 'Price: $10', url: 'https://b.test' }] })],
+        }),
+      ],
+    });
+
+    scratchpad.record(result('1', { observations: [{ kind: 'action', text: 'Clicked "Search"', url: 'https://a.test' }] }));
+    expect(scratchpad.hasFindings()).toBe(false);
+
+    const added = scratchpad.record(loop);
+    scratchpad.add('3', { kind: 'page', text: ' Price: $10 ', url: 'https://a.test' });
+
+    expect(added.map(f => [f.id, f.url])).toEqual([['f2', 'https://a.test'], ['f3', 'https://b.test']]);
+    expect(scratchpad.getAll()).toHaveLength(3);
+    expect(scratchpad.get('f2')?.elementIndex).toBe(4);
+    expect(scratchpad.hasFindings()).toBe(true);
+  });
+});
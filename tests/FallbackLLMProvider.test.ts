@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FallbackLLMProvider } from '../src/infrastructure/FallbackLLMProvider';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+
+const ask = { messages: [{ role: 'user' as const, content: 'hi' }] };
+
+describe('FallbackLLMProvider', () => {
+  it('should fall through to the next provider and report the serving model', async () => {
+    const primary = new MockLLMProvider({ model: 'primary', responses: [{ error: 'rate_limit' }] });
+    const backup = new MockLLMProvider({ model: 'backup', responses: ['from backup'] });
+    const onFallback = vi.fn();
+    const llm = new FallbackLLMProvider([primary, backup], { onFallback });
+
+    const response = await llm.complete(ask);
+
+    expect(response.content).toBe('from backup');
+    expect(response.model).toBe('backup');
+    expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ from: 'primary', to: 'backup' }));
+  });
+
+  it('should rethrow when shouldFallback rejects the error or the chain is exhausted', async () => {
+    const failing = () => new MockLLMProvider({ responses: [{ error: 'context_length' }] });
+
+    const strict = new FallbackLLMProvider([failing(), failing()], { shouldFallback: e => /429/.test(e.message) });
+    await expect(strict.complete(ask)).rejects.toThrow(/context length/);
+
+    const exhausted = new FallbackLLMProvider([failing(), failing()]);
+    await expect(exhausted.complete(ask)).rejects.toThrow(/context length/);
+  });
+
+  it('should fall back when a stream fails before producing output', async () => {
+    const primary = new MockLLMProvider({ model: 'primary', responses: [{ error: 'server_error' }] });
+    const backup = new MockLLMProvider({ model: 'backup', responses: ['streamed'] });
+    const llm = new FallbackLLMProvider([primary, backup]);
+
+    const response = await llm.completeStreaming(ask, () => {});
+
+    expect(response.content).toBe('streamed');
+    expect(response.model).toBe('backup');
+  });
+});
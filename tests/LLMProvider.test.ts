@@ -0,0 +1,404 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  OpenAIProvider,
+  AnthropicProvider,
+  GoogleProvider,
+  LocalProvider,
+  LLMProviderError,
+} from '../src/infrastructure/LLMProvider';
+import { FallbackLLMProvider } from '../src/infrastructure/FallbackLLMProvider';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+import type { LLMMessage } from '../src/types';
+
+const conversation: LLMMessage[] = [
+  { role: 'system', content: 'You are a browser agent.' },
+  { role: 'user', content: 'Click the search button' },
+  {
+    role: 'assistant',
+    content: 'Clicking it now',
+    toolCalls: [{ id: 'call_1', name: 'click_element', arguments: '{"index":3}' }],
+  },
+  { role: 'tool', content: 'Success: Clicked element at index 3', tool_call_id: 'call_1', name: 'click_element' },
+  { role: 'user', content: 'Updated page: results are visible' },
+];
+
+const tools = [{
+  name: 'click_element',
+  description: 'Click on an element by its index',
+  parameters: { type: 'object' as const, properties: { index: { type: 'number' as const } }, required: ['index'] },
+}];
+
+// Inject a fake SDK client so no network or SDK import is needed
+const withClient = <T extends object>(provider: T, client: unknown): T => {
+  (provider as unknown as { client: unknown }).client = client;
+  return provider;
+};
+
+describe('OpenAIProvider', () => {
+  const createClient = () => ({
+    chat: {
+      completions: {
+        create: vi.fn().mockResolvedValue({
+          choices: [{
+            message: { content: null, tool_calls: [{ id: 'call_2', function: { name: 'click_element', arguments: '{"index":4}' } }] },
+            finish_reason: 'tool_calls',
+          }],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        }),
+      },
+    },
+  });
+
+  it('should encode assistant tool calls and tool results', async () => {
+    const client = createClient();
+    const provider = withClient(new OpenAIProvider({ model: 'gpt-4o' }), client);
+
+    const response = await provider.complete({ messages: conversation, tools, toolChoice: 'required' });
+    const options = client.chat.completions.create.mock.calls[0]![0];
+
+    expect(options.messages[2]).toEqual({
+      role: 'assistant',
+      content: 'Clicking it now',
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'click_element', arguments: '{"index":3}' } }],
+    });
+    expect(options.messages[3]).toEqual({ role: 'tool', content: 'Success: Clicked element at index 3', tool_call_id: 'call_1' });
+    expect(options.tool_choice).toBe('required');
+    expect(response.toolCalls?.[0]).toEqual({ id: 'call_2', name: 'click_element', arguments: '{"index":4}' });
+  });
+
+  it('should map a named tool choice to a function choice', async () => {
+    const client = createClient();
+    const provider = withClient(new OpenAIProvider({ model: 'gpt-4o' }), client);
+
+    await provider.complete({ messages: conversation, tools, toolChoice: { name: 'click_element' } });
+    const options = client.chat.completions.create.mock.calls[0]![0];
+
+    expect(options.tool_choice).toEqual({ type: 'function', function: { name: 'click_element' } });
+  });
+
+  it('should send a response schema as json_schema', async () => {
+    const client = createClient();
+    const provider = withClient(new OpenAIProvider({ model: 'gpt-4o' }), client);
+    const schema = { type: 'object', properties: { ok: { type: 'boolean' } } };
+
+    await provider.complete({ messages: conversation, responseSchema: { name: 'result', schema } });
+    const options = client.chat.completions.create.mock.calls[0]![0];
+
+    expect(options.response_format).toEqual({ type: 'json_schema', json_schema: { name: 'result', schema, strict: false } });
+  });
+});
+
+describe('AnthropicProvider', () => {
+  const createClient = () => ({
+    messages: {
+      create: vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: 'Done' }],
+        usage: { input_tokens: 10, output_tokens: 5 },
+        stop_reason: 'end_turn',
+      }),
+    },
+  });
+
+  it('should encode tool_use and tool_result content blocks', async () => {
+    const client = createClient();
+    const provider = withClient(new AnthropicProvider({ model: 'claude-3-haiku' }), client);
+
+    await provider.complete({ messages: conversation, tools });
+    const options = client.messages.create.mock.calls[0]![0];
+
+    expect(options.system).toBe('You are a browser agent.');
+    expect(options.messages).toEqual([
+      { role: 'user', content: 'Click the search button' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Clicking it now' },
+          { type: 'tool_use', id: 'call_1', name: 'click_element', input: { index: 3 } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call_1', content: 'Success: Clicked element at index 3' },
+          { type: 'text', text: 'Updated page: results are visible' },
+        ],
+      },
+    ]);
+    expect(options.tools[0].input_schema).toEqual(tools[0]!.parameters);
+  });
+
+  it('should honor toolChoice', async () => {
+    const client = createClient();
+    const provider = withClient(new AnthropicProvider({ model: 'claude-3-haiku' }), client);
+
+    await provider.complete({ messages: conversation, tools, toolChoice: 'required' });
+    await provider.complete({ messages: conversation, tools, toolChoice: { name: 'click_element' } });
+    await provider.complete({ messages: conversation, tools, toolChoice: 'none' });
+
+    const calls = client.messages.create.mock.calls.map(c => c[0]);
+    expect(calls[0].tool_choice).toEqual({ type: 'any' });
+    expect(calls[1].tool_choice).toEqual({ type: 'tool', name: 'click_element' });
+    expect(calls[2].tools).toHaveLength(1);
+    expect(calls[2].tool_choice).toEqual({ type: 'none' });
+  });
+
+  it('should force a tool for a response schema and return its input as content', async () => {
+    const client = {
+      messages: {
+        create: vi.fn().mockResolvedValue({
+          content: [{ type: 'tool_use', id: 'tu_1', name: 'result', input: { ok: true } }],
+          usage: { input_tokens: 10, output_tokens: 5 },
+          stop_reason: 'tool_use',
+        }),
+      },
+    };
+    const provider = withClient(new AnthropicProvider({ model: 'claude-3-haiku' }), client);
+    const schema = { type: 'object', properties: { ok: { type: 'boolean' } } };
+
+    const response = await provider.complete({ messages: conversation, responseSchema: { name: 'result', schema } });
+    const options = client.messages.create.mock.calls[0]![0];
+
+    expect(options.tools[0]).toMatchObject({ name: 'result', input_schema: schema });
+    expect(options.tool_choice).toEqual({ type: 'tool', name: 'result' });
+    expect(response.content).toBe('{"ok":true}');
+    expect(response.toolCalls).toBeUndefined();
+    expect(response.finishReason).toBe('stop');
+  });
+});
+
+// Stub global fetch with a single JSON reply
+const mockFetch = (body: unknown, status = 200) => {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const requestBody = (fetchMock: ReturnType<typeof mockFetch>) => JSON.parse(fetchMock.mock.calls[0]![1].body);
+
+describe('GoogleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should encode function calls and responses as Gemini contents', async () => {
+    const fetchMock = mockFetch({
+      candidates: [{
+        content: { role: 'model', parts: [{ functionCall: { name: 'click_element', args: { index: 4 } } }] },
+        finishReason: 'STOP',
+      }],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+    });
+    const provider = new GoogleProvider({ model: 'gemini-1.5-flash', apiKey: 'key' });
+
+    const response = await provider.complete({ messages: conversation, tools, toolChoice: 'required' });
+    const [url, init] = fetchMock.mock.calls[0]!;
+    const body = requestBody(fetchMock);
+
+    expect(url).toContain('/models/gemini-1.5-flash:generateContent');
+    expect(init.headers['x-goog-api-key']).toBe('key');
+    expect(body.systemInstruction.parts[0].text).toBe('You are a browser agent.');
+    expect(body.contents[1]).toEqual({
+      role: 'model',
+      parts: [{ text: 'Clicking it now' }, { functionCall: { name: 'click_element', args: { index: 3 } } }],
+    });
+    expect(body.contents[2].parts[0]).toEqual({
+      functionResponse: { name: 'click_element', response: { content: 'Success: Clicked element at index 3' } },
+    });
+    expect(body.tools[0].functionDeclarations[0].name).toBe('click_element');
+    expect(body.toolConfig.functionCallingConfig.mode).toBe('ANY');
+    expect(response.toolCalls?.[0]?.arguments).toBe('{"index":4}');
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.usage.totalTokens).toBe(15);
+  });
+
+  it('should throw LLMProviderError with the HTTP status', async () => {
+    mockFetch({ error: { message: 'Resource exhausted' } }, 429);
+    const provider = new GoogleProvider({ model: 'gemini-1.5-flash', apiKey: 'key' });
+
+    const error = await provider.complete({ messages: conversation }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.status).toBe(429);
+  });
+});
+
+describe('LocalProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call an OpenAI-compatible endpoint without an API key', async () => {
+    const fetchMock = mockFetch({
+      choices: [{ message: { content: '{"ok":true}' }, finish_reason: 'stop' }],
+    });
+    const provider = new LocalProvider({ model: 'llama3.1' });
+
+    const response = await provider.complete({ messages: conversation, responseFormat: 'json' });
+    const [url, init] = fetchMock.mock.calls[0]!;
+
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(requestBody(fetchMock).response_format).toEqual({ type: 'json_object' });
+    expect(response.content).toBe('{"ok":true}');
+    expect(response.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('should recover tool calls emitted as JSON text', async () => {
+    mockFetch({
+      choices: [{ message: { content: '{"name":"click_element","arguments":{"index":2}}' }, finish_reason: 'stop' }],
+    });
+    const provider = new LocalProvider({ model: 'llama3.1', baseUrl: 'http://127.0.0.1:8080/v1' });
+
+    const response = await provider.complete({ messages: conversation, tools, toolChoice: 'required' });
+
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'click_element', arguments: '{"index":2}' }]);
+    expect(response.finishReason).toBe('tool_calls');
+  });
+
+  it('should stream server-sent chunks from the endpoint', async () => {
+    const sse = [
+      'data: {"choices":[{"delta":{"content":"Hel"},"finish_reason":null}]}',
+      'data: {"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}',
+      'data: [DONE]',
+      '',
+    ].join('\n\n');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(sse, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = new LocalProvider({ model: 'llama3.1' });
+    const onEvent = vi.fn();
+
+    const response = await provider.completeStreaming({ messages: conversation }, onEvent);
+
+    expect(requestBody(fetchMock).stream).toBe(true);
+    expect(onEvent).toHaveBeenCalledWith({ type: 'text', delta: 'Hel' });
+    expect(onEvent).toHaveBeenCalledWith({ type: 'text', delta: 'lo' });
+    expect(response.content).toBe('Hello');
+    expect(response.usage.totalTokens).toBeGreaterThan(0);
+  });
+});
+
+describe('Streaming', () => {
+  const toAsyncIterable = <T>(items: T[]): AsyncIterable<T> => ({
+    async *[Symbol.asyncIterator]() {
+      yield* items;
+    },
+  });
+
+  const collect = async (stream: AsyncIterable<{ type: string }>) => {
+    const events = [];
+    for await (const event of stream) events.push(event);
+    return events;
+  };
+
+  it('should stream OpenAI text and tool-call argument chunks', async () => {
+    const client = {
+      chat: {
+        completions: {
+          create: vi.fn().mockResolvedValue(toAsyncIterable([
+            { choices: [{ delta: { content: 'Let me ' }, finish_reason: null }] },
+            { choices: [{ delta: { content: 'click' }, finish_reason: null }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'click_element', arguments: '{"ind' } }] }, finish_reason: null }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ex":3}' } }] }, finish_reason: 'tool_calls' }] },
+            { choices: [], usage: { prompt_tokens: 10, completion_tokens: 7, total_tokens: 17 } },
+          ])),
+        },
+      },
+    };
+    const provider = withClient(new OpenAIProvider({ model: 'gpt-4o' }), client);
+
+    const events = await collect(provider.stream({ messages: conversation, tools }));
+    const options = client.chat.completions.create.mock.calls[0]![0];
+
+    expect(options.stream).toBe(true);
+    expect(events.filter(e => e.type === 'text')).toHaveLength(2);
+    expect(events.filter(e => e.type === 'tool_call')).toHaveLength(2);
+    const done = events[events.length - 1] as { type: 'done'; response: any };
+    expect(done.response.content).toBe('Let me click');
+    expect(done.response.toolCalls).toEqual([{ id: 'call_1', name: 'click_element', arguments: '{"index":3}' }]);
+    expect(done.response.usage.totalTokens).toBe(17);
+    expect(done.response.finishReason).toBe('tool_calls');
+  });
+
+  it('should stream Anthropic text and input_json deltas', async () => {
+    const client = {
+      messages: {
+        create: vi.fn().mockResolvedValue(toAsyncIterable([
+          { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+          { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+          { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Clicking' } },
+          { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'tu_1', name: 'click_element', input: {} } },
+          { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"index":' } },
+          { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '3}' } },
+          { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+          { type: 'message_stop' },
+        ])),
+      },
+    };
+    const provider = withClient(new AnthropicProvider({ model: 'claude-3-haiku' }), client);
+
+    const events = await collect(provider.stream({ messages: conversation, tools }));
+    const done = events[events.length - 1] as { type: 'done'; response: any };
+
+    expect(done.response.content).toBe('Clicking');
+    expect(done.response.toolCalls).toEqual([{ id: 'tu_1', name: 'click_element', arguments: '{"index":3}' }]);
+    expect(done.response.usage).toEqual({ promptTokens: 12, completionTokens: 9, totalTokens: 21 });
+    expect(done.response.finishReason).toBe('tool_calls');
+  });
+
+  it('should forward events and return the final response from completeStreaming', async () => {
+    const client = {
+      chat: {
+        completions: {
+          create: vi.fn().mockResolvedValue(toAsyncIterable([
+            { choices: [{ delta: { content: 'Hello' }, finish_reason: 'stop' }] },
+          ])),
+        },
+      },
+    };
+    const provider = withClient(new OpenAIProvider({ model: 'gpt-4o' }), client);
+    const onEvent = vi.fn();
+
+    const response = await provider.completeStreaming({ messages: conversation }, onEvent);
+
+    expect(response.content).toBe('Hello');
+    expect(onEvent).toHaveBeenCalledWith({ type: 'text', delta: 'Hello' });
+  });
+});
+
+describe('Cancellation', () => {
+  // Like the SDKs: the request rejects with their own error class once the signal aborts
+  class APIUserAbortError extends Error {
+    override name = 'APIUserAbortError';
+  }
+  const abortable = (_options: unknown, { signal }: { signal?: AbortSignal } = {}) =>
+    new Promise((_resolve, reject) => {
+      const fail = () => reject(new APIUserAbortError('Request was aborted.'));
+      if (signal?.aborted) fail();
+      signal?.addEventListener('abort', fail);
+    });
+
+  it('should report an aborted SDK request as cancelled instead of falling back', async () => {
+    const openai = withClient(new OpenAIProvider({ model: 'gpt-4o' }), {
+      chat: { completions: { create: vi.fn(abortable) } },
+    });
+    const anthropic = withClient(new AnthropicProvider({ model: 'claude-3-haiku' }), {
+      messages: { create: vi.fn(abortable) },
+    });
+    const backup = new MockLLMProvider({ responses: ['fallback answer'] });
+    const llm = new FallbackLLMProvider([openai, backup]);
+
+    const controller = new AbortController();
+    const completion = llm.complete({ messages: conversation, signal: controller.signal });
+    const stream = anthropic.completeStreaming({ messages: conversation, signal: controller.signal }, () => {});
+    controller.abort();
+
+    await expect(completion).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(stream).rejects.toMatchObject({ name: 'AbortError' });
+    expect(backup.getCallCount()).toBe(0);
+  });
+});
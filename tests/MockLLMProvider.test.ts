@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+import { LLMProviderError } from '../src/infrastructure/LLMProvider';
+import { ErrorHandler } from '../src/services/ErrorHandler';
+
+const ask = (content: string) => ({ messages: [{ role: 'user' as const, content }] });
+
+describe('MockLLMProvider', () => {
+  it('should return ordered responses and record requests', async () => {
+    const llm = new MockLLMProvider({ responses: ['first', { content: 'second' }] });
+
+    expect((await llm.complete(ask('a'))).content).toBe('first');
+    expect((await llm.complete(ask('b'))).content).toBe('second');
+    expect(llm.getCallCount()).toBe(2);
+    expect(llm.getLastRequest()?.messages[0]?.content).toBe('b');
+    await expect(llm.complete(ask('c'))).rejects.toThrow(/no scripted response for call #3/);
+  });
+
+  it('should prefer matching rules and respect their limits', async () => {
+    const llm = new MockLLMProvider({
+      rules: [{ match: /plan/i, response: '{"subtasks":[]}', times: 1 }],
+      fallback: 'fallback',
+    });
+
+    expect((await llm.complete(ask('Plan this task'))).content).toBe('{"subtasks":[]}');
+    expect((await llm.complete(ask('Plan this task'))).content).toBe('fallback');
+  });
+
+  it('should build tool calls and report configured usage', async () => {
+    const llm = new MockLLMProvider({
+      handler: (_request, callIndex) => ({ toolCalls: [{ name: 'click_element', arguments: { index: callIndex } }] }),
+      usage: { promptTokens: 10, completionTokens: 2 },
+    });
+
+    const response = await llm.complete(ask('click'));
+
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'click_element', arguments: '{"index":0}' }]);
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 2, totalTokens: 12 });
+  });
+
+  it('should simulate provider errors that ErrorHandler can classify', async () => {
+    const llm = new MockLLMProvider({ responses: [{ error: 'rate_limit' }, { error: 'context_length' }] });
+    const handler = new ErrorHandler();
+
+    const rateLimit = await llm.complete(ask('a')).catch(e => e);
+    const overflow = await llm.complete(ask('b')).catch(e => e);
+
+    expect(rateLimit).toBeInstanceOf(LLMProviderError);
+    expect(rateLimit.status).toBe(429);
+    expect(handler.classify(rateLimit).suggestion).toMatch(/backoff/);
+    expect(handler.classify(overflow).suggestion).toMatch(/distillation/);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { PIIRedactor } from '../src/services/PIIRedactor';
+import { DOMDistiller } from '../src/services/DOMDistiller';
+import { DOMDistillationMode } from '../src/types';
+
+describe('PIIRedactor', () => {
+  it('should replace detected values with stable tokens and restore them', () => {
+    const redactor = new PIIRedactor();
+
+    const redacted = redactor.redact(
+      'Mail jane@example.com or call +1 415 555 0100. Card 4111 1111 1111 1111, not 4111 1111 1111 1112. Order 2024-05-01.'
+    );
+
+    expect(redacted).toBe(
+      'Mail {{pii:email_1}} or call {{pii:phone_1}}. Card {{pii:card_1}}, not 4111 1111 1111 1112. Order 2024-05-01.'
+    );
+    expect(redactor.redact('Reply to jane@example.com')).toBe('Reply to {{pii:email_1}}');
+    expect(redactor.restore('Type {{pii:email_1}} and {{pii:email_9}}')).toBe('Type jane@example.com and {{pii:email_9}}');
+    expect(redactor.restoreJSON('{"note":"{{pii:email_1}}"}')).toBe('{"note":"jane@example.com"}');
+  });
+
+  it('should redact elements matching a selector rule whole', async () => {
+    document.body.innerHTML = `
+      <form>
+        <div data-private><button type="button">Jane Doe</button></div>
+        <button type="button">Jane Doe</button>
+        <input type="text" value="ops@example.com">
+      </form>
+    `;
+    const redactor = new PIIRedactor({ detectors: ['email'], selectors: ['[data-private]'] });
+    const distiller = new DOMDistiller(document, { redactor });
+
+    const dom = await distiller.distill(DOMDistillationMode.ALL_FIELDS);
+    const json = JSON.stringify(dom);
+
+    expect(json).toContain('{{pii:redacted_1}}');
+    expect(json).toContain('Jane Doe');
+    expect(json).toContain('{{pii:email_1}}');
+    expect(json).not.toContain('ops@example.com');
+    expect(redactor.restore('{{pii:redacted_1}}')).toBe('Jane Doe');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PlannerAgent } from '../src/agents/PlannerAgent';
+import { StructuredOutputError } from '../src/infrastructure/StructuredOutput';
 
 // Mock LLM Provider
 const createMockLLM = (response: string) => ({
@@ -37,20 +38,79 @@ describe('PlannerAgent', () => {
       expect(plan.originalTask).toBe('Search for laptop');
     });
 
-    it('should handle malformed LLM response gracefully', async () => {
+    it('should accept a plan returned as a bare array of subtasks', async () => {
+      const llm = createMockLLM(JSON.stringify([
+        { id: '1', description: 'Click search box', action: 'click', target: 'search input' },
+        { id: '2', description: 'Type search term', action: 'type', target: 'search input', value: 'laptop' },
+      ]));
+      const planner = new PlannerAgent(llm as any);
+
+      const plan = await planner.planTask('Search for laptop', { url: 'https://example.com', title: 'Example' });
+
+      expect(plan.subtasks.map(s => s.action)).toEqual(['click', 'type']);
+      expect(llm.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail planning when the response stays malformed', async () => {
       const llm = createMockLLM('not valid json');
       const planner = new PlannerAgent(llm as any);
 
-      const plan = await planner.planTask('Test task', {
+      await expect(planner.planTask('Test task', {
         url: 'https://example.com',
         title: 'Test',
+      })).rejects.toBeInstanceOf(StructuredOutputError);
+    });
+
+    it('should re-prompt when the plan does not match the schema', async () => {
+      const llm = createMockLLM('{"subtasks":[{"description":"Click search box"}]}');
+      llm.complete.mockResolvedValueOnce({
+        content: '{"subtasks":[{"description":"Click search box"}]}',
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+        finishReason: 'stop',
+      }).mockResolvedValueOnce({
+        content: JSON.stringify({ subtasks: [{ id: 1, description: 'Click search box', action: 'click', target: null }] }),
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+        finishReason: 'stop',
       });
+      const planner = new PlannerAgent(llm as any);
+
+      const plan = await planner.planTask('Search', { url: 'https://example.com', title: 'Example' });
+
+      expect(plan.subtasks).toEqual([
+        { id: '1', description: 'Click search box', action: 'click', verification: '', estimatedSteps: 1 },
+      ]);
+      expect(llm.complete).toHaveBeenCalledTimes(2);
+      expect(llm.complete.mock.calls[1]![0].messages.at(-1).content).toContain('subtasks.0.action');
+      expect(planner.getTokensUsed()).toBe(300);
+    });
+
+    it('should parse nested control subtasks and fall back to groups', async () => {
+      const llm = createMockLLM(JSON.stringify({
+        subtasks: [
+          {
+            id: '1', description: 'Copy each price', action: 'extract',
+            control: { type: 'forEach', items: 'First 5 search results', as: null, limit: 5 },
+            children: [
+              { description: 'Open {{item}}', action: 'click' },
+              {
+                description: 'Read the price', action: 'extract',
+                control: { type: 'while', condition: null },
+                children: [{ id: 'p', description: 'Copy price', action: 'extract' }],
+              },
+            ],
+          },
+        ],
+      }));
+      const planner = new PlannerAgent(llm as any);
+
+      const plan = await planner.planTask('Copy prices', { url: 'https://example.com', title: 'Example' });
+      const [loop] = plan.subtasks;
 
-      // Should fall back to a single navigate subtask
-      expect(plan.subtasks).toHaveLength(1);
-      expect(plan.subtasks[0]?.action).toBe('navigate');
-      expect(plan.subtasks[0]?.description).toBe('Test task');
-      expect(plan.originalTask).toBe('Test task');
+      expect(loop?.control).toEqual({ type: 'forEach', items: 'First 5 search results', as: 'item', limit: 5 });
+      expect(loop?.children?.map(s => s.id)).toEqual(['1.1', '1.2']);
+      expect(loop?.children?.[1]?.control).toEqual({ type: 'group' });
+      expect(loop?.children?.[1]?.children?.[0]?.id).toBe('p');
+      expect(llm.complete.mock.calls[0]![0].responseSchema.schema.properties.subtasks.items.properties).toHaveProperty('children');
     });
 
     it('should limit subtasks to max configured', async () => {
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ResilientLLMProvider, CircuitOpenError } from '../src/infrastructure/ResilientLLMProvider';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+import { LLMProviderError, parseRetryAfter } from '../src/infrastructure/LLMProvider';
+
+const ask = { messages: [{ role: 'user' as const, content: 'hi' }] };
+
+describe('ResilientLLMProvider', () => {
+  it('should retry transient errors with backoff', async () => {
+    const inner = new MockLLMProvider({ responses: [{ error: 'rate_limit' }, { error: 'server_error' }, 'ok'] });
+    const onRetry = vi.fn();
+    const llm = new ResilientLLMProvider(inner, { baseDelayMs: 1, jitter: false, onRetry });
+
+    const response = await llm.complete(ask);
+
+    expect(response.content).toBe('ok');
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls.map(c => c[0].delayMs)).toEqual([1, 2]);
+  });
+
+  it('should honor Retry-After and give up on non-transient errors', async () => {
+    const inner = new MockLLMProvider({
+      responses: [
+        { error: new LLMProviderError('Test', 429, 'slow down', 20) },
+        'ok',
+        { error: 'context_length' },
+      ],
+    });
+    const onRetry = vi.fn();
+    const llm = new ResilientLLMProvider(inner, { onRetry });
+
+    expect((await llm.complete(ask)).content).toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 20, retryAfter: true }));
+
+    await expect(llm.complete(ask)).rejects.toThrow(/context length/);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(parseRetryAfter('2')).toBe(2000);
+  });
+
+  it('should fall back to retry-after when retry-after-ms is empty', async () => {
+    const sdkError = Object.assign(new Error('Rate limited'), {
+      status: 429,
+      headers: { 'retry-after-ms': '', 'retry-after': '0.03' },
+    });
+    const inner = new MockLLMProvider({ responses: [{ error: sdkError }, 'ok'] });
+    const onRetry = vi.fn();
+    const llm = new ResilientLLMProvider(inner, { onRetry });
+
+    expect((await llm.complete(ask)).content).toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 30, retryAfter: true }));
+  });
+
+  it('should open the circuit after repeated failures and close it after a successful trial', async () => {
+    const inner = new MockLLMProvider({ responses: [{ error: 'server_error' }, { error: 'server_error' }, 'recovered'] });
+    const states: string[] = [];
+    const llm = new ResilientLLMProvider(inner, {
+      maxRetries: 1,
+      baseDelayMs: 1,
+      failureThreshold: 2,
+      resetTimeoutMs: 20,
+      onCircuitChange: state => states.push(state),
+    });
+
+    await expect(llm.complete(ask)).rejects.toThrow(/500/);
+    await expect(llm.complete(ask)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(inner.getCallCount()).toBe(2);
+
+    await new Promise(r => setTimeout(r, 25));
+    expect((await llm.complete(ask)).content).toBe('recovered');
+    expect(states).toEqual(['open', 'half_open', 'closed']);
+  });
+
+  it('should throttle when the token budget is spent', async () => {
+    const inner = new MockLLMProvider({ fallback: 'ok', usage: { promptTokens: 600, completionTokens: 0 } });
+    const onThrottle = vi.fn();
+    const llm = new ResilientLLMProvider(inner, { tokensPerMinute: 600, onThrottle });
+
+    await llm.complete(ask);
+    await llm.complete(ask);
+
+    expect(onThrottle).toHaveBeenCalledWith(expect.objectContaining({ limit: 'tokens' }));
+    expect(onThrottle.mock.calls[0]![0].waitMs).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { SecretVault } from '../src/services/SecretVault';
+
+describe('SecretVault', () => {
+  it('should resolve placeholders and redact values back to them', () => {
+    const vault = new SecretVault({ pin: '1234', password: 'hunter2-1234' });
+
+    expect(vault.resolve('{{secret:password}} / {{secret:pin}}')).toBe('hunter2-1234 / 1234');
+    expect(() => vault.resolve('{{secret:token}}')).toThrow('Unknown secret "token"');
+    expect(vault.redact('typed hunter2-1234, then 1234')).toBe('typed {{secret:password}}, then {{secret:pin}}');
+    expect(vault.contains('value: 1234')).toBe(true);
+    expect(() => vault.set('bad name', 'x')).toThrow('Invalid secret name');
+  });
+
+  it('should redact nested plain data but keep other objects as they are', () => {
+    const vault = new SecretVault({ password: 'hunter2' });
+    const respond = () => {};
+    const error = new Error('hunter2');
+
+    const redacted = vault.redactDeep({ steps: [{ feedback: 'Typed hunter2' }], respond, error });
+
+    expect(redacted).toEqual({ steps: [{ feedback: 'Typed {{secret:password}}' }], respond, error });
+    expect(redacted.respond).toBe(respond);
+    expect(redacted.error).toBe(error);
+  });
+});
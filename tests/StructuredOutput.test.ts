@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { completeStructured, StructuredOutputError } from '../src/infrastructure/StructuredOutput';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+import { zodToJsonSchema } from '../src/utils/zodToJsonSchema';
+
+const Answer = z.object({
+  answer: z.string().describe('The answer'),
+  confidence: z.number().min(0).max(1),
+  tags: z.array(z.enum(['a', 'b'])).optional(),
+});
+
+const ask = { messages: [{ role: 'user' as const, content: 'Question?' }] };
+
+describe('zodToJsonSchema', () => {
+  it('should convert objects, enums, optional fields and bounds', () => {
+    expect(zodToJsonSchema(Answer)).toEqual({
+      type: 'object',
+      properties: {
+        answer: { type: 'string', description: 'The answer' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+      },
+      required: ['answer', 'confidence'],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe('completeStructured', () => {
+  it('should send the schema and return validated data', async () => {
+    const llm = new MockLLMProvider({ responses: ['```json\n{"answer":"42","confidence":0.9}\n```'] });
+
+    const result = await llm.completeStructured(ask, Answer, { name: 'answer' });
+
+    expect(result.data).toEqual({ answer: '42', confidence: 0.9 });
+    expect(result.attempts).toBe(1);
+    expect(llm.getLastRequest()?.responseSchema?.name).toBe('answer');
+    expect(llm.getLastRequest()?.responseFormat).toBe('json');
+  });
+
+  it('should re-prompt with validation errors', async () => {
+    const llm = new MockLLMProvider({
+      responses: ['{"answer":"42","confidence":7}', '{"answer":"42","confidence":0.7}'],
+      usage: { promptTokens: 10, completionTokens: 5 },
+    });
+
+    const result = await completeStructured(llm, ask, Answer);
+
+    expect(result.data.confidence).toBe(0.7);
+    expect(result.attempts).toBe(2);
+    expect(result.usage.totalTokens).toBe(30);
+    const retry = llm.getLastRequest()!.messages;
+    expect(retry[1]).toEqual({ role: 'assistant', content: '{"answer":"42","confidence":7}' });
+    expect(retry[2]?.content).toContain('confidence:');
+  });
+
+  it('should throw once retries are exhausted', async () => {
+    const llm = new MockLLMProvider({ fallback: 'not json' });
+
+    const error = await completeStructured(llm, ask, Answer, { maxRetries: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(2);
+    expect(llm.getCallCount()).toBe(2);
+  });
+});
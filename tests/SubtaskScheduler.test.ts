@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { SubtaskScheduler, PlanValidationError, validateSubtaskGraph } from '../src/services/SubtaskScheduler';
+import type { SubTask } from '../src/types';
+
+const subtask = (id: string, extra: Partial<SubTask> = {}): SubTask => ({
+  id,
+  description: `Subtask ${id}`,
+  action: 'click',
+  verification: '',
+  ...extra,
+});
+
+const drain = (scheduler: SubtaskScheduler): string[] => {
+  const order: string[] = [];
+  for (let next = scheduler.next(); next; next = scheduler.next()) {
+    order.push(next.id);
+    scheduler.complete(next.id);
+  }
+  return order;
+};
+
+describe('SubtaskScheduler', () => {
+  it('should run dependencies first and order ready subtasks by priority', () => {
+    const scheduler = new SubtaskScheduler([
+      subtask('receipt', { dependencies: ['checkout'] }),
+      subtask('checkout', { dependencies: ['login'], priority: 'high' }),
+      subtask('newsletter', { priority: 'low' }),
+      subtask('login'),
+      subtask('search', { priority: 'high' }),
+    ]);
+
+    expect(drain(scheduler)).toEqual(['search', 'login', 'checkout', 'receipt', 'newsletter']);
+  });
+
+  it('should skip transitive dependents when a prerequisite fails', () => {
+    const scheduler = new SubtaskScheduler([
+      subtask('login'),
+      subtask('checkout', { dependencies: ['login'] }),
+      subtask('receipt', { dependencies: ['checkout'] }),
+      subtask('browse'),
+    ]);
+
+    expect(scheduler.next()?.id).toBe('login');
+    const skipped = scheduler.fail('login');
+
+    expect(skipped.map(s => [s.subtask.id, s.blockedBy])).toEqual([['checkout', 'login'], ['receipt', 'checkout']]);
+    expect(scheduler.next()?.id).toBe('browse');
+    expect(scheduler.getSkipped()).toHaveLength(2);
+  });
+
+  it('should reject cycles, self-dependencies, duplicates and unknown ids', () => {
+    expect(validateSubtaskGraph([
+      subtask('1', { dependencies: ['2'] }),
+      subtask('2', { dependencies: ['3'] }),
+      subtask('3', { dependencies: ['1'] }),
+    ])).toEqual(['Dependency cycle: 1 -> 2 -> 3 -> 1']);
+
+    expect(validateSubtaskGraph([
+      subtask('1', { dependencies: ['1', '9'] }),
+      subtask('1'),
+    ])).toEqual([
+      'Duplicate subtask id "1"',
+      'Subtask "1" depends on itself',
+      'Subtask "1" depends on unknown subtask "9"',
+    ]);
+
+    expect(() => new SubtaskScheduler([subtask('a', { dependencies: ['b'] })])).toThrow(PlanValidationError);
+  });
+
+  it('should rewire dependents onto alternatives and drop pending work on replan', () => {
+    const scheduler = new SubtaskScheduler([
+      subtask('login', { priority: 'high' }),
+      subtask('checkout', { dependencies: ['login'] }),
+      subtask('receipt', { dependencies: ['checkout'] }),
+    ]);
+    scheduler.next();
+
+    const alternatives = scheduler.replace('login', [
+      subtask('a', { dependencies: ['b'] }),
+      subtask('b'),
+    ]);
+    expect(alternatives.map(s => [s.id, s.dependencies, s.priority])).toEqual([
+      ['login.1', ['login.2'], 'high'],
+      ['login.2', undefined, 'high'],
+    ]);
+    expect(drain(scheduler).slice(0, 3)).toEqual(['login.2', 'login.1', 'checkout']);
+
+    const retried = new SubtaskScheduler([subtask('1'), subtask('2', { dependencies: ['1'] })]);
+    retried.next();
+    retried.complete('1');
+    retried.next();
+    const { added, removed } = retried.replan('2', [
+      subtask('1', { dependencies: ['1'] }),
+      subtask('2', { dependencies: ['1', 'missing'] }),
+    ]);
+    expect(removed).toEqual(['2']);
+    expect(added.map(s => [s.id, s.dependencies])).toEqual([['r1.1', ['1']], ['r1.2', ['r1.1']]]);
+    expect(drain(retried)).toEqual(['r1.1', 'r1.2']);
+    expect(retried.allSucceeded()).toBe(true);
+  });
+});
+
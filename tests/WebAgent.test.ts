@@ -0,0 +1,607 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebAgent } from '../src/core/WebAgent';
+import { z } from 'zod';
+import { MockLLMProvider } from '../src/infrastructure/MockLLMProvider';
+
+const plan = JSON.stringify({
+  subtasks: [
+    { id: '1', description: 'Type the search term', action: 'type', target: 'search input', value: 'laptop', verification: 'Text entered' },
+  ],
+});
+
+const verified = {
+  match: /Success criterion/,
+  response: JSON.stringify({ completed: true, confidence: 0.9, reason: 'The page shows the expected result' }),
+};
+
+describe('WebAgent', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form>
+        <label>Search <input name="q" type="text"></label>
+        <button type="button">Go</button>
+      </form>
+    `;
+  });
+
+  it('should plan and execute a task end to end with a mock provider', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        plan,
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+      usage: { promptTokens: 50, completionTokens: 10 },
+    });
+    const agent = new WebAgent({ llm });
+    const events: string[] = [];
+    agent.on('task:plan', () => events.push('plan'));
+    agent.on('subtask:complete', () => events.push('subtask'));
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(true);
+    expect(result.totalSteps).toBe(1);
+    expect(document.querySelector('input')?.value).toBe('laptop');
+    expect(events).toEqual(['plan', 'subtask']);
+    expect(llm.getCallCount()).toBe(4);
+    expect(result.totalTokens).toBe(4 * 60);
+    expect(result.subtaskResults[0]?.verification?.confidence).toBe(0.9);
+    expect(llm.getRequests()[0]?.messages[1]?.content).toContain('Search for laptop');
+    expect(llm.getPendingCount()).toBe(0);
+  });
+
+  it('should drive the tool-calling loop from scripted tool calls', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        plan,
+        { toolCalls: [{ name: 'type_text', arguments: { index: 0, text: 'laptop' } }] },
+        { toolCalls: [{ name: 'done', arguments: { success: true } }] },
+      ],
+    });
+    const agent = new WebAgent({ llm, toolCalling: true });
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(true);
+    expect(document.querySelector('input')?.value).toBe('laptop');
+    expect(llm.getRequests()[2]?.messages.some(m => m.role === 'tool')).toBe(true);
+  });
+
+  it('should route roles to their own models and track usage by serving model', async () => {
+    const planner = new MockLLMProvider({ model: 'gpt-4o', rules: [verified], responses: [plan], usage: { promptTokens: 100, completionTokens: 20 } });
+    const navigator = new MockLLMProvider({ model: 'gpt-4o-mini', fallback: { error: 'rate_limit' } });
+    const backup = new MockLLMProvider({
+      model: 'claude-3-haiku',
+      responses: [
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+      usage: { promptTokens: 10, completionTokens: 5 },
+    });
+    const agent = new WebAgent({
+      llm: planner,
+      roles: { browserNav: { llm: navigator, fallbacks: [backup] } },
+    });
+    const fallbacks: string[] = [];
+    agent.on('llm:fallback', e => fallbacks.push(`${e.agent}:${e.from}->${e.to}`));
+
+    const result = await agent.execute('Search for laptop');
+    const metrics = agent.getTokenMetrics();
+
+    expect(result.success).toBe(true);
+    expect(fallbacks).toEqual(Array(2).fill('browserNav:gpt-4o-mini->claude-3-haiku'));
+    expect(metrics.byModel['gpt-4o']?.requests).toBe(2);
+    expect(metrics.byModel['claude-3-haiku']?.requests).toBe(2);
+    expect(metrics.byModel['gpt-4o-mini']).toBeUndefined();
+    expect(metrics.byAgent.browserNav.tokens).toBe(30);
+  });
+
+  it('should retry rate-limited calls when resilience is configured', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        { error: 'rate_limit' },
+        plan,
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({ llm, resilience: { baseDelayMs: 1 } });
+    const retries: number[] = [];
+    agent.on('llm:retry', e => retries.push(e.attempt));
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(true);
+    expect(retries).toEqual([1]);
+  });
+
+  it('should fail the task when the plan stays malformed', async () => {
+    const llm = new MockLLMProvider({ fallback: 'not a plan', usage: { promptTokens: 50, completionTokens: 10 } });
+    const agent = new WebAgent({ llm });
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('LLM_ERROR');
+    expect(result.subtaskResults).toEqual([]);
+    expect(result.totalTokens).toBe(llm.getCallCount() * 60);
+  });
+
+  it('should share one rate limiter and circuit per fallback model across roles', async () => {
+    const primary = new MockLLMProvider({ model: 'primary', fallback: { error: 'rate_limit' } });
+    const backup = new MockLLMProvider({ model: 'backup', fallback: { error: 'rate_limit' } });
+    const agent = new WebAgent({
+      llm: primary,
+      fallbacks: [backup],
+      resilience: { maxRetries: 0, failureThreshold: 2 },
+    });
+    const circuits: string[] = [];
+    agent.on('llm:circuit', e => circuits.push(`${e.model}:${e.state}`));
+
+    await expect(agent.chat('Hello')).rejects.toThrow();
+    await expect(agent.extract('Products', z.object({ name: z.string() }))).rejects.toThrow();
+
+    expect(circuits).toContain('backup:open');
+  });
+
+  it('should cancel an in-flight LLM call when stop() is called', async () => {
+    const llm = new MockLLMProvider({
+      responses: [plan, { content: JSON.stringify({ action: 'done' }), delayMs: 10000 }],
+    });
+    const agent = new WebAgent({ llm });
+    const errors: string[] = [];
+    agent.on('task:error', e => errors.push(e.error.code));
+    agent.on('subtask:start', () => setTimeout(() => agent.stop(), 10));
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('CANCELLED');
+    expect(result.subtaskResults[0]?.error?.code).toBe('CANCELLED');
+    expect(result.totalDuration).toBeLessThan(5000);
+    expect(errors).toEqual(['CANCELLED']);
+    expect(agent.isActive()).toBe(false);
+  });
+
+  it('should abort a running wait action from an external signal', async () => {
+    const llm = new MockLLMProvider({
+      responses: [plan, JSON.stringify({ action: 'wait', params: { duration: 10000 } })],
+    });
+    const agent = new WebAgent({ llm });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const result = await agent.execute('Search for laptop', { signal: controller.signal });
+
+    expect(result.error?.code).toBe('CANCELLED');
+    expect(result.totalDuration).toBeLessThan(5000);
+    expect(llm.getCallCount()).toBe(2);
+  });
+
+  it('should skip dependents of a failed subtask and report them', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        JSON.stringify({
+          subtasks: [
+            { id: '1', description: 'Log in', action: 'click', verification: 'Logged in' },
+            { id: '2', description: 'Check out', action: 'click', verification: 'Order placed', dependencies: ['1'] },
+            { id: '3', description: 'Browse deals', action: 'click', verification: 'Deals shown' },
+          ],
+        }),
+        { toolCalls: [{ name: 'done', arguments: { success: false, summary: 'Login rejected' } }] },
+        JSON.stringify({ recoverable: true, strategy: 'skip', reason: 'Continue with independent work' }),
+        { toolCalls: [{ name: 'done', arguments: { success: true } }] },
+      ],
+    });
+    const agent = new WebAgent({ llm, toolCalling: true, retry: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1 } });
+    const skipped: string[] = [];
+    agent.on('subtask:skipped', e => skipped.push(e.skipped.subtask.id));
+
+    const result = await agent.execute('Buy the item');
+
+    expect(result.success).toBe(false);
+    expect(result.subtaskResults.map(r => r.subtaskId)).toEqual(['1', '3']);
+    expect(result.skippedSubtasks).toEqual([
+      expect.objectContaining({ blockedBy: '1', reason: 'Dependency "1" was skipped (Continue with independent work)' }),
+    ]);
+    expect(result.recoveries.map(r => [r.subtaskId, r.strategy])).toEqual([['1', 'skip']]);
+    expect(skipped).toEqual(['2']);
+  });
+
+  it('should splice in alternative subtasks and replan from the current page', async () => {
+    const failed = { toolCalls: [{ name: 'done', arguments: { success: false, summary: 'Button missing' } }] };
+    const succeeded = { toolCalls: [{ name: 'done', arguments: { success: true } }] };
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        JSON.stringify({
+          subtasks: [
+            { id: '1', description: 'Open cart', action: 'click', verification: 'Cart shown' },
+            { id: '2', description: 'Check out', action: 'click', verification: 'Order placed', dependencies: ['1'] },
+          ],
+        }),
+        failed,
+        JSON.stringify({
+          strategy: 'alternative',
+          reason: 'Use the header link',
+          alternativeSubtasks: [{ description: 'Open cart from header', action: 'click' }],
+        }),
+        succeeded,
+        failed,
+        JSON.stringify({ strategy: 'replan', reason: 'Checkout flow changed' }),
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Use express checkout', action: 'click' }] }),
+        succeeded,
+      ],
+    });
+    const agent = new WebAgent({ llm, toolCalling: true, retry: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1 } });
+
+    const result = await agent.execute('Buy the item');
+
+    expect(result.success).toBe(true);
+    expect(result.subtaskResults.map(r => [r.subtaskId, r.success])).toEqual([
+      ['1', false], ['1.1', true], ['2', false], ['r1.1', true],
+    ]);
+    expect(result.recoveries).toEqual([
+      expect.objectContaining({ subtaskId: '1', strategy: 'alternative', error: 'Button missing' }),
+      expect.objectContaining({ subtaskId: '2', strategy: 'replan', removedSubtaskIds: ['2'] }),
+    ]);
+    expect(result.recoveries[1]?.addedSubtasks[0]?.description).toBe('Use express checkout');
+    expect(llm.getRequests()[7]?.messages[1]?.content).toContain('[1.1] Open cart from header');
+  });
+
+  it('should fail a subtask the verifier is not confident about', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        plan,
+        JSON.stringify({ action: 'done' }),
+        JSON.stringify({ strategy: 'abort', reason: 'Cannot confirm the search' }),
+      ],
+    });
+    const agent = new WebAgent({
+      llm,
+      retry: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1 },
+      verification: { minConfidence: 0.95 },
+    });
+    const verdicts: number[] = [];
+    agent.on('subtask:verified', e => verdicts.push(e.verification.confidence));
+
+    const result = await agent.execute('Search for laptop');
+    const [subtaskResult] = result.subtaskResults;
+
+    expect(result.success).toBe(false);
+    expect(subtaskResult?.error?.code).toBe('VERIFICATION_FAILED');
+    expect(subtaskResult?.error?.message).toContain('confidence 0.90');
+    expect(subtaskResult?.verification).toEqual(expect.objectContaining({ completed: true, confidence: 0.9 }));
+    expect(verdicts).toEqual([0.9]);
+    expect(llm.getRequests()[2]?.messages[1]?.content).toContain('Success criterion: Text entered');
+  });
+
+  it('should fail a subtask whose verification cannot run', async () => {
+    const llm = new MockLLMProvider({
+      rules: [{ match: /Success criterion/, response: { error: 'server_error' } }],
+      responses: [
+        plan,
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+        JSON.stringify({ strategy: 'abort', reason: 'Cannot confirm the search' }),
+      ],
+    });
+    const agent = new WebAgent({ llm, retry: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1 } });
+    const errors: string[] = [];
+    agent.on('subtask:error', e => errors.push(e.error.code));
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(false);
+    expect(result.subtaskResults[0]?.error?.message).toContain('Verification unavailable');
+    expect(errors).toEqual(['LLM_ERROR']);
+  });
+
+  it('should run a forEach loop over an extracted list with bound variables', async () => {
+    const loopPlan = JSON.stringify({
+      subtasks: [{
+        id: '1', description: 'Search for each product', action: 'type', verification: 'Each product searched',
+        control: { type: 'forEach', items: 'Product names', as: 'product', limit: 2 },
+        children: [
+          { id: '1.1', description: 'Type {{product}}', action: 'type', target: 'search input', value: '{{product}}', verification: 'Typed {{product}}' },
+        ],
+      }],
+    });
+    const llm = new MockLLMProvider({
+      rules: [verified, { match: /List: Product names/, response: JSON.stringify({ items: ['Alpha', 'Beta', 'Gamma'] }) }],
+      responses: [
+        loopPlan,
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'Alpha' } }),
+        JSON.stringify({ action: 'done' }),
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'Beta' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+      usage: { promptTokens: 50, completionTokens: 10 },
+    });
+    const agent = new WebAgent({ llm });
+    const iterations: string[] = [];
+    agent.on('subtask:iteration', e => iterations.push(`${e.subtask.id}#${e.iteration}=${e.variables['product']}`));
+
+    const result = await agent.execute('Search for each product');
+    const loop = result.subtaskResults[0];
+    const navigatorPrompts = llm.getRequests()
+      .map(r => r.messages[1]?.content ?? '')
+      .filter(content => content.startsWith('## Subtask'));
+
+    expect(result.success).toBe(true);
+    expect(result.totalSteps).toBe(2);
+    // Plan, list, two navigator calls and a verification per iteration
+    expect(result.totalTokens).toBe(llm.getCallCount() * 60);
+    expect(iterations).toEqual(['1#1=Alpha', '1#2=Beta']);
+    expect(loop?.children?.map(r => [r.subtaskId, r.iteration, r.variables])).toEqual([
+      ['1#1', 1, { product: 'Alpha' }],
+      ['1#2', 2, { product: 'Beta' }],
+    ]);
+    expect(loop?.children?.[1]?.children?.map(r => [r.subtaskId, r.success])).toEqual([['1.1', true]]);
+    expect(navigatorPrompts[0]).toContain('Type Alpha');
+    expect(navigatorPrompts[2]).toContain('## Loop Variables\nproduct: Beta');
+    expect(document.querySelector('input')?.value).toBe('AlphaBeta');
+  });
+
+  it('should repeat a while loop until its condition stops holding', async () => {
+    const llm = new MockLLMProvider({
+      rules: [
+        verified,
+        { match: /Condition: More results/, response: JSON.stringify({ holds: true, reason: 'A next button is shown' }), times: 2 },
+        { match: /Condition: More results/, response: JSON.stringify({ holds: false, reason: 'Last page' }) },
+      ],
+      responses: [
+        JSON.stringify({
+          subtasks: [{
+            id: '1', description: 'Page through results', action: 'click', verification: '',
+            control: { type: 'while', condition: 'More results are available' },
+            children: [{ id: 'next', description: 'Go to the next page', action: 'click', verification: 'Next page shown' }],
+          }],
+        }),
+        JSON.stringify({ action: 'done' }),
+        JSON.stringify({ action: 'done' }),
+      ],
+      usage: { promptTokens: 50, completionTokens: 10 },
+    });
+    const agent = new WebAgent({ llm });
+
+    const result = await agent.execute('Read every page of results');
+
+    expect(result.success).toBe(true);
+    expect(result.totalTokens).toBe(llm.getCallCount() * 60);
+    expect(result.subtaskResults[0]?.children?.map(r => r.subtaskId)).toEqual(['1#1', '1#2']);
+    expect(llm.getPendingCount()).toBe(0);
+  });
+
+  it('should return data matching the output schema, using what extract subtasks gathered', async () => {
+    const llm = new MockLLMProvider({
+      rules: [
+        verified,
+        { match: /Extract: Read the search term/, response: JSON.stringify({ term: 'laptop' }) },
+        { match: /Extract: Search for laptop/, response: JSON.stringify({ query: 'laptop', typed: true }) },
+      ],
+      responses: [
+        JSON.stringify({
+          subtasks: [
+            { id: '1', description: 'Type the search term', action: 'type', target: 'search input', value: 'laptop', verification: 'Text entered' },
+            { id: '2', description: 'Read the search term', action: 'extract', verification: '', dependencies: ['1'] },
+          ],
+        }),
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({ llm });
+
+    const result = await agent.execute('Search for laptop', {
+      outputSchema: z.object({ query: z.string(), typed: z.boolean() }),
+    });
+    const finalPrompt = llm.getRequests()
+      .map(r => r.messages[1]?.content ?? '')
+      .find(content => content.startsWith('Extract: Search for laptop'));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ query: 'laptop', typed: true });
+    expect(result.subtaskResults[1]?.data).toEqual({ term: 'laptop' });
+    expect(finalPrompt).toContain('Data gathered earlier:\n- 2: {"term":"laptop"}');
+    expect(agent.getTokenMetrics().byAgent.extractor.requests).toBe(2);
+  });
+
+  it('should count the tokens a failed extraction spent', async () => {
+    const llm = new MockLLMProvider({
+      rules: [{ match: /Extract: Read the search term/, response: 'not data' }],
+      responses: [
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Read the search term', action: 'extract', verification: '' }] }),
+        JSON.stringify({ strategy: 'abort', reason: 'Nothing to read' }),
+      ],
+      usage: { promptTokens: 50, completionTokens: 10 },
+    });
+    const agent = new WebAgent({ llm, retry: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1 } });
+
+    const result = await agent.execute('Search for laptop');
+
+    expect(result.success).toBe(false);
+    expect(result.subtaskResults[0]?.error?.message).toContain('Extraction failed');
+    // The first attempt and two re-prompts
+    expect(result.subtaskResults[0]?.tokensUsed).toBe(3 * 60);
+    expect(result.totalTokens).toBe(llm.getCallCount() * 60);
+  });
+
+  it('should answer question-style tasks from recorded facts with citations', async () => {
+    const llm = new MockLLMProvider({
+      rules: [
+        verified,
+        {
+          match: /Facts:\n\[f1\] Cheapest flight: \$120 with Delta \(.*, element \[3\]\)/,
+          response: JSON.stringify({ answer: 'The cheapest flight is $120 with Delta', citations: ['f1', 'f9'], confidence: 0.8 }),
+        },
+      ],
+      responses: [
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Find the cheapest flight', action: 'read', verification: 'Price found' }] }),
+        JSON.stringify({ action: 'done', facts: [{ text: 'Cheapest flight: $120 with Delta', index: 3 }] }),
+      ],
+    });
+    const agent = new WebAgent({ llm });
+
+    const result = await agent.execute("What's the cheapest flight listed?");
+
+    expect(result.success).toBe(true);
+    expect(result.facts).toEqual([
+      expect.objectContaining({ id: 'f1', kind: 'page', subtaskId: '1', elementIndex: 3, url: expect.any(String) }),
+    ]);
+    expect(result.answer?.text).toBe('The cheapest flight is $120 with Delta');
+    expect(result.answer?.citations.map(f => f.id)).toEqual(['f1']);
+  });
+
+  it('should hold matching actions for approval and tell the agent about denials', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Press Go', action: 'click', verification: 'Search started' }] }),
+        JSON.stringify({ action: 'click', params: { index: 1 } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({
+      llm,
+      approval: { rules: [{ actions: ['click'], elementText: 'go', reason: 'Starts a search' }] },
+    });
+    const requests: string[] = [];
+    agent.on('action:approval', ({ request, respond }) => {
+      requests.push(`${request.action} ${request.element?.tag} ${request.reasons.join()}`);
+      respond({ outcome: 'deny', reason: 'Not now' });
+    });
+
+    const result = await agent.execute('Start the search');
+    const denials = result.subtaskResults[0]?.denials ?? [];
+
+    expect(requests).toEqual(['click button Starts a search']);
+    expect(denials.map(d => d.decision)).toEqual([{ outcome: 'deny', reason: 'Not now' }]);
+    expect(result.subtaskResults[0]?.steps[0]?.error?.code).toBe('APPROVAL_DENIED');
+    expect(llm.getRequests()[2]?.messages.at(-1)?.content).toContain('Approver denied click: Not now');
+  });
+
+  it('should pause for ask_user questions and resume with the answer', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        plan,
+        JSON.stringify({ action: 'ask_user', params: { question: 'Which product?', fields: [0] } }),
+        JSON.stringify({ action: 'type', params: { index: 0, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({ llm });
+    const fields: string[] = [];
+    agent.on('task:question', ({ question }) => {
+      fields.push(...question.fields.map(f => f.label ?? ''));
+      setTimeout(() => agent.respond(question.id, 'laptop'), 0);
+    });
+
+    const result = await agent.execute('Search for a product');
+
+    expect(result.success).toBe(true);
+    expect(fields).toEqual(['Search']);
+    expect(llm.getRequests()[2]?.messages.at(-1)?.content).toContain('## User Answers\nQ: Which product?\nA: laptop');
+    expect(agent.respond('question_1', 'again')).toBe(false);
+  });
+
+  it('should keep the indices the model saw when asking about fields', async () => {
+    document.querySelector('form')!.insertAdjacentHTML('afterbegin', '<a href="/help">Help</a>');
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        // A click subtask reads every element, so the search box is index 1 after the link
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Search for a product', action: 'click', verification: 'Searched' }] }),
+        JSON.stringify({ action: 'ask_user', params: { question: 'Which product?', fields: [1] } }),
+        JSON.stringify({ action: 'type', params: { index: 1, text: 'laptop' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({ llm });
+    const fields: Array<[number, string | undefined]> = [];
+    agent.on('task:question', ({ question }) => {
+      fields.push(...question.fields.map(f => [f.index, f.label] as [number, string | undefined]));
+      setTimeout(() => agent.respond(question.id, 'laptop'), 0);
+    });
+
+    const result = await agent.execute('Search for a product');
+
+    expect(result.success).toBe(true);
+    expect(fields).toEqual([[1, 'Search']]);
+    expect(document.querySelector('input')?.value).toBe('laptop');
+  });
+
+  it('should fail the subtask without retrying when a question goes unanswered', async () => {
+    const llm = new MockLLMProvider({
+      responses: [
+        plan,
+        JSON.stringify({ action: 'ask_user', params: { question: 'What is the 2FA code?' } }),
+        JSON.stringify({ strategy: 'abort', reason: 'The code is required' }),
+      ],
+    });
+    const agent = new WebAgent({ llm, userInputTimeout: 20 });
+    agent.on('task:question', () => {});
+
+    const result = await agent.execute('Log in');
+
+    expect(result.success).toBe(false);
+    expect(result.subtaskResults[0]?.error).toEqual(expect.objectContaining({
+      code: 'USER_INPUT_TIMEOUT',
+      message: 'No answer to "What is the 2FA code?" within 20ms',
+    }));
+    expect(llm.getPendingCount()).toBe(0);
+  });
+
+  it('should type secrets from placeholders without revealing them', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Enter the password', action: 'type', value: '{{secret:pw}}', verification: 'Entered' }] }),
+        JSON.stringify({ action: 'type', params: { index: 0, text: '{{secret:pw}}' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({ llm, secrets: { pw: 's3cr3t-pass' } });
+    const payloads: unknown[] = [];
+    agent.on('subtask:complete', e => payloads.push(e));
+    agent.on('task:complete', e => payloads.push(e));
+
+    const result = await agent.execute('Log in with the password s3cr3t-pass');
+
+    expect(result.success).toBe(true);
+    expect(document.querySelector('input')?.value).toBe('s3cr3t-pass');
+    expect(llm.getRequests()[0]?.messages[1]?.content).toContain('Secrets (use these placeholders');
+    expect(llm.getRequests()[0]?.messages[1]?.content).toContain('Log in with the password {{secret:pw}}');
+    expect(llm.getRequests()[2]?.messages[1]?.content).toContain('{{secret:pw}}');
+    expect(JSON.stringify(llm.getRequests().map(r => r.messages))).not.toContain('s3cr3t-pass');
+    expect(JSON.stringify([result, payloads])).not.toContain('s3cr3t-pass');
+  });
+
+  it('should send tokens instead of personal data and type the real value', async () => {
+    const llm = new MockLLMProvider({
+      rules: [verified],
+      responses: [
+        JSON.stringify({ subtasks: [{ id: '1', description: 'Enter {{pii:email_1}}', action: 'type', value: '{{pii:email_1}}', verification: 'Entered' }] }),
+        JSON.stringify({ action: 'type', params: { index: 0, text: '{{pii:email_1}}' } }),
+        JSON.stringify({ action: 'done' }),
+      ],
+    });
+    const agent = new WebAgent({ llm, piiRedaction: { detectors: ['email'] } });
+
+    const result = await agent.execute('Search for jane@example.com');
+
+    expect(result.success).toBe(true);
+    expect(document.querySelector('input')?.value).toBe('jane@example.com');
+    expect(llm.getRequests()[0]?.messages[1]?.content).toContain('Search for {{pii:email_1}}');
+    expect(llm.getRequests()[1]?.messages[1]?.content).toContain('## Redacted Data');
+    expect(JSON.stringify(llm.getRequests().map(r => r.messages))).not.toContain('jane@example.com');
+    expect(result.plan?.subtasks[0]?.description).toBe('Enter jane@example.com');
+  });
+});